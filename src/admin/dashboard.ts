@@ -10,12 +10,31 @@ import {
   getSettings, updateSettings, generateConfirmToken,
   type RuntimeSettings,
 } from '../security/settings.js';
-import { getAllTasks, getTasksByStatus, getTask, getSubtasks, updateTaskStatus, deleteTask } from '../tasks/queue.js';
-import { getPendingApprovals, getAllApprovals, resolveApproval } from '../tasks/approvals.js';
-import { getTodayUsage, getHistoricalUsage, getCostConfig, setCostConfig } from '../tasks/costs.js';
+import {
+  getAllTasks, getTasksByStatus, getTask, getSubtasks, updateTaskStatus, resumeTask, deleteTask,
+} from '../tasks/queue.js';
+import { getUpcomingRuns, getRecurringRuns } from '../tasks/schedule.js';
+import { listArtifacts, getArtifactFile } from '../tasks/artifacts.js';
+import { getPendingApprovals, getAllApprovals, resolveApproval, ApprovalError } from '../tasks/approvals.js';
+import {
+  getApprovalPolicy, saveApprovalPolicy, addAutoApproveRule, allowsAutoApprove, ApprovalPolicyError,
+  DASHBOARD_APPROVER, type ApprovalPolicy,
+} from '../tasks/approval-policy.js';
+import {
+  getTodayUsage, getHistoricalUsage, getCostConfig, setCostConfig, getBudgetStatus,
+  getSpendForecast, getTodayAlerts, queryUsage, usageToCsv, UsageQueryError, type UsageQuery, type UsageDimension,
+} from '../tasks/costs.js';
 import { getAllTriggers, deleteTrigger, toggleTrigger } from '../triggers/engine.js';
 import { getActiveAgents } from '../orchestrator/planner.js';
 import { getRoutes } from '../orchestrator/router.js';
+import { listEndpoints } from '../llm/registry.js';
+import { getCostAlertSnooze, snoozeCostAlerts } from '../tasks/cost-alerts.js';
+import { getModelPrice, listPrices, setPriceOverride, getPricingVersion, PricingError } from '../llm/pricing.js';
+import { getLLMQueueStats } from '../llm/limiter.js';
+import { getMemoryInjections } from '../memory/context.js';
+import {
+  getToolPolicy, saveToolPolicy, evaluateToolCall, validateToolPolicy, PolicyError, type ToolPolicy,
+} from '../security/policy.js';
 import { agentConfig } from '../config.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -43,6 +62,30 @@ export function createAdminRouter(): Router {
     res.json({ token: generateConfirmToken(dangerKey) });
   });
 
+  // ---- Tool policy APIs --------------------------------------
+  router.get('/api/tool-policy', (_req, res) => { res.json(getToolPolicy()); });
+
+  router.post('/api/tool-policy', async (req, res) => {
+    try {
+      await saveToolPolicy(req.body as ToolPolicy);
+      res.json({ ok: true });
+    } catch (err: any) {
+      if (err instanceof PolicyError) { res.status(400).json({ error: err.message, problems: err.problems }); return; }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Evaluate a sample call against the saved policy, or a draft one
+  router.post('/api/tool-policy/dry-run', (req, res) => {
+    const { policy, call, subject } = req.body ?? {};
+    if (!call?.name) { res.status(400).json({ error: 'Missing call.name' }); return; }
+    const draft = (policy ?? getToolPolicy()) as ToolPolicy;
+    const problems = validateToolPolicy(draft);
+    if (problems.length > 0) { res.status(400).json({ error: 'Invalid policy', problems }); return; }
+    const decision = evaluateToolCall({ name: call.name, input: call.input ?? {} }, subject ?? {}, draft);
+    res.json({ decision, rule: decision.ruleIndex >= 0 ? draft.rules[decision.ruleIndex] : null });
+  });
+
   // ---- Task APIs ---------------------------------------------
   router.get('/api/tasks', (req, res) => {
     const status = req.query.status as string | undefined;
@@ -50,11 +93,32 @@ export function createAdminRouter(): Router {
     res.json(tasks.slice(0, 100));
   });
 
+  // Upcoming runs of scheduled and recurring tasks
+  router.get('/api/tasks/calendar', (req, res) => {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 62);
+    res.json(getUpcomingRuns(days));
+  });
+
   router.get('/api/tasks/:id', (req, res) => {
     const task = getTask(req.params.id);
     if (!task) { res.status(404).json({ error: 'Not found' }); return; }
     const subtasks = getSubtasks(task.id);
-    res.json({ ...task, subtasks });
+    const runs = task.recurrence ? getRecurringRuns(task.id) : undefined;
+    res.json({ ...task, subtasks, runs });
+  });
+
+  router.get('/api/tasks/:id/artifacts', async (req, res) => {
+    if (!getTask(req.params.id)) { res.status(404).json({ error: 'Not found' }); return; }
+    res.json(await listArtifacts(req.params.id));
+  });
+
+  router.get('/api/tasks/:id/artifacts/:artifactId', async (req, res) => {
+    const file = await getArtifactFile(req.params.id, req.params.artifactId);
+    if (!file) { res.status(404).json({ error: 'Not found' }); return; }
+    res.type(file.artifact.mimeType);
+    res.download(file.path, file.artifact.name, (err) => {
+      if (err && !res.headersSent) res.status(404).json({ error: 'Artifact file missing' });
+    });
   });
 
   router.post('/api/tasks/:id/action', async (req, res) => {
@@ -64,7 +128,7 @@ export function createAdminRouter(): Router {
       if (!task) { res.status(404).json({ error: 'Not found' }); return; }
       if (action === 'cancel') await updateTaskStatus(task.id, 'cancelled');
       else if (action === 'pause') await updateTaskStatus(task.id, 'paused');
-      else if (action === 'resume') await updateTaskStatus(task.id, 'pending');
+      else if (action === 'resume') await resumeTask(task.id);
       else if (action === 'delete') await deleteTask(task.id);
       res.json({ ok: true });
     } catch (err: any) { res.status(500).json({ error: err.message }); }
@@ -72,15 +136,37 @@ export function createAdminRouter(): Router {
 
   // ---- Approval APIs -----------------------------------------
   router.get('/api/approvals', (_req, res) => {
-    res.json(getAllApprovals().slice(0, 50));
+    // Continuations hold message histories; only say whether one exists
+    res.json(getAllApprovals().slice(0, 50).map(({ continuation, ...a }) => ({ ...a, resumable: !!continuation })));
   });
 
   router.post('/api/approvals/:id', async (req, res) => {
     try {
-      const { decision } = req.body;
-      const result = await resolveApproval(req.params.id, decision, 'admin');
-      res.json(result || { error: 'Not found or already resolved' });
-    } catch (err: any) { res.status(500).json({ error: err.message }); }
+      const { decision, always, note } = req.body;
+      if (decision !== 'approved' && decision !== 'rejected') { res.status(400).json({ error: 'decision must be approved or rejected' }); return; }
+      const result = await resolveApproval(req.params.id, decision, DASHBOARD_APPROVER, note);
+      if (!result) { res.json({ error: 'Not found or already resolved' }); return; }
+      if (always && result.status === 'approved' && allowsAutoApprove(result)) {
+        await addAutoApproveRule(result, DASHBOARD_APPROVER);
+      }
+      const { continuation, ...approval } = result;
+      res.json({ ...approval, resumable: !!continuation });
+    } catch (err: any) {
+      if (err instanceof ApprovalError) { res.status(403).json({ error: err.message }); return; }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/api/approval-policy', (_req, res) => { res.json(getApprovalPolicy()); });
+
+  router.post('/api/approval-policy', async (req, res) => {
+    try {
+      await saveApprovalPolicy(req.body as ApprovalPolicy);
+      res.json({ ok: true });
+    } catch (err: any) {
+      if (err instanceof ApprovalPolicyError) { res.status(400).json({ error: err.message, problems: err.problems }); return; }
+      res.status(500).json({ error: err.message });
+    }
   });
 
   // ---- Cost APIs ---------------------------------------------
@@ -93,6 +179,63 @@ export function createAdminRouter(): Router {
 
   router.get('/api/costs/config', (_req, res) => { res.json(getCostConfig()); });
 
+  // Pricing catalogue, with admin overrides on top
+  router.get('/api/costs/pricing', (_req, res) => {
+    res.json({ version: getPricingVersion(), prices: listPrices() });
+  });
+
+  router.post('/api/costs/pricing', async (req, res) => {
+    try {
+      const { provider, model, price } = req.body;
+      await setPriceOverride(String(provider ?? ''), String(model ?? ''), price ?? null);
+      res.json({ version: getPricingVersion(), prices: listPrices() });
+    } catch (err: any) {
+      if (err instanceof PricingError) { res.status(400).json({ error: err.message, problems: err.problems }); return; }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Spend against each configured daily / weekly / monthly cap
+  router.get('/api/costs/budgets', (_req, res) => { res.json(getBudgetStatus()); });
+
+  // Projected spend, today's alerts and the chat snooze
+  router.get('/api/costs/forecast', (_req, res) => {
+    res.json({ forecast: getSpendForecast(), alerts: getTodayAlerts(), snoozedUntil: getCostAlertSnooze() });
+  });
+
+  router.post('/api/costs/alerts/snooze', async (req, res) => {
+    try {
+      res.json({ snoozedUntil: await snoozeCostAlerts(Number(req.body.minutes) || 0) });
+    } catch (err: any) { res.status(500).json({ error: err.message }); }
+  });
+
+  // Spend by origin: ?groupBy=source,model&from=YYYY-MM-DD&to=YYYY-MM-DD
+  const usageQuery = (q: Record<string, unknown>): UsageQuery => ({
+    groupBy: String(q.groupBy || 'source').split(',').map(d => d.trim()).filter(Boolean) as UsageDimension[],
+    from: q.from ? String(q.from) : undefined,
+    to: q.to ? String(q.to) : undefined,
+  });
+
+  router.get('/api/costs/breakdown', async (req, res) => {
+    try {
+      res.json(await queryUsage(usageQuery(req.query)));
+    } catch (err: any) {
+      if (err instanceof UsageQueryError) { res.status(400).json({ error: err.message, problems: err.problems }); return; }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/api/costs/breakdown.csv', async (req, res) => {
+    try {
+      const query = usageQuery(req.query);
+      const csv = usageToCsv(await queryUsage(query), query.groupBy!);
+      res.type('text/csv').attachment(`costs-${query.groupBy!.join('-')}.csv`).send(csv);
+    } catch (err: any) {
+      if (err instanceof UsageQueryError) { res.status(400).json({ error: err.message, problems: err.problems }); return; }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   router.post('/api/costs/config', async (req, res) => {
     try {
       await setCostConfig(req.body);
@@ -118,7 +261,14 @@ export function createAdminRouter(): Router {
 
   // ---- Agent APIs --------------------------------------------
   router.get('/api/agents', (_req, res) => {
-    res.json({ agents: getActiveAgents(), routes: getRoutes() });
+    const routes = getRoutes().map(r => ({ ...r, price: getModelPrice(r.provider, r.model) }));
+    res.json({ agents: getActiveAgents(), routes, endpoints: listEndpoints(), llmQueue: getLLMQueueStats() });
+  });
+
+  // ---- Memory APIs -------------------------------------------
+  router.get('/api/memory/injections', (req, res) => {
+    const key = req.query.key as string | undefined;
+    res.json(getMemoryInjections(key, parseInt(req.query.limit as string) || 50));
   });
 
   // ---- Audit APIs --------------------------------------------
@@ -252,7 +402,13 @@ td{padding:5px 8px;border-bottom:1px solid #21262d}
 <div class="row"><label>Max Tool Output (chars)</label><input type="number" data-key="maxToolOutputChars" value="50000"></div>
 <div class="row"><label>Gateway Rate (req/min)</label><input type="number" data-key="gatewayRateLimitPerMin" value="60"></div>
 <div class="row"><label>LLM Rate (calls/min)</label><input type="number" data-key="llmRateLimitPerMin" value="30"></div>
+<div class="row"><label>LLM Queue Wait (ms) <span class="desc">max time a rate-limited call waits</span></label><input type="number" data-key="llmQueueMaxWaitMs" value="120000"></div>
+<div class="row"><label>LLM Retries <span class="desc">per provider, before failing over</span></label><input type="number" data-key="llmMaxRetries" value="3"></div>
 <div class="row"><label>Max Tool Calls/Message</label><input type="number" data-key="maxToolCallsPerMessage" value="20"></div>
+<div class="row"><label>Memory Token Budget <span class="desc">memories injected per prompt</span></label><input type="number" data-key="memoryTokenBudget" value="800"></div>
+<div class="row"><label>Thread Summary Threshold <span class="desc">tokens before old messages are summarized</span></label><input type="number" data-key="threadSummaryTokenThreshold" value="24000"></div>
+<div class="row"><label>Max Parallel Subtasks <span class="desc">orchestrator concurrency cap</span></label><input type="number" data-key="maxParallelSubtasks" value="3"></div>
+<div class="row"><label>Max Concurrent Tasks <span class="desc">queued tasks the worker pool runs at once</span></label><input type="number" data-key="maxConcurrentTasks" value="2"></div>
 </div>
 <div class="card">
 <h2>Agent</h2>
@@ -274,6 +430,18 @@ td{padding:5px 8px;border-bottom:1px solid #21262d}
 <div class="row"><label>⚡ System Control <span class="desc danger-desc">⚠ HIGHEST RISK: OS access</span></label><label class="toggle"><input type="checkbox" data-key="toolPermissions.systemControl"><span class="sl"></span></label></div>
 </div>
 <div class="card">
+<h2>Tool Policy <span class="desc">workspace/tool-policy.json — first matching rule wins</span></h2>
+<textarea id="policy-json" class="mono" spellcheck="false" style="width:100%;height:280px;background:#0d1117;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:8px"></textarea>
+<div style="margin:6px 0"><button onclick="savePolicy()">Save Policy</button> <span id="policy-msg" class="desc"></span></div>
+<h2 style="margin-top:12px">Dry Run <span class="desc">tests the editor contents, saved or not</span></h2>
+<div class="row"><label>Tool</label><input type="text" id="dr-tool" placeholder="run_shell"></div>
+<div class="row"><label>Arguments (JSON)</label><input type="text" id="dr-args" style="width:300px" placeholder='{"command":"git status"}'></div>
+<div class="row"><label>Channel / User</label><span><input type="text" id="dr-channel" placeholder="telegram" style="width:100px"> <input type="text" id="dr-user" placeholder="user id" style="width:120px"></span></div>
+<div class="row"><label>Autonomy</label><select id="dr-autonomy"><option value="">(current)</option><option value="low">Low</option><option value="medium">Medium</option><option value="high">High</option></select></div>
+<div style="margin:6px 0"><button onclick="dryRunPolicy()">Dry Run</button></div>
+<div id="dr-result" class="mono"></div>
+</div>
+<div class="card">
 <h2>Domain Filtering</h2>
 <div class="row"><label>Allowed Domains</label><input type="text" data-key="allowedDomains" style="width:300px" placeholder="empty = all public"></div>
 <div class="row"><label>Blocked Domains</label><input type="text" data-key="blockedDomains" style="width:300px"></div>
@@ -307,13 +475,26 @@ td{padding:5px 8px;border-bottom:1px solid #21262d}
 <h2>Task Queue</h2>
 <div style="display:flex;gap:6px;margin-bottom:10px">
 <button onclick="loadTasks()">Refresh</button>
-<select id="task-filter"><option value="">All</option><option value="running">Running</option><option value="pending">Pending</option><option value="completed">Completed</option><option value="failed">Failed</option><option value="waiting_approval">Awaiting Approval</option></select>
+<select id="task-filter"><option value="">All</option><option value="scheduled">Scheduled</option><option value="running">Running</option><option value="pending">Pending</option><option value="completed">Completed</option><option value="failed">Failed</option><option value="waiting_approval">Awaiting Approval</option></select>
 </div>
 <table><thead><tr><th>Status</th><th>Task</th><th>Progress</th><th>Cost</th><th>Actions</th></tr></thead><tbody id="task-table"></tbody></table>
+<div id="task-artifacts"></div>
+</div>
+<div class="card">
+<h2>Upcoming Runs <span class="desc">scheduled and recurring tasks, server local time</span></h2>
+<div style="display:flex;gap:6px;margin-bottom:10px">
+<select id="cal-days"><option value="7">Next 7 days</option><option value="14">Next 14 days</option><option value="31">Next 31 days</option></select>
+</div>
+<div class="grid" id="task-calendar"></div>
 </div>
 <div class="card">
 <h2>Pending Approvals</h2>
 <div id="approvals-list"></div>
+</div>
+<div class="card">
+<h2>Approval Policy <span class="desc">workspace/approval-policy.json — expiry and quorum per risk level, approvers, delegations, auto-approve rules</span></h2>
+<textarea id="apolicy-json" class="mono" spellcheck="false" style="width:100%;height:220px;background:#0d1117;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:8px"></textarea>
+<div style="margin:6px 0"><button onclick="saveApprovalPolicy()">Save Policy</button> <span id="apolicy-msg" class="desc"></span></div>
 </div></div>
 
 <!-- AGENTS -->
@@ -325,6 +506,15 @@ td{padding:5px 8px;border-bottom:1px solid #21262d}
 <div class="card">
 <h2>Model Routes</h2>
 <table><thead><tr><th>Tier</th><th>Provider</th><th>Model</th><th>$/1K In</th><th>$/1K Out</th></tr></thead><tbody id="routes-table"></tbody></table>
+</div>
+<div class="card">
+<h2>LLM Endpoints</h2>
+<div class="sub" id="llm-queue"></div>
+<table><thead><tr><th>Name</th><th>Kind</th><th>Base URL</th><th>Default Model</th><th>Key</th></tr></thead><tbody id="endpoints-table"></tbody></table>
+</div>
+<div class="card">
+<h2>Memory Injections</h2>
+<table><thead><tr><th>Time</th><th>Conversation</th><th>Tokens</th><th>Memories (reason / score)</th></tr></thead><tbody id="injections-table"></tbody></table>
 </div></div>
 
 <!-- COSTS -->
@@ -337,11 +527,50 @@ td{padding:5px 8px;border-bottom:1px solid #21262d}
 <div><span class="cost-big" id="cost-budget">∞</span><br><span class="cost-label">Daily budget</span></div>
 </div></div>
 <div class="card">
+<h2>Forecast &amp; Alerts <span class="desc">from the last 3 hours' burn rate</span></h2>
+<div class="grid">
+<div><span class="cost-big" id="fc-today">$0.00</span><br><span class="cost-label">Projected today</span></div>
+<div><span class="cost-big" id="fc-month">$0.00</span><br><span class="cost-label">Projected 30 days</span></div>
+<div><span class="cost-big" id="fc-rate">$0.00</span><br><span class="cost-label">Per hour now</span></div>
+<div><span class="cost-big" id="fc-hour">$0.00</span><br><span class="cost-label" id="fc-median">This hour</span></div>
+</div>
+<div id="fc-alerts" style="margin:10px 0"></div>
+<span id="fc-snooze" class="desc"></span> <button class="sm" onclick="snoozeAlerts(60)">Snooze 1h</button> <button class="sm" onclick="snoozeAlerts(1440)">Snooze 1d</button> <button class="sm" onclick="snoozeAlerts(0)">Unsnooze</button>
+</div>
+<div class="card">
 <h2>Budget Settings</h2>
 <div class="row"><label>Daily Budget ($)</label><input type="number" id="budget-daily" step="0.5" value="0" min="0"></div>
-<div class="row"><label>Weekly Budget ($)</label><input type="number" id="budget-weekly" step="1" value="0" min="0"></div>
+<div class="row"><label>Weekly Budget ($) <span class="desc">rolling 7 days</span></label><input type="number" id="budget-weekly" step="1" value="0" min="0"></div>
+<div class="row"><label>Monthly Budget ($) <span class="desc">rolling 30 days</span></label><input type="number" id="budget-monthly" step="5" value="0" min="0"></div>
 <div class="row"><label>Hard Stop (block calls at limit)</label><label class="toggle"><input type="checkbox" id="budget-hardstop"><span class="sl"></span></label></div>
-<button onclick="saveBudget()">Save Budget</button>
+<div class="row"><label>Per-Task Ceiling ($) <span class="desc">tasks can set their own; the orchestrator downgrades at the warn level and stops at the ceiling</span></label><input type="number" id="budget-task" step="0.5" value="0" min="0"></div>
+<div style="margin:6px 0"><label>User Daily Allowances <span class="desc">$ by "channel/userId", userId or "*" — always enforced</span></label>
+<textarea id="budget-users" class="mono" spellcheck="false" style="width:100%;height:70px;background:#0d1117;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:8px"></textarea></div>
+<div style="margin:6px 0"><label>Channel Daily Allowances <span class="desc">$ by channel — always enforced</span></label>
+<textarea id="budget-channels" class="mono" spellcheck="false" style="width:100%;height:70px;background:#0d1117;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:8px"></textarea></div>
+<div class="row"><label>Unusual-Hour Alert (×) <span class="desc">alert when an hour costs this many times the 7-day median hour; 0 = off</span></label><input type="number" id="budget-anomaly" step="0.5" value="5" min="0"></div>
+<div class="row"><label>Unusual-Hour Minimum ($) <span class="desc">smaller hours never alert</span></label><input type="number" id="budget-anomaly-min" step="0.1" value="0.5" min="0"></div>
+<div id="budget-status" class="desc" style="margin:6px 0"></div>
+<button onclick="saveBudget()">Save Budget</button> <span id="budget-msg" class="desc"></span>
+</div>
+<div class="card">
+<h2>Model Pricing <span class="desc">$ per 1K tokens · catalogue <span id="pricing-version" class="mono"></span></span></h2>
+<div style="max-height:300px;overflow-y:auto"><table><thead><tr><th>Provider</th><th>Model</th><th>In</th><th>Out</th><th>Cache Read</th><th>Cache Write</th><th>Batch In</th><th>Batch Out</th><th>Source</th><th></th></tr></thead><tbody id="pricing-table"></tbody></table></div>
+<div style="display:flex;gap:6px;flex-wrap:wrap;margin-top:8px">
+<input id="price-provider" placeholder="provider" style="width:100px"><input id="price-model" placeholder="model or *" style="width:200px">
+<input type="number" id="price-input" placeholder="in" step="0.0001" min="0" style="width:80px"><input type="number" id="price-output" placeholder="out" step="0.0001" min="0" style="width:80px">
+<input type="number" id="price-cacheRead" placeholder="cache read" step="0.00001" min="0" style="width:90px"><input type="number" id="price-cacheWrite" placeholder="cache write" step="0.00001" min="0" style="width:90px">
+<input type="number" id="price-batchInput" placeholder="batch in" step="0.0001" min="0" style="width:80px"><input type="number" id="price-batchOutput" placeholder="batch out" step="0.0001" min="0" style="width:80px">
+<button onclick="savePrice()">Override</button> <span id="pricing-msg" class="desc"></span>
+</div></div>
+<div class="card">
+<h2>Spend Breakdown <span class="desc">by where calls came from</span></h2>
+<div style="display:flex;gap:6px;flex-wrap:wrap;align-items:center;margin-bottom:8px">
+<select id="bd-group1"></select><select id="bd-group2"><option value="">—</option></select>
+<label class="desc">from</label><input type="date" id="bd-from"><label class="desc">to</label><input type="date" id="bd-to">
+<button onclick="loadBreakdown()">Show</button> <button class="sm" onclick="exportBreakdown()">Export CSV</button> <span id="bd-msg" class="desc"></span>
+</div>
+<div id="cost-breakdown" style="max-height:300px;overflow-y:auto"></div>
 </div>
 <div class="card">
 <h2>Usage History</h2>
@@ -390,9 +619,10 @@ document.querySelectorAll('.tab').forEach(t=>t.onclick=()=>{
   document.querySelectorAll('.tab').forEach(x=>x.classList.remove('active'));
   document.querySelectorAll('.panel').forEach(x=>x.classList.remove('active'));
   t.classList.add('active');document.getElementById(t.dataset.p).classList.add('active');
-  if(t.dataset.p==='tasks'){loadTasks();loadApprovals();}
+  if(t.dataset.p==='tools')loadPolicy();
+  if(t.dataset.p==='tasks'){loadTasks();loadCalendar();loadApprovals();loadApprovalPolicy();}
   if(t.dataset.p==='agents')loadAgents();
-  if(t.dataset.p==='costs')loadCosts();
+  if(t.dataset.p==='costs'){loadCosts();loadPricing();loadBreakdown();}
   if(t.dataset.p==='triggers')loadTriggers();
   if(t.dataset.p==='audit')loadAuditDates();
 });
@@ -412,46 +642,136 @@ const dk=pendingC.m.split(':')[0].trim();const tr=await fetch(A+'/settings/confi
 await fetch(A+'/settings',{method:'POST',headers:authH(),body:JSON.stringify({patch:pendingC.patch,confirmToken:token})});
 if(pendingC.el.type==='checkbox')pendingC.el.checked=!pendingC.el.checked;document.getElementById('cModal').classList.remove('show');pendingC=null;showSaved();}
 
+// Tool policy
+async function loadPolicy(){const r=await fetch(A+'/tool-policy',{headers:authH()});document.getElementById('policy-json').value=JSON.stringify(await r.json(),null,2);document.getElementById('policy-msg').textContent='';}
+function readPolicy(){try{return JSON.parse(document.getElementById('policy-json').value);}catch(e){document.getElementById('policy-msg').textContent='⚠ '+e.message;return null;}}
+async function savePolicy(){const p=readPolicy();if(!p)return;const r=await fetch(A+'/tool-policy',{method:'POST',headers:authH(),body:JSON.stringify(p)});const res=await r.json();
+if(!r.ok){document.getElementById('policy-msg').textContent='⚠ '+(res.problems||[res.error]).join('; ');return;}document.getElementById('policy-msg').textContent='';showSaved();}
+async function dryRunPolicy(){const p=readPolicy();if(!p)return;let input={};const raw=document.getElementById('dr-args').value.trim();
+if(raw){try{input=JSON.parse(raw);}catch(e){document.getElementById('dr-result').textContent='⚠ Arguments: '+e.message;return;}}
+const subject={channel:document.getElementById('dr-channel').value||undefined,userId:document.getElementById('dr-user').value||undefined,autonomy:document.getElementById('dr-autonomy').value||undefined};
+const r=await fetch(A+'/tool-policy/dry-run',{method:'POST',headers:authH(),body:JSON.stringify({policy:p,call:{name:document.getElementById('dr-tool').value,input},subject})});const res=await r.json();
+const d=document.getElementById('dr-result');if(!r.ok){d.textContent='⚠ '+(res.problems||[res.error]).join('; ');return;}
+const bc=res.decision.action==='allow'?'b-green':res.decision.action==='deny'?'b-red':'b-yellow';
+d.innerHTML='<span class="badge '+bc+'">'+res.decision.action+'</span> risk '+res.decision.risk+' — '+res.decision.reason+(res.rule?'<br>rule #'+(res.decision.ruleIndex+1)+': '+JSON.stringify(res.rule):'');}
+
 // Tasks
 async function loadTasks(){const f=document.getElementById('task-filter').value;const r=await fetch(A+'/tasks'+(f?'?status='+f:''),{headers:authH()});const tasks=await r.json();
 const tb=document.getElementById('task-table');
 tb.innerHTML=tasks.map(t=>{const bc=t.status==='completed'?'b-green':t.status==='failed'?'b-red':t.status==='running'?'b-blue':'b-gray';
-return '<tr><td><span class="badge '+bc+'">'+t.status+'</span></td><td>'+t.title+'<br><span class="mono">'+t.id.slice(0,8)+'</span></td><td><div class="bar"><div class="bar-fill" style="width:'+t.progress+'%"></div></div> '+t.progress+'%</td><td>$'+(t.usage?.estimatedCost||0).toFixed(3)+'</td><td>'+(t.status==='running'?'<button class="sm danger" onclick="taskAct(\\''+t.id+'\\',\\'cancel\\')">Cancel</button>':'')+(t.status==='paused'?'<button class="sm" onclick="taskAct(\\''+t.id+'\\',\\'resume\\')">Resume</button>':'')+'</td></tr>';}).join('')||'<tr><td colspan="5" style="color:#8b949e">No tasks</td></tr>';}
-async function taskAct(id,action){await fetch(A+'/tasks/'+id+'/action',{method:'POST',headers:authH(),body:JSON.stringify({action})});loadTasks();}
+const sched=(t.recurrence?' 🔁 '+(t.recurrence.cron||'every '+t.recurrence.everyMinutes+' min')+' · '+(t.runCount||0)+' runs':'')+(t.status==='scheduled'&&t.runAt?' ⏰ '+new Date(t.runAt).toLocaleString():'')+(t.deadline?' ⌛ '+new Date(t.deadline).toLocaleString():'')+(t.recurringId?' ↩ run of '+t.recurringId.slice(0,8):'');
+return '<tr><td><span class="badge '+bc+'">'+t.status+'</span></td><td>'+t.title+'<br><span class="mono">'+t.id.slice(0,8)+sched+'</span></td><td><div class="bar"><div class="bar-fill" style="width:'+t.progress+'%"></div></div> '+t.progress+'%</td><td>$'+(t.usage?.estimatedCost||0).toFixed(3)+'</td><td><button class="sm" title="Artifacts" onclick="loadArtifacts(\\''+t.id+'\\')">📎</button> '+(t.status==='running'||t.status==='scheduled'?'<button class="sm danger" onclick="taskAct(\\''+t.id+'\\',\\'cancel\\')">Cancel</button>':'')+(t.status==='paused'?'<button class="sm" onclick="taskAct(\\''+t.id+'\\',\\'resume\\')">Resume</button>':'')+'</td></tr>';}).join('')||'<tr><td colspan="5" style="color:#8b949e">No tasks</td></tr>';}
+async function taskAct(id,action){await fetch(A+'/tasks/'+id+'/action',{method:'POST',headers:authH(),body:JSON.stringify({action})});loadTasks();loadCalendar();}
 document.getElementById('task-filter').onchange=loadTasks;
+let arts=[];
+async function loadArtifacts(id){const r=await fetch(A+'/tasks/'+id+'/artifacts',{headers:authH()});arts=r.ok?await r.json():[];
+const kb=n=>n<1024?n+' B':n<1048576?(n/1024).toFixed(1)+' KB':(n/1048576).toFixed(1)+' MB';
+document.getElementById('task-artifacts').innerHTML='<h3 style="margin-top:10px">📎 Artifacts of '+id.slice(0,8)+'</h3>'+(arts.length?'<table><thead><tr><th>Name</th><th>Type</th><th>Size</th><th>From</th><th></th></tr></thead><tbody>'+arts.map((a,i)=>'<tr><td>'+a.name+(a.description?'<br><span class="desc">'+a.description+'</span>':'')+'</td><td class="mono">'+a.mimeType+'</td><td>'+kb(a.size)+'</td><td class="desc">'+(a.tool||'')+(a.subtaskId?' · subtask '+a.subtaskId.slice(0,8):'')+'</td><td><button class="sm" onclick="dlArtifact('+i+')">Download</button></td></tr>').join('')+'</tbody></table>':'<span class="desc">No artifacts</span>');}
+async function dlArtifact(i){const a=arts[i];const r=await fetch(A+'/tasks/'+a.taskId+'/artifacts/'+a.id,{headers:authH()});if(!r.ok){alert('Download failed');return;}
+const url=URL.createObjectURL(await r.blob());const l=document.createElement('a');l.href=url;l.download=a.name;l.click();setTimeout(()=>URL.revokeObjectURL(url),1000);}
+async function loadCalendar(){const days=parseInt(document.getElementById('cal-days').value);const r=await fetch(A+'/tasks/calendar?days='+days,{headers:authH()});const runs=await r.json();
+const byDay={};for(const x of runs){const k=new Date(x.at).toDateString();(byDay[k]=byDay[k]||[]).push(x);}
+const cols=[];for(let i=0;i<days;i++){const d=new Date();d.setDate(d.getDate()+i);const k=d.toDateString();const items=byDay[k]||[];
+cols.push('<div class="card" style="margin:0;padding:8px"><strong style="font-size:.8em">'+d.toLocaleDateString(undefined,{weekday:'short',month:'short',day:'numeric'})+'</strong>'+(items.length?items.map(x=>'<div style="font-size:.75em;margin-top:4px"><span class="mono">'+new Date(x.at).toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})+'</span> '+(x.recurring?'🔁 ':'')+x.title+(x.priority!=='normal'?' <span class="badge '+(x.priority==='low'?'b-gray':'b-yellow')+'">'+x.priority+'</span>':'')+(x.deadline?'<span class="desc">⌛ by '+new Date(x.deadline).toLocaleString()+'</span>':'')+'</div>').join(''):'<span class="desc">—</span>')+'</div>');}
+document.getElementById('task-calendar').innerHTML=cols.join('');}
+document.getElementById('cal-days').onchange=loadCalendar;
 
 // Approvals
 async function loadApprovals(){const r=await fetch(A+'/approvals',{headers:authH()});const all=await r.json();const pending=all.filter(a=>a.status==='pending');
 const d=document.getElementById('approvals-list');
 if(!pending.length){d.innerHTML='<p style="color:#8b949e;font-size:.85em">No pending approvals</p>';return;}
-d.innerHTML=pending.map(a=>'<div class="card" style="border-color:#d29922"><strong>'+a.proposedAction.tool+'</strong> <span class="badge b-yellow">'+a.riskLevel+'</span><br><span class="desc">'+a.proposedAction.reasoning+'</span><br><span class="desc">'+a.riskExplanation+'</span><div style="margin-top:6px"><button onclick="resolveA(\\''+a.id+'\\',\\'approved\\')">✅ Approve</button> <button class="danger" onclick="resolveA(\\''+a.id+'\\',\\'rejected\\')">❌ Reject</button></div></div>').join('');}
-async function resolveA(id,d){await fetch(A+'/approvals/'+id,{method:'POST',headers:authH(),body:JSON.stringify({decision:d})});loadApprovals();loadTasks();}
+d.innerHTML=pending.map(a=>'<div class="card" style="border-color:#d29922"><strong>'+a.proposedAction.tool+'</strong> <span class="badge b-yellow">'+a.riskLevel+'</span> <span class="desc">'+(a.threadId?'💬 '+a.threadId:'📋 task '+(a.taskId||'').slice(0,8))+'</span><br><span class="desc">'+a.proposedAction.reasoning+'</span><br><span class="desc">'+a.riskExplanation+'</span>'+((a.quorum||1)>1?'<br><span class="desc">👥 '+votes(a)+'/'+a.quorum+' approvers</span>':'')+((a.decisions||[]).length?'<br><span class="desc">'+a.decisions.map(x=>x.decision+' by '+x.by+(x.onBehalfOf?' for '+x.onBehalfOf:'')).join(' · ')+'</span>':'')+'<div style="margin-top:6px"><button onclick="resolveA(\\''+a.id+'\\',\\'approved\\')">✅ Approve</button> '+(a.riskLevel!=='critical'&&(a.quorum||1)<=1?'<button onclick="resolveA(\\''+a.id+'\\',\\'approved\\',true)">🔁 Always</button> ':'')+'<button class="danger" onclick="resolveA(\\''+a.id+'\\',\\'rejected\\')">❌ Reject</button></div></div>').join('');}
+function votes(a){return new Set((a.decisions||[]).filter(x=>x.decision==='approved').map(x=>x.onBehalfOf||x.by)).size;}
+async function resolveA(id,d,always){const r=await fetch(A+'/approvals/'+id,{method:'POST',headers:authH(),body:JSON.stringify({decision:d,always:!!always})});if(!r.ok)alert((await r.json()).error);loadApprovals();loadTasks();if(always)loadApprovalPolicy();}
+async function loadApprovalPolicy(){const r=await fetch(A+'/approval-policy',{headers:authH()});document.getElementById('apolicy-json').value=JSON.stringify(await r.json(),null,2);document.getElementById('apolicy-msg').textContent='';}
+async function saveApprovalPolicy(){let p;try{p=JSON.parse(document.getElementById('apolicy-json').value);}catch(e){document.getElementById('apolicy-msg').textContent='⚠ '+e.message;return;}
+const r=await fetch(A+'/approval-policy',{method:'POST',headers:authH(),body:JSON.stringify(p)});const res=await r.json();
+if(!r.ok){document.getElementById('apolicy-msg').textContent='⚠ '+(res.problems||[res.error]).join('; ');return;}document.getElementById('apolicy-msg').textContent='';showSaved();}
 
 // Agents
-async function loadAgents(){const r=await fetch(A+'/agents',{headers:authH()});const{agents,routes}=await r.json();
+async function loadAgents(){const r=await fetch(A+'/agents',{headers:authH()});const{agents,routes,endpoints,llmQueue}=await r.json();
 document.getElementById('agents-table').innerHTML=agents.length?agents.map(a=>'<tr><td>'+a.name+'</td><td>'+a.role+'</td><td>'+a.provider+'/'+a.model+'</td><td><span class="badge '+(a.status==='busy'?'b-green':'b-gray')+'">'+a.status+'</span></td><td>'+(a.usage.inputTokens+a.usage.outputTokens)+'</td><td>$'+a.usage.estimatedCost.toFixed(4)+'</td></tr>').join(''):'<tr><td colspan="6" style="color:#8b949e">No active sub-agents</td></tr>';
-document.getElementById('routes-table').innerHTML=routes.map(r=>'<tr><td><span class="badge b-blue">'+r.tier+'</span></td><td>'+r.provider+'</td><td>'+r.model+'</td><td>$'+r.costPer1kInput+'</td><td>$'+r.costPer1kOutput+'</td></tr>').join('');}
+document.getElementById('routes-table').innerHTML=routes.map(r=>'<tr><td><span class="badge b-blue">'+r.tier+'</span></td><td>'+r.provider+'</td><td>'+r.model+'</td><td>$'+r.price.input+'</td><td>$'+r.price.output+'</td></tr>').join('');
+document.getElementById('llm-queue').textContent='Rate-limit queue: '+llmQueue.queued+' waiting'+(llmQueue.queues.length?' ('+llmQueue.queues.map(q=>q.key+': '+q.depth+', oldest '+Math.round(q.oldestWaitMs/1000)+'s').join(' | ')+')':'')+' — '+llmQueue.totalWaited+' queued / '+llmQueue.totalTimedOut+' timed out since start';
+document.getElementById('endpoints-table').innerHTML=endpoints.map(e=>'<tr><td>'+e.name+'</td><td>'+e.kind+'</td><td>'+e.baseUrl+'</td><td>'+e.defaultModel+'</td><td><span class="badge '+(e.hasKey||e.auth==='none'?'b-green':'b-gray')+'">'+(e.auth==='none'?'none':e.hasKey?'set':'missing')+'</span></td></tr>').join('');
+const inj=await fetch(A+'/memory/injections?limit=20',{headers:authH()}).then(r=>r.json());
+document.getElementById('injections-table').innerHTML=inj.length?inj.map(x=>'<tr><td class="mono">'+x.at.slice(11,19)+'</td><td>'+x.key+'</td><td>'+x.usedTokens+'/'+x.budget+'</td><td>'+(x.injected.map(m=>'<span class="badge '+(m.reason==='pinned'?'b-yellow':'b-blue')+'">'+(m.reason==='pinned'?'pinned':m.score.toFixed(2))+'</span> '+m.content.slice(0,80)).join('<br>')||'<span class="desc">none</span>')+(x.overBudget?'<br><span class="desc">+'+x.overBudget+' over budget</span>':'')+'</td></tr>').join(''):'<tr><td colspan="4" style="color:#8b949e">No prompts built yet</td></tr>';}
 
 // Costs
-async function loadCosts(){const[today,config,history]=await Promise.all([
+async function loadCosts(){const[today,config,history,caps,fc]=await Promise.all([
   fetch(A+'/costs/today',{headers:authH()}).then(r=>r.json()),
   fetch(A+'/costs/config',{headers:authH()}).then(r=>r.json()),
   fetch(A+'/costs/history?days=14',{headers:authH()}).then(r=>r.json()),
+  fetch(A+'/costs/budgets',{headers:authH()}).then(r=>r.json()),
+  fetch(A+'/costs/forecast',{headers:authH()}).then(r=>r.json()),
 ]);
+renderForecast(fc);
+document.getElementById('budget-anomaly').value=config.anomalyMultiplier;
+document.getElementById('budget-anomaly-min').value=config.anomalyMinSpend;
 document.getElementById('cost-today').textContent='$'+today.estimatedCost.toFixed(2);
 document.getElementById('cost-calls').textContent=today.callCount;
 document.getElementById('cost-tokens').textContent=(today.inputTokens+today.outputTokens).toLocaleString();
 document.getElementById('cost-budget').textContent=config.dailyBudget?'$'+config.dailyBudget:'∞';
 document.getElementById('budget-daily').value=config.dailyBudget;
 document.getElementById('budget-weekly').value=config.weeklyBudget;
+document.getElementById('budget-monthly').value=config.monthlyBudget;
 document.getElementById('budget-hardstop').checked=config.hardStop;
+document.getElementById('budget-task').value=config.taskBudget;
+document.getElementById('budget-users').value=JSON.stringify(config.userDailyBudgets||{},null,2);
+document.getElementById('budget-channels').value=JSON.stringify(config.channelDailyBudgets||{},null,2);
+const spentBy=(o,k)=>o&&o[k]?' ($'+o[k].cost.toFixed(2)+' today)':'';
+document.getElementById('budget-status').innerHTML=[...caps.map(c=>c.cap+': $'+c.spent.toFixed(2)+' / $'+c.limit+(c.spent>=c.limit?' ⛔':'')),
+...Object.keys(config.channelDailyBudgets||{}).map(k=>k+spentBy(today.byChannel,k)),
+...Object.keys(config.userDailyBudgets||{}).filter(k=>k!=='*').map(k=>k+spentBy(today.byUser,k))].join(' · ');
 const hd=document.getElementById('cost-history');
 hd.innerHTML='<table><thead><tr><th>Date</th><th>Calls</th><th>Tokens</th><th>Cost</th></tr></thead><tbody>'+
 history.reverse().map(d=>'<tr><td>'+d.date+'</td><td>'+d.callCount+'</td><td>'+(d.inputTokens+d.outputTokens).toLocaleString()+'</td><td>$'+d.estimatedCost.toFixed(4)+'</td></tr>').join('')+'</tbody></table>';}
-async function saveBudget(){await fetch(A+'/costs/config',{method:'POST',headers:authH(),body:JSON.stringify({
+function renderForecast(d){const f=d.forecast;
+document.getElementById('fc-today').textContent='$'+f.projectedToday.toFixed(2);
+document.getElementById('fc-month').textContent='$'+f.projected30Days.toFixed(2);
+document.getElementById('fc-rate').textContent='$'+f.burnRate.toFixed(2);
+document.getElementById('fc-hour').textContent='$'+f.thisHour.toFixed(2);
+document.getElementById('fc-median').textContent='This hour'+(f.hourlyMedian!==null?' (median $'+f.hourlyMedian.toFixed(2)+')':'');
+document.getElementById('fc-alerts').innerHTML=d.alerts.length?d.alerts.slice().reverse().map(a=>'<div><span class="badge '+(a.kind==='anomaly'?'b-red':a.kind==='forecast'?'b-yellow':'b-blue')+'">'+a.kind+'</span> <span class="mono">'+new Date(a.at).toLocaleTimeString()+'</span> '+a.message+'</div>').join(''):'<span class="desc">No spend alerts today</span>';
+document.getElementById('fc-snooze').textContent=d.snoozedUntil?'😴 Chat alerts muted until '+new Date(d.snoozedUntil).toLocaleString():'🔔 Chat alerts on';}
+async function snoozeAlerts(minutes){const r=await fetch(A+'/costs/alerts/snooze',{method:'POST',headers:authH(),body:JSON.stringify({minutes})});const d=await r.json();
+document.getElementById('fc-snooze').textContent=d.snoozedUntil?'😴 Chat alerts muted until '+new Date(d.snoozedUntil).toLocaleString():'🔔 Chat alerts on';showSaved();}
+const BD_DIMS=['source','channel','user','task','trigger','role','skill','provider','model','date'];
+['bd-group1','bd-group2'].forEach((id,n)=>document.getElementById(id).innerHTML+=BD_DIMS.map(d=>'<option'+(n===0&&d==='source'?' selected':'')+'>'+d+'</option>').join(''));
+function bdQuery(){const g=[document.getElementById('bd-group1').value,document.getElementById('bd-group2').value].filter(Boolean);
+return 'groupBy='+g.join(',')+'&from='+document.getElementById('bd-from').value+'&to='+document.getElementById('bd-to').value;}
+async function loadBreakdown(){const r=await fetch(A+'/costs/breakdown?'+bdQuery(),{headers:authH()});const d=await r.json();
+if(!r.ok){document.getElementById('bd-msg').textContent='⚠ '+d.error;return;}document.getElementById('bd-msg').textContent='';
+const dims=d.length?Object.keys(d[0].key):[];
+document.getElementById('cost-breakdown').innerHTML=d.length?'<table><thead><tr>'+dims.map(k=>'<th>'+k+'</th>').join('')+'<th>Calls</th><th>Tokens</th><th>Cost</th></tr></thead><tbody>'+
+d.map(g=>'<tr>'+dims.map(k=>'<td class="mono">'+(g.key[k]||'<span class="desc">untagged</span>')+'</td>').join('')+'<td>'+g.calls+'</td><td>'+(g.inputTokens+g.outputTokens).toLocaleString()+'</td><td>$'+g.cost.toFixed(4)+'</td></tr>').join('')+'</tbody></table>':'<span class="desc">No spend in this range</span>';}
+async function exportBreakdown(){const r=await fetch(A+'/costs/breakdown.csv?'+bdQuery(),{headers:authH()});if(!r.ok){document.getElementById('bd-msg').textContent='⚠ '+(await r.json()).error;return;}
+const url=URL.createObjectURL(await r.blob());const l=document.createElement('a');l.href=url;l.download='costs.csv';l.click();setTimeout(()=>URL.revokeObjectURL(url),1000);}
+const PRICE_FIELDS=['input','output','cacheRead','cacheWrite','batchInput','batchOutput'];
+let prices=[];
+async function loadPricing(){const r=await fetch(A+'/costs/pricing',{headers:authH()});renderPricing(await r.json());}
+function renderPricing(p){prices=p.prices;document.getElementById('pricing-version').textContent=p.version;
+document.getElementById('pricing-table').innerHTML=prices.map((e,i)=>'<tr><td>'+e.provider+'</td><td class="mono">'+e.model+'</td>'+PRICE_FIELDS.map(f=>'<td>'+(e.price[f]!==undefined?'$'+e.price[f]:'<span class="desc">—</span>')+'</td>').join('')+'<td><span class="badge '+(e.source==='override'?'b-yellow':e.source==='endpoint'?'b-blue':'b-gray')+'">'+e.source+'</span></td><td><button class="sm" onclick="editPrice('+i+')">Edit</button>'+(e.source==='override'?' <button class="sm danger" onclick="resetPrice('+i+')">Reset</button>':'')+'</td></tr>').join('');}
+function editPrice(i){const e=prices[i];document.getElementById('price-provider').value=e.provider;document.getElementById('price-model').value=e.model;
+PRICE_FIELDS.forEach(f=>document.getElementById('price-'+f).value=e.price[f]??'');}
+async function postPrice(body){const r=await fetch(A+'/costs/pricing',{method:'POST',headers:authH(),body:JSON.stringify(body)});const d=await r.json();
+if(!r.ok){document.getElementById('pricing-msg').textContent='⚠ '+d.error;return;}document.getElementById('pricing-msg').textContent='';renderPricing(d);showSaved();}
+function savePrice(){const price={};PRICE_FIELDS.forEach(f=>{const v=document.getElementById('price-'+f).value;if(v!=='')price[f]=parseFloat(v);});
+postPrice({provider:document.getElementById('price-provider').value.trim(),model:document.getElementById('price-model').value.trim(),price});}
+function resetPrice(i){postPrice({provider:prices[i].provider,model:prices[i].model,price:null});}
+async function saveBudget(){let users,channels;
+try{users=JSON.parse(document.getElementById('budget-users').value||'{}');channels=JSON.parse(document.getElementById('budget-channels').value||'{}');}catch(e){document.getElementById('budget-msg').textContent='⚠ '+e.message;return;}
+document.getElementById('budget-msg').textContent='';
+await fetch(A+'/costs/config',{method:'POST',headers:authH(),body:JSON.stringify({
   dailyBudget:parseFloat(document.getElementById('budget-daily').value)||0,
   weeklyBudget:parseFloat(document.getElementById('budget-weekly').value)||0,
-  hardStop:document.getElementById('budget-hardstop').checked
+  monthlyBudget:parseFloat(document.getElementById('budget-monthly').value)||0,
+  hardStop:document.getElementById('budget-hardstop').checked,
+  taskBudget:parseFloat(document.getElementById('budget-task').value)||0,
+  anomalyMultiplier:parseFloat(document.getElementById('budget-anomaly').value)||0,
+  anomalyMinSpend:parseFloat(document.getElementById('budget-anomaly-min').value)||0,
+  userDailyBudgets:users,
+  channelDailyBudgets:channels
 })});loadCosts();showSaved();}
 
 // Triggers
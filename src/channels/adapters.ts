@@ -6,7 +6,9 @@ import { v4 as uuid } from 'uuid';
 import { createLogger } from '../utils/logger.js';
 import { channelConfig, agentConfig } from '../config.js';
 import { eventBus } from '../events.js';
-import type { ChannelType, InboundMessage, OutboundMessage } from '../types.js';
+import type {
+  Attachment, ChannelType, InboundMessage, MessageAction, OutboundMessage, SentMessageRef,
+} from '../types.js';
 
 const log = createLogger('Channels');
 
@@ -14,12 +16,31 @@ const log = createLogger('Channels');
 
 export interface ChannelAdapter {
   type: ChannelType;
+  /** Renders OutboundMessage.actions as buttons; other channels drop them */
+  actions?: boolean;
   start(): Promise<void>;
   stop(): Promise<void>;
-  send(message: OutboundMessage): Promise<void>;
+  /** Resolves to the channel's id for the last message sent, when it has one; throws when undelivered */
+  send(message: OutboundMessage): Promise<string | void>;
+  /** Replace a sent message's text and buttons */
+  editMessage?(userId: string, messageId: string, message: OutboundMessage): Promise<void>;
 }
 
+/** A button click, as handed to the action handler registered for its prefix */
+export interface MessageActionEvent {
+  channel: ChannelType;
+  userId: string;
+  userName: string;
+  actionId: string;
+  /** The message the button was on */
+  messageId: string;
+}
+
+/** Handles a click; resolves to a short reply shown only to the clicker */
+export type MessageActionHandler = (event: MessageActionEvent) => Promise<string>;
+
 const adapters = new Map<ChannelType, ChannelAdapter>();
+const actionHandlers = new Map<string, MessageActionHandler>();
 
 export function registerChannel(adapter: ChannelAdapter): void {
   adapters.set(adapter.type, adapter);
@@ -33,14 +54,47 @@ export function getAllChannels(): ChannelAdapter[] {
   return Array.from(adapters.values());
 }
 
-export async function sendMessage(message: OutboundMessage): Promise<void> {
+/** Resolves to where the message went, or undefined when it could not be delivered */
+export async function sendMessage(message: OutboundMessage): Promise<SentMessageRef | undefined> {
   const adapter = adapters.get(message.channel);
   if (!adapter) {
     log.error(`No adapter for channel: ${message.channel}`);
-    return;
+    return undefined;
+  }
+  let messageId: string | void;
+  try {
+    messageId = await adapter.send(message);
+  } catch (err) {
+    log.error(`${message.channel} send failed: ${err}`);
+    return undefined;
   }
-  await adapter.send(message);
   eventBus.emit({ type: 'message_sent', message });
+  return { channel: message.channel, userId: message.userId, messageId: messageId || undefined };
+}
+
+/** Edit a sent message in place; a no-op on channels that can't */
+export async function editMessage(ref: SentMessageRef, text: string, actions?: MessageAction[]): Promise<void> {
+  const adapter = adapters.get(ref.channel);
+  if (!adapter?.editMessage || !ref.messageId) return;
+  await adapter.editMessage(ref.userId, ref.messageId, { channel: ref.channel, userId: ref.userId, text, actions });
+}
+
+// ---- Message actions (buttons) -------------------------------
+
+/** Route clicks on buttons whose id starts with `<prefix>:` */
+export function registerActionHandler(prefix: string, handler: MessageActionHandler): void {
+  actionHandlers.set(prefix, handler);
+}
+
+async function dispatchAction(event: MessageActionEvent): Promise<string> {
+  const handler = actionHandlers.get(event.actionId.split(':')[0]);
+  if (!handler) return 'This button is no longer active.';
+  try {
+    return await handler(event);
+  } catch (err: any) {
+    log.error(`Action ${event.actionId} failed: ${err?.message ?? err}`);
+    return `⚠️ ${err?.message ?? 'That did not work'}`;
+  }
 }
 
 // ---- Access control ------------------------------------------
@@ -60,9 +114,72 @@ export function createTelegramAdapter(): ChannelAdapter | null {
   }
 
   let bot: any = null;
+  // Live messages for streamed replies: stream id → sent message
+  const streams = new Map<string, { messageId: number; text: string }>();
+
+  async function sendChunks(userId: string, text: string, actions?: MessageAction[]): Promise<string | undefined> {
+    // Split long messages (Telegram limit: 4096 chars); buttons go on the last one
+    const chunks = splitText(text, 4000);
+    let sent: any;
+    for (const [i, chunk] of chunks.entries()) {
+      const extra = i === chunks.length - 1 ? inlineKeyboard(actions) : {};
+      sent = await bot.telegram.sendMessage(userId, chunk, { parse_mode: 'Markdown', ...extra })
+        .catch(() => bot.telegram.sendMessage(userId, chunk, extra)); // fallback without markdown
+    }
+    return sent ? String(sent.message_id) : undefined;
+  }
+
+  /** Images as photos, everything else as documents; a failed upload doesn't fail the message */
+  async function sendAttachments(userId: string, attachments?: Attachment[]): Promise<void> {
+    for (const a of attachments ?? []) {
+      const file = a.path ? { source: a.path, filename: a.name } : a.url;
+      if (!file) continue;
+      try {
+        if (a.type === 'image' && a.mimeType !== 'image/svg+xml') await bot.telegram.sendPhoto(userId, file, { caption: a.name });
+        else await bot.telegram.sendDocument(userId, file);
+      } catch (err: any) {
+        log.warn(`Telegram: attachment "${a.name ?? a.path ?? a.url}" not sent: ${err.message}`);
+      }
+    }
+  }
+
+  async function sendStreamed(message: OutboundMessage, stream: { id: string; done: boolean }): Promise<string | undefined> {
+    const live = streams.get(stream.id);
+
+    if (!stream.done) {
+      // Partials go out as plain text — half-written Markdown rarely parses
+      const text = message.text.slice(0, 4000) || '…';
+      if (!live) {
+        const sent = await bot.telegram.sendMessage(message.userId, text);
+        streams.set(stream.id, { messageId: sent.message_id, text });
+      } else if (live.text !== text) {
+        await bot.telegram.editMessageText(message.userId, live.messageId, undefined, text);
+        live.text = text;
+      }
+      return undefined;
+    }
+
+    streams.delete(stream.id);
+    if (!live) {
+      return sendChunks(message.userId, message.text);
+    }
+
+    // Finalize the live message, overflow goes out as follow-ups
+    const [first, ...rest] = splitText(message.text, 4000);
+    if (first !== live.text) {
+      await bot.telegram.editMessageText(message.userId, live.messageId, undefined, first, { parse_mode: 'Markdown' })
+        .catch(() => bot.telegram.editMessageText(message.userId, live.messageId, undefined, first));
+    }
+    let lastId = String(live.messageId);
+    for (const chunk of rest) {
+      lastId = await sendChunks(message.userId, chunk) ?? lastId;
+    }
+    return lastId;
+  }
 
   return {
     type: 'telegram',
+    actions: true,
 
     async start() {
       const { Telegraf } = await import('telegraf');
@@ -109,6 +226,24 @@ export function createTelegramAdapter(): ChannelAdapter | null {
         eventBus.emit({ type: 'message_received', message });
       });
 
+      // Inline keyboard clicks
+      bot.on('callback_query', async (ctx: any) => {
+        const userId = String(ctx.from.id);
+        const data = ctx.callbackQuery?.data;
+        if (!isUserAllowed(userId) || !data) {
+          await ctx.answerCbQuery('Not allowed').catch(() => {});
+          return;
+        }
+        const reply = await dispatchAction({
+          channel: 'telegram',
+          userId,
+          userName: ctx.from.first_name || ctx.from.username || 'Unknown',
+          actionId: data,
+          messageId: String(ctx.callbackQuery.message?.message_id ?? ''),
+        });
+        await ctx.answerCbQuery(reply.slice(0, 200)).catch(() => {});
+      });
+
       await bot.launch();
       log.info('Telegram adapter started');
     },
@@ -118,21 +253,38 @@ export function createTelegramAdapter(): ChannelAdapter | null {
     },
 
     async send(message: OutboundMessage) {
+      if (!bot) throw new Error('Telegram bot not started');
+      const sent = message.stream
+        ? await sendStreamed(message, message.stream)
+        : await sendChunks(message.userId, message.text, message.actions);
+      if (!message.stream || message.stream.done) await sendAttachments(message.userId, message.attachments);
+      return sent;
+    },
+
+    async editMessage(userId: string, messageId: string, message: OutboundMessage) {
       if (!bot) return;
+      // Without reply_markup the old keyboard is removed
+      const text = message.text.slice(0, 4000);
+      const extra = inlineKeyboard(message.actions);
       try {
-        // Split long messages (Telegram limit: 4096 chars)
-        const chunks = splitText(message.text, 4000);
-        for (const chunk of chunks) {
-          await bot.telegram.sendMessage(message.userId, chunk, { parse_mode: 'Markdown' })
-            .catch(() => bot.telegram.sendMessage(message.userId, chunk)); // fallback without markdown
-        }
+        await bot.telegram.editMessageText(userId, Number(messageId), undefined, text, { parse_mode: 'Markdown', ...extra })
+          .catch(() => bot.telegram.editMessageText(userId, Number(messageId), undefined, text, extra));
       } catch (err) {
-        log.error(`Telegram send failed: ${err}`);
+        log.error(`Telegram edit failed: ${err}`);
       }
     },
   };
 }
 
+function inlineKeyboard(actions?: MessageAction[]): Record<string, unknown> {
+  if (!actions?.length) return {};
+  return {
+    reply_markup: {
+      inline_keyboard: [actions.map(a => ({ text: a.label, callback_data: a.id }))],
+    },
+  };
+}
+
 // ---- Discord Adapter -----------------------------------------
 
 export function createDiscordAdapter(): ChannelAdapter | null {
@@ -143,9 +295,58 @@ export function createDiscordAdapter(): ChannelAdapter | null {
   }
 
   let client: any = null;
+  // Live messages for streamed replies: stream id → sent message
+  const streams = new Map<string, { msg: any; text: string }>();
+
+  async function sendStreamed(dm: any, message: OutboundMessage, stream: { id: string; done: boolean }): Promise<string | undefined> {
+    const live = streams.get(stream.id);
+
+    if (!stream.done) {
+      const text = message.text.slice(0, 1900) || '…';
+      if (!live) {
+        streams.set(stream.id, { msg: await dm.send(text), text });
+      } else if (live.text !== text) {
+        await live.msg.edit(text);
+        live.text = text;
+      }
+      return undefined;
+    }
+
+    streams.delete(stream.id);
+    const chunks = splitText(message.text, 1900);
+    let rest = chunks;
+    let last = live?.msg;
+    if (live) {
+      if (chunks[0] !== live.text) await live.msg.edit(chunks[0]);
+      rest = chunks.slice(1);
+    }
+    for (const chunk of rest) {
+      last = await dm.send(chunk);
+    }
+    return last?.id;
+  }
+
+  async function dmChannel(userId: string): Promise<any> {
+    const user = await client.users.fetch(userId);
+    return user.createDM();
+  }
+
+  /** Up to 10 files per message; a failed upload doesn't fail the message */
+  async function sendAttachments(dm: any, attachments?: Attachment[]): Promise<void> {
+    const files = (attachments ?? [])
+      .filter(a => a.path || a.url)
+      .map(a => ({ attachment: a.path ?? a.url, name: a.name }));
+    for (let i = 0; i < files.length; i += 10) {
+      const batch = files.slice(i, i + 10);
+      await dm.send({ files: batch }).catch((err: any) => {
+        log.warn(`Discord: ${batch.length} attachment(s) not sent: ${err.message}`);
+      });
+    }
+  }
 
   return {
     type: 'discord',
+    actions: true,
 
     async start() {
       const { Client, GatewayIntentBits } = await import('discord.js');
@@ -184,6 +385,24 @@ export function createDiscordAdapter(): ChannelAdapter | null {
         eventBus.emit({ type: 'message_received', message });
       });
 
+      // Button clicks
+      client.on('interactionCreate', async (interaction: any) => {
+        if (!interaction.isButton()) return;
+        const userId = interaction.user.id;
+        if (!isUserAllowed(userId)) {
+          await interaction.reply({ content: 'Not allowed', ephemeral: true }).catch(() => {});
+          return;
+        }
+        const reply = await dispatchAction({
+          channel: 'discord',
+          userId,
+          userName: interaction.user.displayName || interaction.user.username,
+          actionId: interaction.customId,
+          messageId: interaction.message.id,
+        });
+        await interaction.reply({ content: reply.slice(0, 1900), ephemeral: true }).catch(() => {});
+      });
+
       await client.login(token);
       log.info('Discord adapter started');
     },
@@ -193,26 +412,59 @@ export function createDiscordAdapter(): ChannelAdapter | null {
     },
 
     async send(message: OutboundMessage) {
+      if (!client) throw new Error('Discord client not started');
+      const dm = await dmChannel(message.userId);
+      if (message.stream) {
+        const id = await sendStreamed(dm, message, message.stream);
+        if (message.stream.done) await sendAttachments(dm, message.attachments);
+        return id;
+      }
+      // Buttons go on the last chunk
+      const chunks = splitText(message.text, 1900);
+      let sent: any;
+      for (const [i, chunk] of chunks.entries()) {
+        sent = await dm.send(i === chunks.length - 1
+          ? { content: chunk, components: buttonRows(message.actions) }
+          : chunk);
+      }
+      await sendAttachments(dm, message.attachments);
+      return sent?.id;
+    },
+
+    async editMessage(userId: string, messageId: string, message: OutboundMessage) {
       if (!client) return;
       try {
-        const user = await client.users.fetch(message.userId);
-        const dm = await user.createDM();
-        const chunks = splitText(message.text, 1900);
-        for (const chunk of chunks) {
-          await dm.send(chunk);
-        }
+        const dm = await dmChannel(userId);
+        const msg = await dm.messages.fetch(messageId);
+        await msg.edit({ content: message.text.slice(0, 1900), components: buttonRows(message.actions) });
       } catch (err) {
-        log.error(`Discord send failed: ${err}`);
+        log.error(`Discord edit failed: ${err}`);
       }
     },
   };
 }
 
+/** Raw action-row components (Primary 1, Secondary 2, Success 3, Danger 4) */
+function buttonRows(actions?: MessageAction[]): unknown[] {
+  if (!actions?.length) return [];
+  const styles = { primary: 1, secondary: 2, success: 3, danger: 4 };
+  return [{
+    type: 1,
+    components: actions.slice(0, 5).map(a => ({
+      type: 2, style: styles[a.style ?? 'secondary'], label: a.label, custom_id: a.id,
+    })),
+  }];
+}
+
 // ---- CLI / Local Adapter (for testing) -----------------------
 
 export function createCLIAdapter(
   onMessage: (text: string) => void,
+  onStream?: (chunk: string, state: 'start' | 'delta' | 'end') => void,
 ): ChannelAdapter {
+  // Text already printed per stream id, so each send only prints the new tail
+  const printed = new Map<string, string>();
+
   return {
     type: 'cli',
     async start() {
@@ -220,7 +472,31 @@ export function createCLIAdapter(
     },
     async stop() {},
     async send(message: OutboundMessage) {
-      onMessage(message.text);
+      const stream = message.stream;
+      // Files are local — print where they are
+      const files = (message.attachments ?? [])
+        .map(a => `\n📎 ${a.name ?? 'attachment'} — ${a.path ?? a.url}`)
+        .join('');
+      if (!stream || !onStream) {
+        onMessage(message.text + files);
+        return;
+      }
+
+      const live = printed.get(stream.id);
+      if (stream.done) printed.delete(stream.id);
+      else printed.set(stream.id, message.text);
+
+      if (live === undefined) {
+        if (stream.done) onMessage(message.text + files);
+        else onStream(message.text, 'start');
+        return;
+      }
+
+      // A new tool-loop iteration restarts the text; put it on its own line
+      const chunk = message.text.startsWith(live)
+        ? message.text.slice(live.length)
+        : `\n${message.text}`;
+      onStream(stream.done ? chunk + files : chunk, stream.done ? 'end' : 'delta');
     },
   };
 }
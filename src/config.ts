@@ -41,6 +41,26 @@ export const llmConfig = {
   openaiModel: env('OPENAI_MODEL', 'gpt-4o'),
   ollamaBaseUrl: env('OLLAMA_BASE_URL', 'http://localhost:11434'),
   ollamaModel: env('OLLAMA_MODEL', 'llama3.1'),
+  geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+  geminiModel: env('GEMINI_MODEL', 'gemini-2.5-flash'),
+  mistralApiKey: process.env.MISTRAL_API_KEY ?? '',
+  mistralModel: env('MISTRAL_MODEL', 'mistral-small-latest'),
+  /** Overrides the provider's default model (needed for providers.json endpoints) */
+  model: process.env.LLM_MODEL ?? '',
+};
+
+export const memoryConfig = {
+  /** Registry endpoint used for embeddings; 'none' disables semantic search */
+  embeddingProvider: env('EMBEDDING_PROVIDER', 'none'),
+  embeddingModel: env('EMBEDDING_MODEL', 'nomic-embed-text'),
+};
+
+const BUILTIN_MODELS: Record<string, string> = {
+  anthropic: llmConfig.anthropicModel,
+  openai: llmConfig.openaiModel,
+  ollama: llmConfig.ollamaModel,
+  gemini: llmConfig.geminiModel,
+  mistral: llmConfig.mistralModel,
 };
 
 export const channelConfig = {
@@ -88,11 +108,8 @@ export const securityConfig = {
 export const agentConfig: AgentConfig = {
   name: env('AGENT_NAME', 'Agent'),
   provider: llmConfig.provider,
-  model: llmConfig.provider === 'anthropic'
-    ? llmConfig.anthropicModel
-    : llmConfig.provider === 'openai'
-      ? llmConfig.openaiModel
-      : llmConfig.ollamaModel,
+  // Empty for providers.json endpoints until the provider registry fills it in
+  model: llmConfig.model || BUILTIN_MODELS[llmConfig.provider] || '',
   autonomyLevel: env('AGENT_AUTONOMY_LEVEL', 'medium') as AutonomyLevel,
   maxToolCalls: envInt('AGENT_MAX_TOOL_CALLS', 20),
   workspace: path.resolve(env('AGENT_WORKSPACE', './workspace')),
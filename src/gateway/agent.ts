@@ -4,53 +4,99 @@
 // trigger handling, and chat commands.
 // ============================================================
 
-import { callLLM } from '../llm/provider.js';
+import { v4 as uuid } from 'uuid';
+import { callLLM, streamLLM, CACHE_BREAKPOINT, type LLMCallOptions } from '../llm/provider.js';
 import { getToolDefinitions, executeTool } from '../tools/registry.js';
-import { loadThread, saveThread, searchMemory, getAllMemories } from '../memory/store.js';
-import { getSkillsContext } from '../skills/loader.js';
+import { loadThread, saveThread } from '../memory/store.js';
+import {
+  buildMemoryQuery, selectMemoriesForPrompt, getLastInjection, formatInjectionForChat,
+} from '../memory/context.js';
+import { getSkillsContext, matchSkill } from '../skills/loader.js';
 import { agentConfig } from '../config.js';
 import { getSettings } from '../security/settings.js';
-import { trackUsage, canMakeCall, getTodayUsage } from '../tasks/costs.js';
 import {
-  resolveApproval, getPendingApprovals, formatApprovalForChat,
+  trackUsage, canMakeCall, checkBudget, assertBudget, getTodayUsage, getBudgetStatus, getSpendForecast,
+  type BudgetScope, type UsageTags,
+} from '../tasks/costs.js';
+import { getCostAlertSnooze, snoozeCostAlerts, formatMinutes } from '../tasks/cost-alerts.js';
+import {
+  resolveApproval, getPendingApprovals, getDecidableApprovals, formatApprovalForChat,
+  registerApprovalResumer, approvalCount, ApprovalError,
 } from '../tasks/approvals.js';
+import { approverId, addAutoApproveRule, allowsAutoApprove } from '../tasks/approval-policy.js';
+import { evaluateToolCall, type ToolCallContext } from '../security/policy.js';
 import { shouldOrchestrate, orchestrate } from '../orchestrator/planner.js';
-import { createTask, getAllTasks, getTask } from '../tasks/queue.js';
+import { loadPlan } from '../orchestrator/checkpoint.js';
+import { getContextWindow, getContextWindowFor, getMainRoute, resolveRoute } from '../orchestrator/router.js';
+import { describeFit, fitToContext, messageBudget } from './context.js';
+import {
+  createTask, getAllTasks, getTask, updateTaskStatus, addTaskStep, updateTaskStep, addUsage, throwIfTaskStopped,
+} from '../tasks/queue.js';
+import { taskSignal, TaskStoppedError } from '../tasks/cancellation.js';
+import { getChannel, sendMessage } from '../channels/adapters.js';
+import { eventBus } from '../events.js';
 import { createLogger } from '../utils/logger.js';
-import type { InboundMessage, LLMMessage, ToolCall, TriggerDefinition } from '../types.js';
+import type {
+  ApprovalContinuation, ApprovalRequest, ConversationThread, InboundMessage, LLMMessage, LLMResponse,
+  Task, ThreadSummary, ToolCall, ToolDefinition, ToolResult, TriggerDefinition,
+} from '../types.js';
 
 const log = createLogger('Agent');
 
 // ---- Chat command handler (before LLM) -----------------------
 
-async function handleChatCommand(text: string, userId: string): Promise<string | null> {
+async function handleChatCommand(text: string, channel: string, userId: string): Promise<string | null> {
   const trimmed = text.trim().toLowerCase();
 
-  // /approve <id>
-  const approveMatch = trimmed.match(/^\/approve\s+(\S+)/);
+  // /approve <id> [always]
+  const approveMatch = trimmed.match(/^\/approve\s+(\S+)(\s+always)?/);
   if (approveMatch) {
     const prefix = approveMatch[1];
-    const pending = getPendingApprovals(userId);
-    const match = pending.find(a => a.id.toLowerCase().startsWith(prefix));
+    const approver = approverId(channel, userId);
+    const match = getDecidableApprovals(approver).find(a => a.id.toLowerCase().startsWith(prefix));
     if (!match) return `No pending approval matching "${prefix}". Use /pending to list.`;
-    await resolveApproval(match.id, 'approved', userId);
-    return `✅ Approved: ${match.proposedAction.tool} — the agent will proceed.`;
+    try {
+      await resolveApproval(match.id, 'approved', approver);
+    } catch (err) {
+      if (err instanceof ApprovalError) return `⚠️ ${err.message}`;
+      throw err;
+    }
+
+    let always = '';
+    if (approveMatch[2]) {
+      if (!allowsAutoApprove(match)) {
+        always = match.riskLevel === 'critical'
+          ? '\n(Critical actions always ask — no auto-approve rule added.)'
+          : `\n(Actions that need ${match.quorum} approvers always ask — no auto-approve rule added.)`;
+      } else if (match.status === 'approved') {
+        always = `\n🔁 Auto-approve rule "${(await addAutoApproveRule(match, approver)).id}" added for this exact action.`;
+      }
+    }
+    if (match.status === 'pending') {
+      return `👍 Vote recorded: ${match.proposedAction.tool} — ${approvalCount(match)}/${match.quorum} approvers so far.${always}`;
+    }
+    return `✅ Approved: ${match.proposedAction.tool} — the agent will proceed.${always}`;
   }
 
   // /reject <id>
   const rejectMatch = trimmed.match(/^\/reject\s+(\S+)/);
   if (rejectMatch) {
     const prefix = rejectMatch[1];
-    const pending = getPendingApprovals(userId);
-    const match = pending.find(a => a.id.toLowerCase().startsWith(prefix));
+    const approver = approverId(channel, userId);
+    const match = getDecidableApprovals(approver).find(a => a.id.toLowerCase().startsWith(prefix));
     if (!match) return `No pending approval matching "${prefix}".`;
-    await resolveApproval(match.id, 'rejected', userId);
+    try {
+      await resolveApproval(match.id, 'rejected', approver);
+    } catch (err) {
+      if (err instanceof ApprovalError) return `⚠️ ${err.message}`;
+      throw err;
+    }
     return `❌ Rejected: ${match.proposedAction.tool} — the agent will find an alternative.`;
   }
 
-  // /pending — list pending approvals
+  // /pending — approvals this user can decide
   if (trimmed === '/pending') {
-    const pending = getPendingApprovals(userId);
+    const pending = getDecidableApprovals(approverId(channel, userId));
     if (pending.length === 0) return 'No pending approvals.';
     return pending.map(a => formatApprovalForChat(a)).join('\n\n---\n\n');
   }
@@ -64,10 +110,42 @@ async function handleChatCommand(text: string, userId: string): Promise<string |
     ).join('\n');
   }
 
+  // /cost snooze [30m|2h|1d] — mute spend alerts; /cost unsnooze
+  const snoozeMatch = trimmed.match(/^\/costs? (un)?snooze(?:\s+(\d+)\s*([mhd])?)?$/);
+  if (snoozeMatch) {
+    if (snoozeMatch[1]) {
+      await snoozeCostAlerts(0);
+      return '🔔 Spend alerts are on again.';
+    }
+    const amount = snoozeMatch[2] ? parseInt(snoozeMatch[2], 10) : 1;
+    const minutes = amount * ({ m: 1, h: 60, d: 24 * 60 }[snoozeMatch[3] as 'm' | 'h' | 'd'] ?? 60);
+    const until = await snoozeCostAlerts(minutes);
+    return until
+      ? `😴 Spend alerts muted for ${formatMinutes(minutes)} (until ${until.toLocaleString()}). \`/cost unsnooze\` turns them back on.`
+      : '🔔 Spend alerts are on.';
+  }
+
   // /cost — today's spending
   if (trimmed === '/cost' || trimmed === '/costs') {
     const usage = getTodayUsage();
-    return `Today: ${usage.callCount} calls, ${usage.inputTokens + usage.outputTokens} tokens, $${usage.estimatedCost.toFixed(4)}`;
+    const caps = getBudgetStatus().map(c => `${c.cap}: $${c.spent.toFixed(2)} / $${c.limit}`);
+    const block = checkBudget({ channel, userId });
+    const forecast = getSpendForecast();
+    const snoozed = getCostAlertSnooze();
+    return [
+      `Today: ${usage.callCount} calls, ${usage.inputTokens + usage.outputTokens} tokens, $${usage.estimatedCost.toFixed(4)}`,
+      `Forecast: ~$${forecast.projectedToday.toFixed(2)} by end of day, up to ~$${forecast.projected30Days.toFixed(2)} per rolling 30 days ($${forecast.burnRate.toFixed(2)}/hour)`,
+      caps.length ? `Budgets — ${caps.join(' | ')}` : '',
+      block ? `⚠️ ${block.message}` : '',
+      snoozed ? `😴 Spend alerts muted until ${snoozed.toLocaleString()}` : '',
+    ].filter(Boolean).join('\n');
+  }
+
+  // /why — which memories went into the last prompt, and why
+  if (trimmed === '/why') {
+    const injection = getLastInjection(`${channel}/${userId}`);
+    if (!injection) return 'No memory selection recorded for this conversation yet.';
+    return formatInjectionForChat(injection);
   }
 
   return null; // not a command
@@ -75,11 +153,22 @@ async function handleChatCommand(text: string, userId: string): Promise<string |
 
 // ---- System Prompt Builder -----------------------------------
 
-async function buildSystemPrompt(userId: string): Promise<string> {
-  const memories = await getAllMemories();
-  const memoryContext = memories.length > 0
-    ? memories.slice(0, 20).map(m => `- [${m.type}] ${m.content}`).join('\n')
-    : 'No memories stored yet.';
+/**
+ * Build the system prompt. Memories are retrieved for `memoryQuery`
+ * (the message being answered) and logged under `memoryKey` for /why.
+ * The stable parts come first, each closed by a cache breakpoint:
+ * the header (changes only with settings), then the skills. The
+ * per-call parts — time, spend, summary, memories — go last so they
+ * never invalidate the cached prefix.
+ */
+async function buildSystemPrompt(
+  userId: string,
+  memoryKey: string,
+  memoryQuery: string,
+  threadSummary?: ThreadSummary,
+): Promise<string> {
+  const { text: memoryContext } = await selectMemoriesForPrompt(memoryKey, memoryQuery);
+  const summaryContext = threadSummary ? formatThreadSummary(threadSummary) : '';
 
   const skillsContext = getSkillsContext();
   const settings = getSettings();
@@ -91,11 +180,10 @@ async function buildSystemPrompt(userId: string): Promise<string> {
     high: 'You have full autonomy to execute tasks. Only ask for confirmation for irreversible actions with major consequences.',
   };
 
-  return `You are ${settings.agentName || agentConfig.name}, a personal AI assistant running locally on the user's machine.
+  const header = `You are ${settings.agentName || agentConfig.name}, a personal AI assistant running locally on the user's machine.
 You are autonomous, proactive, and capable of executing real tasks — not just chatting.
 
-## Current Context
-- Date/Time: ${new Date().toISOString()}
+## Setup
 - Workspace: ${agentConfig.workspace}
 - Autonomy: ${settings.autonomyLevel}
 - ${autonomyInstructions[settings.autonomyLevel] || autonomyInstructions.medium}
@@ -130,15 +218,8 @@ When approval is needed, the user can reply with:
 - \`/reject <id>\` — cancel it
 - \`/pending\` — list all pending approvals
 - \`/tasks\` — list all tasks
-- \`/cost\` — today's spending
-
-## Cost Tracking
-Today: ${usage.callCount} calls, $${usage.estimatedCost.toFixed(4)} spent
-
-## Long-term Memory
-${memoryContext}
-
-${skillsContext}
+- \`/cost\` — today's spending and forecast (\`/cost snooze 2h\` mutes spend alerts)
+- \`/why\` — which memories were used for the last reply
 
 ## Guidelines
 1. Be proactive — if you notice something useful, do it.
@@ -147,10 +228,110 @@ ${skillsContext}
 4. For complex multi-step work, use create_task to leverage multi-agent orchestration.
 5. If a tool call fails, try an alternative approach before giving up.
 6. Keep responses concise but informative.
-7. Monitor costs — mention if budget is running low.
+7. Monitor costs — mention if budget is running low.`;
+
+  const current = `## Current Context
+- Date/Time: ${new Date().toISOString()}
+
+## Cost Tracking
+Today: ${usage.callCount} calls, $${usage.estimatedCost.toFixed(4)} spent
+
+${summaryContext}## Long-term Memory
+Relevant to the current message (use \`recall\` to search for more):
+${memoryContext}`;
+
+  return [header, skillsContext, current].filter(Boolean).join(CACHE_BREAKPOINT);
+}
+
+/** Earlier, compacted part of this conversation */
+function formatThreadSummary(s: ThreadSummary): string {
+  const list = (title: string, items: string[]) =>
+    items.length ? `\n${title}:\n${items.map(i => `- ${i}`).join('\n')}` : '';
+  return `## Earlier in This Conversation
+${s.summary}${list('Decisions', s.decisions)}${list('Open questions', s.openQuestions)}
+
 `;
 }
 
+// ---- Streaming -----------------------------------------------
+
+/** Minimum gap between partial sends, keeps Telegram/Discord edits under rate limits */
+const STREAM_FLUSH_MS = 750;
+
+/**
+ * Run one streamed LLM call for a chat turn. Text deltas go to the
+ * channel as edits of a live message (keyed by the inbound message id)
+ * and to the event bus for /ws clients. The caller sends the final
+ * reply with `stream.done` set, which finalizes the same message.
+ */
+async function streamReply(
+  message: InboundMessage,
+  messages: LLMMessage[],
+  tools: ToolDefinition[],
+  systemPrompt: string,
+  fitMessages?: LLMCallOptions['fitMessages'],
+): Promise<LLMResponse> {
+  const { channel, userId } = message;
+  const adapter = getChannel(channel);
+  const streamId = message.id;
+
+  let text = '';
+  let sentText = '';
+  let lastFlush = 0;
+  let response: LLMResponse | undefined;
+
+  const flush = async () => {
+    if (!adapter || !text || text === sentText) return;
+    lastFlush = Date.now();
+    sentText = text;
+    try {
+      await adapter.send({
+        channel, userId, text,
+        replyToMessageId: message.channelMessageId,
+        stream: { id: streamId, done: false },
+      });
+    } catch (err) {
+      log.debug(`Partial send failed: ${err}`);
+    }
+  };
+
+  for await (const chunk of streamLLM(messages, tools, systemPrompt, { ...mainCallOptions(), fitMessages })) {
+    if (chunk.type === 'text') {
+      text += chunk.text;
+      eventBus.emit({ type: 'message_delta', channel, userId, streamId, delta: chunk.text });
+      if (Date.now() - lastFlush >= STREAM_FLUSH_MS) await flush();
+    } else if (chunk.type === 'tool_call') {
+      eventBus.emit({
+        type: 'tool_call_delta', streamId, index: chunk.index,
+        toolCallId: chunk.id, tool: chunk.name, argsDelta: chunk.argsDelta,
+      });
+    } else {
+      response = chunk.response;
+    }
+  }
+
+  if (!response) throw new Error('LLM stream ended without a response');
+
+  // Text ahead of tool calls is complete now; the final answer is sent by the caller
+  if (response.toolCalls?.length) await flush();
+  return response;
+}
+
+// ---- Main model: fallbacks + cost attribution ----------------
+
+/** Call options for the main chat model, including its fallback chain */
+function mainCallOptions(): LLMCallOptions {
+  const route = getMainRoute();
+  return { provider: route.provider, model: route.model, fallbacks: route.fallbacks };
+}
+
+/** Track usage against whichever model answered (a fallback may have) */
+async function trackResponse(response: LLMResponse, tags: UsageTags): Promise<void> {
+  if (!response.usage) return;
+  const route = resolveRoute(getMainRoute(), response.provider, response.model);
+  await trackUsage(route.provider, route.model, response.usage, tags);
+}
+
 // ---- Main Agent Loop -----------------------------------------
 
 export async function processMessage(message: InboundMessage): Promise<string> {
@@ -158,56 +339,99 @@ export async function processMessage(message: InboundMessage): Promise<string> {
   log.info(`Processing: [${channel}/${userId}] ${text.slice(0, 100)}`);
 
   // Handle chat commands first
-  const cmdResult = await handleChatCommand(text, userId);
+  const cmdResult = await handleChatCommand(text, channel, userId);
   if (cmdResult !== null) return cmdResult;
 
+  // A paused conversation only takes /approve, /reject and other commands
+  const threadKey = `${channel}/${userId}`;
+  const waitingOn = getPendingApprovals(userId).find(a => a.threadId === threadKey);
+  if (waitingOn) {
+    const short = waitingOn.id.slice(0, 8);
+    return `⏸️ I'm waiting for your decision on \`${waitingOn.proposedAction.tool}\` before I continue. Reply \`/approve ${short}\` or \`/reject ${short}\` (or decide from the dashboard).`;
+  }
+
   // Budget check
-  if (!canMakeCall()) {
-    return '⚠️ Daily LLM budget exceeded. Use `/cost` to check spending or ask the admin to adjust the budget.';
+  const block = checkBudget({ channel, userId });
+  if (block) {
+    return `⚠️ ${block.message} Use \`/cost\` to check spending or ask the admin to adjust the budget.`;
   }
 
   // Load conversation thread
   const thread = await loadThread(channel, userId);
-  const systemPrompt = await buildSystemPrompt(userId);
+  const systemPrompt = await chatSystemPrompt(thread, text);
+  const turnStart = thread.messages.length;
+  thread.messages.push({ role: 'user', content: text });
 
-  if (thread.summary) {
-    thread.messages.unshift({
-      role: 'system',
-      content: `[Previous conversation summary: ${thread.summary}]`,
-    });
-  }
+  return runChatTurn({ message, thread, systemPrompt, turnStart, iteration: 0 });
+}
 
-  thread.messages.push({ role: 'user', content: text });
+/** A chat turn in progress — shared by the loop and its approval continuations */
+interface ChatTurn {
+  message: InboundMessage;
+  thread: ConversationThread;
+  systemPrompt: string;
+  /** Index of this turn's user message in thread.messages */
+  turnStart: number;
+  /** Loop iterations used so far */
+  iteration: number;
+}
 
+async function chatSystemPrompt(thread: ConversationThread, text: string): Promise<string> {
+  return buildSystemPrompt(
+    thread.userId,
+    `${thread.channel}/${thread.userId}`,
+    buildMemoryQuery(text, thread.messages),
+    thread.summaryDetails ?? (thread.summary
+      ? { summary: thread.summary, decisions: [], openQuestions: [], compactions: 1, updatedAt: thread.updatedAt }
+      : undefined),
+  );
+}
+
+/** LLM → tools → LLM until the model answers without tool calls */
+async function runChatTurn(turn: ChatTurn): Promise<string> {
+  const { message, thread, systemPrompt } = turn;
   const tools = getToolDefinitions();
   const settings = getSettings();
   const maxIterations = settings.maxToolCallsPerMessage || agentConfig.maxToolCalls;
-  let iterations = 0;
+  const route = getMainRoute();
+  const budget = messageBudget(getContextWindow(route), route.maxTokens, systemPrompt, tools);
+  let notedDroppedTurns = 0;
 
-  while (iterations < maxIterations) {
-    iterations++;
+  while (turn.iteration < maxIterations) {
+    turn.iteration++;
 
-    if (!canMakeCall()) {
-      const budgetMsg = 'I\'ve hit the daily budget limit. Here\'s what I have so far.';
+    const block = checkBudget({ channel: message.channel, userId: message.userId });
+    if (block) {
+      const budgetMsg = `⚠️ ${block.message} Stopping here — this is as far as I got.`;
       thread.messages.push({ role: 'assistant', content: budgetMsg });
       await saveThread(thread);
       return budgetMsg;
     }
 
-    const response = await callLLM(
-      thread.messages.filter(m => m.role !== 'system'),
-      tools,
-      systemPrompt,
-    );
+    // Transcript notes are system messages, so they never reach the model
+    const fit = fitToContext(thread.messages.filter(m => m.role !== 'system'), budget);
+    if (fit.elidedResults > 0 || fit.truncatedResults > 0 || fit.droppedTurns > notedDroppedTurns) {
+      const note = describeFit(fit)!;
+      log.info(`${message.channel}/${message.userId}: ${note}`);
+      thread.messages.push({ role: 'system', content: note });
+      notedDroppedTurns = fit.droppedTurns;
+    }
+
+    // A fallback with a smaller window gets the history re-fitted to it
+    const fitFallback = (provider: string, model: string) => {
+      const window = getContextWindowFor(provider, model);
+      const refit = fitToContext(fit.messages, messageBudget(window, route.maxTokens, systemPrompt, tools));
+      const note = describeFit(refit);
+      if (note) log.info(`${message.channel}/${message.userId}: ${provider}/${model}: ${note}`);
+      return refit.messages;
+    };
+
+    const response = await streamReply(message, fit.messages, tools, systemPrompt, fitFallback);
 
     // Track cost
-    if (response.usage) {
-      await trackUsage(
-        agentConfig.model,
-        response.usage.inputTokens,
-        response.usage.outputTokens,
-      );
-    }
+    await trackResponse(response, {
+      source: 'message', channel: message.channel, userId: message.userId, skill: matchSkill(message.text),
+    });
 
     if (!response.toolCalls || response.toolCalls.length === 0) {
       thread.messages.push({ role: 'assistant', content: response.content });
@@ -226,19 +450,10 @@ export async function processMessage(message: InboundMessage): Promise<string> {
     }
     thread.messages.push({ role: 'assistant', content: assistantContent });
 
-    const results = await Promise.all(
-      response.toolCalls.map(tc => executeTool(tc)),
-    );
-
-    for (const result of results) {
-      thread.messages.push({
-        role: 'tool',
-        tool_call_id: result.toolCallId,
-        content: result.content,
-      });
-    }
+    const results = await runToolCalls(turn, response.toolCalls, response.content);
+    pushToolResults(thread, results);
 
-    log.info(`Executed ${results.length} tool(s), iteration ${iterations}/${maxIterations}`);
+    log.info(`Executed ${results.length} tool(s), iteration ${turn.iteration}/${maxIterations}`);
   }
 
   log.warn(`Hit max iterations (${maxIterations})`);
@@ -248,6 +463,184 @@ export async function processMessage(message: InboundMessage): Promise<string> {
   return finalMsg;
 }
 
+function pushToolResults(thread: ConversationThread, results: ToolResult[]): void {
+  for (const result of results) {
+    thread.messages.push({
+      role: 'tool',
+      tool_call_id: result.toolCallId,
+      content: result.content,
+    });
+  }
+}
+
+/**
+ * Run a turn's tool calls under the tool policy. If any needs approval
+ * they run one at a time, so the thread waits on a single decision,
+ * and each approval saves a continuation of the turn; otherwise they
+ * run together. `resume` carries the decided approval for calls[0].
+ */
+async function runToolCalls(
+  turn: ChatTurn,
+  calls: ToolCall[],
+  reasoning: string,
+  resume?: { approval: ApprovalRequest; done: ToolResult[] },
+): Promise<ToolResult[]> {
+  const { message } = turn;
+  const ctx: ToolCallContext = {
+    channel: message.channel,
+    userId: message.userId,
+    threadId: `${message.channel}/${message.userId}`,
+    stepDescription: `Chat request: ${message.text.slice(0, 200)}`,
+    reasoning: reasoning.slice(0, 500) || 'Requested during chat',
+  };
+
+  const subject = { channel: message.channel, userId: message.userId };
+  if (!resume && !calls.some(tc => evaluateToolCall(tc, subject).action === 'approve')) {
+    return Promise.all(calls.map(tc => executeTool(tc, ctx)));
+  }
+
+  const results: ToolResult[] = [];
+  for (const [i, tc] of calls.entries()) {
+    results.push(await executeTool(tc, {
+      ...ctx,
+      resolvedApproval: i === 0 ? resume?.approval : undefined,
+      continuation: () => ({
+        kind: 'chat',
+        toolCall: tc,
+        messages: structuredClone(turn.thread.messages.slice(turn.turnStart)),
+        pendingCalls: calls.slice(i + 1),
+        completedResults: [...(resume?.done ?? []), ...results],
+        iteration: turn.iteration,
+        text: message.text,
+      }),
+    }));
+  }
+  return results;
+}
+
+// ---- Resuming after a restart --------------------------------
+
+/** Finish a chat turn whose approval was decided after the process restarted */
+async function resumeChatTurn(req: ApprovalRequest & { continuation: ApprovalContinuation }): Promise<void> {
+  const c = req.continuation;
+  const message: InboundMessage = {
+    id: uuid(),
+    channel: req.channel,
+    channelMessageId: '',
+    userId: req.userId,
+    userName: req.userId,
+    text: c.text ?? '',
+    timestamp: new Date(),
+  };
+
+  const thread = await loadThread(req.channel, req.userId);
+  const turn: ChatTurn = {
+    message,
+    thread,
+    systemPrompt: await chatSystemPrompt(thread, message.text),
+    turnStart: thread.messages.length,
+    iteration: c.iteration,
+  };
+  thread.messages.push(...c.messages);
+
+  const done = c.completedResults ?? [];
+  const results = await runToolCalls(turn, [c.toolCall, ...c.pendingCalls], req.proposedAction.reasoning, { approval: req, done });
+  pushToolResults(thread, [...done, ...results]);
+
+  const reply = await runChatTurn(turn);
+  await sendMessage({
+    channel: req.channel,
+    userId: req.userId,
+    text: `↩️ Picking up where I left off (\`${c.toolCall.name}\` ${req.status}):\n\n${reply}`,
+    stream: { id: message.id, done: true },
+  });
+}
+
+registerApprovalResumer('chat', resumeChatTurn);
+
+// ---- Queued Task Processing ----------------------------------
+
+/**
+ * Run a queued task: through the orchestrator when it is (or looks)
+ * multi-part, otherwise through a tool loop of its own. Each loop
+ * iteration that calls tools is recorded as a task step. Cancelling
+ * the task aborts the call in flight; pausing stops before the next
+ * iteration. Either way this throws TaskStoppedError.
+ */
+export async function processTask(task: Task): Promise<string> {
+  // A saved plan means an earlier run was orchestrated; resume it
+  if (task.orchestrate ?? (await loadPlan(task.id) !== null || shouldOrchestrate(task.description))) {
+    return orchestrate(task);
+  }
+
+  await updateTaskStatus(task.id, 'running');
+  const { channel, userId } = task.source;
+  const tools = getToolDefinitions();
+  const systemPrompt = await buildSystemPrompt(userId, `task/${task.id}`, task.description);
+  const messages: LLMMessage[] = [{
+    role: 'user',
+    content: `Complete this task:\n\nTitle: ${task.title}\n\n${task.description}\n\nWhen you are done, reply with the result.`,
+  }];
+  const maxIterations = getSettings().maxToolCallsPerMessage || agentConfig.maxToolCalls;
+  const signal = taskSignal(task.id);
+  const budgetScope: BudgetScope = { channel, userId, taskId: task.id };
+
+  try {
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      // Safe point: every earlier tool call has its result
+      throwIfTaskStopped(task.id);
+      assertBudget(budgetScope);
+
+      const response = await callLLM(messages, tools, systemPrompt, { ...mainCallOptions(), signal });
+      await trackResponse(response, { ...budgetScope, source: 'task', skill: matchSkill(task.description) });
+      if (response.usage) {
+        const route = resolveRoute(getMainRoute(), response.provider, response.model);
+        await addUsage(task.id, route.provider, route.model, response.usage);
+      }
+
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        await updateTaskStatus(task.id, 'completed', { result: response.content, progress: 100 });
+        return response.content;
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(response.content ? [{ type: 'text' as const, text: response.content }] : []),
+          ...response.toolCalls.map(tc => ({ type: 'tool_use' as const, id: tc.id, name: tc.name, input: tc.input })),
+        ],
+      });
+
+      const step = await addTaskStep(task.id, { description: response.content.slice(0, 200) || `Step ${iteration}` });
+      if (step) await updateTaskStep(task.id, step.id, { status: 'running', toolCalls: response.toolCalls.map(tc => tc.name) });
+
+      for (const tc of response.toolCalls) {
+        let waited = false;
+        const result = await executeTool(tc, {
+          channel, userId,
+          taskId: task.id,
+          signal,
+          stepDescription: `Task "${task.title}" wants to use ${tc.name}`,
+          reasoning: response.content.slice(0, 500) || `Part of task: ${task.title}`,
+          onApprovalRequested: async () => {
+            waited = true;
+            await updateTaskStatus(task.id, 'waiting_approval');
+          },
+        });
+        if (waited && getTask(task.id)?.status === 'waiting_approval') await updateTaskStatus(task.id, 'running');
+        messages.push({ role: 'tool', tool_call_id: result.toolCallId, content: result.content });
+      }
+
+      if (step) await updateTaskStep(task.id, step.id, { status: 'completed' });
+    }
+    throw new Error(`Reached the maximum of ${maxIterations} tool iterations`);
+  } catch (err: any) {
+    // Cancelled or paused: the status is already set
+    if (!(err instanceof TaskStoppedError)) await updateTaskStatus(task.id, 'failed', { error: err.message });
+    throw err;
+  }
+}
+
 // ---- Heartbeat Processing ------------------------------------
 
 export async function processHeartbeat(
@@ -258,18 +651,15 @@ export async function processHeartbeat(
   if (!canMakeCall()) return null;
 
   const taskList = tasks.map(t => `- ${t.description}`).join('\n');
-  const systemPrompt = await buildSystemPrompt(userId);
+  const systemPrompt = await buildSystemPrompt(userId, 'heartbeat', taskList);
 
   const messages: LLMMessage[] = [{
     role: 'user',
     content: `Heartbeat check. Review these tasks and act if needed:\n\n${taskList}\n\nIf nothing needs attention, respond with exactly: HEARTBEAT_OK`,
   }];
 
-  const response = await callLLM(messages, getToolDefinitions(), systemPrompt);
-
-  if (response.usage) {
-    await trackUsage(agentConfig.model, response.usage.inputTokens, response.usage.outputTokens);
-  }
+  const response = await callLLM(messages, getToolDefinitions(), systemPrompt, mainCallOptions());
+  await trackResponse(response, { source: 'heartbeat' });
 
   if (response.content.trim() === 'HEARTBEAT_OK') return null;
   return response.content;
@@ -283,7 +673,6 @@ export async function processTrigger(
 ): Promise<string | null> {
   if (!canMakeCall()) return null;
 
-  const systemPrompt = await buildSystemPrompt('trigger');
   const triggerContext = `
 Event trigger "${trigger.name}" (${trigger.type}) has fired.
 Action configured: ${trigger.action.type} — ${trigger.action.content}
@@ -292,13 +681,15 @@ Trigger payload:
 ${JSON.stringify(payload, null, 2).slice(0, 3000)}
 
 Execute the configured action based on the trigger payload.`;
+  const systemPrompt = await buildSystemPrompt('trigger', `trigger/${trigger.id}`, triggerContext);
 
   const messages: LLMMessage[] = [{ role: 'user', content: triggerContext }];
-  const response = await callLLM(messages, getToolDefinitions(), systemPrompt);
-
-  if (response.usage) {
-    await trackUsage(agentConfig.model, response.usage.inputTokens, response.usage.outputTokens);
-  }
+  const response = await callLLM(messages, getToolDefinitions(), systemPrompt, mainCallOptions());
+  await trackResponse(response, {
+    source: 'trigger',
+    triggerId: trigger.id,
+    skill: matchSkill(trigger.action.content),
+  });
 
   return response.content;
 }
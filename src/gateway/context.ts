@@ -0,0 +1,158 @@
+// ============================================================
+// Context Budget — Keeps a chat turn's messages inside the
+// model's context window. Old tool results are elided first
+// (in place, so the saved thread shrinks too), then whole old
+// turns are left out of the request. Tool calls and their
+// results are never separated.
+// ============================================================
+
+import { estimateMessageTokens, estimateMessagesTokens, estimateTokens } from '../utils/tokens.js';
+import { createLogger } from '../utils/logger.js';
+import type { LLMMessage, ToolDefinition } from '../types.js';
+
+const log = createLogger('Context');
+
+/** Marker that tells later passes a result was already elided */
+const ELIDED_PREFIX = '[elided:';
+/** Results this small aren't worth eliding */
+const MIN_ELIDE_TOKENS = 200;
+/** Head kept when a current-turn result has to be cut */
+const TRUNCATED_HEAD_CHARS = 4000;
+/** Headroom for estimate error (chars/4 undercounts code and non-English text) */
+const SAFETY_MARGIN = 0.1;
+
+export interface ContextFit {
+  /** Messages to send, oldest first */
+  messages: LLMMessage[];
+  budget: number;
+  tokens: number;
+  /** Old tool results replaced with a stub */
+  elidedResults: number;
+  /** Current-turn tool results cut to their head */
+  truncatedResults: number;
+  /** Oldest turns left out of this request */
+  droppedTurns: number;
+}
+
+/**
+ * Tokens left for messages once the system prompt, tool schemas,
+ * the model's output and a safety margin are taken out.
+ */
+export function messageBudget(
+  contextWindow: number,
+  maxOutputTokens: number,
+  systemPrompt: string,
+  tools: ToolDefinition[],
+): number {
+  const output = Math.min(maxOutputTokens, Math.floor(contextWindow / 4));
+  const fixed = estimateTokens(systemPrompt) + estimateTokens(JSON.stringify(tools));
+  return Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - output - fixed);
+}
+
+/**
+ * Fit messages into the budget. Tool results before the current turn
+ * are elided oldest first; if that isn't enough, whole turns are
+ * dropped from the front; as a last resort the largest results of the
+ * current turn are truncated. Elision and truncation mutate the given
+ * message objects; dropping only affects the returned list.
+ */
+export function fitToContext(messages: LLMMessage[], budget: number): ContextFit {
+  const fit: ContextFit = {
+    messages, budget, tokens: estimateMessagesTokens(messages),
+    elidedResults: 0, truncatedResults: 0, droppedTurns: 0,
+  };
+  if (fit.tokens <= budget) return fit;
+
+  const turnStarts = messages.flatMap((m, i) => isTurnStart(m) ? [i] : []);
+  const currentTurn = turnStarts.at(-1) ?? 0;
+  const toolNames = toolNamesById(messages);
+
+  // 1. Elide old tool results, oldest first
+  for (let i = 0; i < currentTurn && fit.tokens > budget; i++) {
+    const saved = elide(messages[i], toolNames);
+    if (saved > 0) {
+      fit.tokens -= saved;
+      fit.elidedResults++;
+    }
+  }
+
+  // 2. Drop whole turns from the front, always keeping the current one
+  for (let t = 1; t < turnStarts.length && fit.tokens > budget; t++) {
+    fit.messages = messages.slice(turnStarts[t]);
+    fit.tokens = estimateMessagesTokens(fit.messages);
+    fit.droppedTurns = t;
+  }
+
+  // 3. Cut the current turn's biggest tool results
+  const current = fit.messages
+    .filter(m => m.role === 'tool' && !isElided(m))
+    .sort((a, b) => estimateMessageTokens(b) - estimateMessageTokens(a));
+  for (const m of current) {
+    if (fit.tokens <= budget) break;
+    const saved = truncate(m);
+    if (saved > 0) {
+      fit.tokens -= saved;
+      fit.truncatedResults++;
+    }
+  }
+
+  if (fit.tokens > budget) {
+    log.warn(`Still ~${fit.tokens} tokens after trimming (budget ${budget}) — the request may be rejected`);
+  }
+  return fit;
+}
+
+/** Transcript note describing what a fit removed, or null if nothing was */
+export function describeFit(fit: ContextFit): string | null {
+  const parts: string[] = [];
+  if (fit.elidedResults > 0) parts.push(`elided ${fit.elidedResults} old tool result(s)`);
+  if (fit.truncatedResults > 0) parts.push(`truncated ${fit.truncatedResults} tool result(s) from this turn`);
+  if (fit.droppedTurns > 0) parts.push(`left the ${fit.droppedTurns} oldest turn(s) out of the request`);
+  if (parts.length === 0) return null;
+  return `[Context budget: ${parts.join(', ')} to fit ~${fit.budget} tokens]`;
+}
+
+// ---- Helpers -------------------------------------------------
+
+/** A plain user message (not a tool result or multimodal block list) */
+function isTurnStart(m: LLMMessage): boolean {
+  return m.role === 'user' && typeof m.content === 'string';
+}
+
+function isElided(m: LLMMessage): boolean {
+  return typeof m.content === 'string' && m.content.startsWith(ELIDED_PREFIX);
+}
+
+function toolNamesById(messages: LLMMessage[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const m of messages) {
+    if (m.role !== 'assistant' || typeof m.content === 'string') continue;
+    // The agent loop stores tool_use blocks in Anthropic shape ({ id, name })
+    for (const block of m.content as Array<{ type: string; id?: string; name?: string }>) {
+      if (block.type === 'tool_use' && block.id && block.name) names.set(block.id, block.name);
+    }
+  }
+  return names;
+}
+
+/** Replace a tool result with a stub; returns the tokens saved */
+function elide(m: LLMMessage, toolNames: Map<string, string>): number {
+  if (m.role !== 'tool' || isElided(m)) return 0;
+  const before = estimateMessageTokens(m);
+  if (before < MIN_ELIDE_TOKENS) return 0;
+
+  const chars = typeof m.content === 'string' ? m.content.length : JSON.stringify(m.content).length;
+  const tool = (m.tool_call_id && toolNames.get(m.tool_call_id)) || m.name || 'tool';
+  m.content = `${ELIDED_PREFIX} ${chars} chars of ${tool} output removed to save context — run the tool again if you need it]`;
+  return before - estimateMessageTokens(m);
+}
+
+/** Keep the head of a tool result; returns the tokens saved */
+function truncate(m: LLMMessage): number {
+  // The slack also stops an already-truncated result being cut again
+  if (typeof m.content !== 'string' || m.content.length <= TRUNCATED_HEAD_CHARS * 1.25) return 0;
+  const before = estimateMessageTokens(m);
+  const removed = m.content.length - TRUNCATED_HEAD_CHARS;
+  m.content = `${m.content.slice(0, TRUNCATED_HEAD_CHARS)}\n[truncated: ${removed} more chars removed to save context]`;
+  return before - estimateMessageTokens(m);
+}
@@ -234,6 +234,18 @@ function sanitizeEvent(event: AgentEvent): Record<string, unknown> {
         resultPreview: event.result.slice(0, 200),
         timestamp: new Date().toISOString(),
       };
+    case 'tool_call_delta':
+      // Argument fragments are tool inputs — only report their size.
+      // Reply text (message_delta) is forwarded as-is: message_sent
+      // broadcasts the finished reply anyway
+      return {
+        type: event.type,
+        streamId: event.streamId,
+        index: event.index,
+        tool: event.tool,
+        argsChars: event.argsDelta.length,
+        timestamp: new Date().toISOString(),
+      };
     case 'message_received':
       return {
         type: event.type,
@@ -242,6 +254,12 @@ function sanitizeEvent(event: AgentEvent): Record<string, unknown> {
         textPreview: event.message.text.slice(0, 100),
         timestamp: new Date().toISOString(),
       };
+    case 'approval_requested':
+    case 'approval_resolved': {
+      // The continuation holds a full message history — never broadcast it
+      const { continuation, ...approval } = event.approval;
+      return { type: event.type, approval: { ...approval, resumable: !!continuation }, timestamp: new Date().toISOString() };
+    }
     default:
       return { ...event, timestamp: new Date().toISOString() };
   }
@@ -129,7 +129,7 @@ export function stopHeartbeat(): void {
 registerTool(
   {
     name: 'schedule_cron',
-    description: 'Schedule a recurring task using a cron expression. The task description will be evaluated on each tick.',
+    description: 'Schedule a recurring heartbeat check using a cron expression. The description is evaluated on each tick, untracked. For recurring work whose runs, results and costs should be tracked, use create_task with cron instead.',
     parameters: {
       type: 'object',
       properties: {
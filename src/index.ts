@@ -12,6 +12,7 @@ import { eventBus } from './events.js';
 import { createLogger } from './utils/logger.js';
 import { initAuditLog, closeAuditLog } from './security/guard.js';
 import { loadSettings } from './security/settings.js';
+import { initToolPolicy } from './security/policy.js';
 
 // Import tools (registers built-in tools on import)
 import './tools/registry.js';
@@ -23,17 +24,24 @@ import './tools/tasks.js';    // task queue + orchestration tools
 
 // Task infrastructure
 import { initTaskQueue } from './tasks/queue.js';
-import { initApprovalQueue } from './tasks/approvals.js';
+import { initApprovalQueue, resumeDecidedApprovals } from './tasks/approvals.js';
+import { initApprovalPolicy } from './tasks/approval-policy.js';
+import { initApprovalNotifier } from './tasks/approval-prompts.js';
+import { initCostAlertNotifier } from './tasks/cost-alerts.js';
 import { initCostTracker } from './tasks/costs.js';
 
 // Orchestrator
 import { initModelRouter } from './orchestrator/router.js';
+import { initProviderRegistry } from './llm/registry.js';
+import { initPricing } from './llm/pricing.js';
 
 // Triggers
 import { initTriggers, stopAllTriggers } from './triggers/engine.js';
 
 import { loadSkills } from './skills/loader.js';
 import { startHeartbeat, stopHeartbeat } from './heartbeat/scheduler.js';
+import { startTaskWorkers, stopTaskWorkers } from './tasks/worker.js';
+import { startTaskScheduler, stopTaskScheduler } from './tasks/schedule.js';
 import {
   createTelegramAdapter,
   createDiscordAdapter,
@@ -42,7 +50,7 @@ import {
   sendMessage,
 } from './channels/adapters.js';
 import { startGateway } from './gateway/server.js';
-import { processMessage, processHeartbeat, processTrigger } from './gateway/agent.js';
+import { processMessage, processHeartbeat, processTrigger, processTask } from './gateway/agent.js';
 
 import type { InboundMessage, OutboundMessage, TriggerDefinition } from './types.js';
 
@@ -71,11 +79,13 @@ function printBanner(): void {
 async function handleInboundMessage(message: InboundMessage): Promise<void> {
   try {
     const reply = await processMessage(message);
+    // Finalizes the live message if the reply was streamed
     await sendMessage({
       channel: message.channel,
       userId: message.userId,
       text: reply,
       replyToMessageId: message.channelMessageId,
+      stream: { id: message.id, done: true },
     });
   } catch (err: any) {
     log.error(`Failed to process message: ${err.message}`);
@@ -83,6 +93,7 @@ async function handleInboundMessage(message: InboundMessage): Promise<void> {
       channel: message.channel,
       userId: message.userId,
       text: `Sorry, I ran into an error: ${err.message}`,
+      stream: { id: message.id, done: true },
     });
   }
 }
@@ -146,10 +157,20 @@ function startCLI(): void {
     prompt: chalk.green(`\n${agentConfig.name} > `),
   });
 
-  const cliAdapter = createCLIAdapter((text) => {
-    console.log(chalk.cyan(`\n${agentConfig.name}: `) + text);
-    rl.prompt();
-  });
+  const cliAdapter = createCLIAdapter(
+    (text) => {
+      console.log(chalk.cyan(`\n${agentConfig.name}: `) + text);
+      rl.prompt();
+    },
+    (chunk, state) => {
+      if (state === 'start') process.stdout.write(chalk.cyan(`\n${agentConfig.name}: `));
+      process.stdout.write(chunk);
+      if (state === 'end') {
+        process.stdout.write('\n');
+        rl.prompt();
+      }
+    },
+  );
   registerChannel(cliAdapter);
   cliAdapter.start();
 
@@ -211,14 +232,18 @@ async function main(): Promise<void> {
   // Load runtime settings
   const settings = await loadSettings();
   log.info(`Settings loaded (autonomy: ${settings.autonomyLevel})`);
+  await initToolPolicy();
 
   // Initialize task infrastructure
   await initTaskQueue();
+  await initApprovalPolicy();
   await initApprovalQueue();
   await initCostTracker();
   log.info('Task queue, approvals, and cost tracker initialized');
 
-  // Initialize model router for multi-agent orchestration
+  // Load LLM endpoints, then the model router that references them
+  await initProviderRegistry();
+  await initPricing();
   initModelRouter();
   log.info('Model router initialized');
 
@@ -262,12 +287,25 @@ async function main(): Promise<void> {
     await discord.start();
   }
 
+  // Push approval requests to whoever has to decide them
+  initApprovalNotifier();
+
+  // Push spend alerts to the owner
+  await initCostAlertNotifier();
+
   // Start heartbeat
   startHeartbeat();
 
+  // Start draining the task queue, and release scheduled tasks into it
+  startTaskWorkers(processTask);
+  startTaskScheduler();
+
   // Start gateway
   await startGateway();
 
+  // Pick up work whose approval was decided while we were down
+  await resumeDecidedApprovals();
+
   // Start CLI
   startCLI();
 
@@ -282,6 +320,8 @@ async function main(): Promise<void> {
 async function shutdown(): Promise<void> {
   log.info('Shutting down...');
   stopHeartbeat();
+  stopTaskWorkers();
+  stopTaskScheduler();
   stopAllTriggers();
   await closeAuditLog();
   process.exit(0);
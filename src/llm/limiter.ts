@@ -0,0 +1,192 @@
+// ============================================================
+// LLM Limiter — Process-wide token buckets per provider and
+// per model, built on guard.checkRateLimit. Calls over the
+// limit wait in a FIFO queue per model (bounded) instead of
+// failing; a provider's queues are served round-robin.
+// ============================================================
+
+import { getSettings } from '../security/settings.js';
+import { checkRateLimit, refundRateLimit } from '../security/guard.js';
+import { createLogger } from '../utils/logger.js';
+import { getEndpoint, hasEndpoint } from './registry.js';
+
+const log = createLogger('Limiter');
+
+interface Waiter {
+  provider: string;
+  model: string;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/** Waiting calls by provider, then model (in serving order), oldest first */
+const queues = new Map<string, Map<string, Waiter[]>>();
+/** One pump per provider, since its models share the provider bucket */
+const pumpTimers = new Map<string, NodeJS.Timeout>();
+let totalWaited = 0;
+let totalTimedOut = 0;
+
+/** Thrown when a call waits longer than llmQueueMaxWaitMs */
+export class LLMQueueTimeoutError extends Error {
+  constructor(public readonly provider: string, public readonly model: string, public readonly waitedMs: number) {
+    super(`Rate limit queue for ${provider}/${model} still full after ${Math.round(waitedMs / 1000)}s`);
+    this.name = 'LLMQueueTimeoutError';
+  }
+}
+
+// ---- Limits --------------------------------------------------
+
+function limitsFor(provider: string, model: string): { provider: number; model: number } {
+  const endpoint = hasEndpoint(provider) ? getEndpoint(provider) : undefined;
+  return {
+    provider: endpoint?.rateLimitPerMin ?? getSettings().llmRateLimitPerMin,
+    model: endpoint?.modelRateLimits?.[model] ?? 0,
+  };
+}
+
+/** Take a token from both buckets, or neither */
+function tryTake(provider: string, model: string): boolean {
+  const limits = limitsFor(provider, model);
+  const providerKey = `llm:${provider}`;
+
+  if (limits.provider > 0 && !checkRateLimit(providerKey, limits.provider, limits.provider / 60)) {
+    return false;
+  }
+  if (limits.model > 0 && !checkRateLimit(`llm:${provider}/${model}`, limits.model, limits.model / 60)) {
+    if (limits.provider > 0) refundRateLimit(providerKey, limits.provider);
+    return false;
+  }
+  return true;
+}
+
+// ---- Queue ---------------------------------------------------
+
+/**
+ * Release waiters while tokens last, one per model per pass so a busy
+ * model can't starve the others sharing the provider bucket; poll
+ * again at the refill rate.
+ */
+function pump(provider: string): void {
+  clearTimeout(pumpTimers.get(provider));
+  pumpTimers.delete(provider);
+  const models = queues.get(provider);
+  if (!models) return;
+
+  let served = true;
+  while (served) {
+    served = false;
+    for (const [model, queue] of [...models]) {
+      if (!tryTake(provider, model)) continue;
+      const waiter = queue.shift()!;
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+      served = true;
+      // A served model goes to the back of the rotation
+      models.delete(model);
+      if (queue.length > 0) models.set(model, queue);
+    }
+  }
+
+  if (models.size === 0) {
+    queues.delete(provider);
+    return;
+  }
+
+  const slowest = Math.min(...[...models.keys()].flatMap(model => {
+    const limits = limitsFor(provider, model);
+    return [limits.provider, limits.model].filter(n => n > 0);
+  }));
+  const refillMs = Math.max(50, Math.min(1000, 60_000 / slowest));
+  pumpTimers.set(provider, setTimeout(() => pump(provider), refillMs));
+}
+
+/** Take a waiter out of its queue (timed out or cancelled); returns how many remain for its model */
+function dequeue(waiter: Waiter): number {
+  const models = queues.get(waiter.provider);
+  const queue = models?.get(waiter.model);
+  const idx = queue?.indexOf(waiter) ?? -1;
+  if (idx >= 0) queue!.splice(idx, 1);
+  if (queue?.length === 0) models!.delete(waiter.model);
+  if (models?.size === 0) {
+    queues.delete(waiter.provider);
+    clearTimeout(pumpTimers.get(waiter.provider));
+    pumpTimers.delete(waiter.provider);
+  }
+  return queue?.length ?? 0;
+}
+
+/**
+ * Wait for a call slot on provider/model. Resolves immediately when
+ * the buckets have room; otherwise queues behind earlier callers and
+ * rejects with LLMQueueTimeoutError after llmQueueMaxWaitMs, or with
+ * the abort reason once `signal` fires.
+ */
+export function acquireLLMSlot(provider: string, model: string, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  const key = `${provider}/${model}`;
+  // Only jump straight in when nobody is already waiting on this provider
+  if (!queues.has(provider) && tryTake(provider, model)) return Promise.resolve();
+
+  const maxWait = getSettings().llmQueueMaxWaitMs;
+  totalWaited++;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(waiter.timer);
+      dequeue(waiter);
+      reject(signal!.reason);
+    };
+    const waiter: Waiter = {
+      provider, model, enqueuedAt: Date.now(),
+      resolve: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+      reject,
+      timer: setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        const remaining = dequeue(waiter);
+        totalTimedOut++;
+        log.warn(`Gave up waiting for ${key} after ${maxWait}ms (${remaining} still queued)`);
+        reject(new LLMQueueTimeoutError(provider, model, Date.now() - waiter.enqueuedAt));
+      }, maxWait),
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const models = queues.get(provider) ?? new Map<string, Waiter[]>();
+    const queue = models.get(model) ?? [];
+    queue.push(waiter);
+    models.set(model, queue);
+    queues.set(provider, models);
+    if (queue.length === 1 || queue.length % 10 === 0) {
+      log.info(`Rate limited: ${queue.length} call(s) queued for ${key}`);
+    }
+    // A model new to the rotation may have room in its own bucket right away
+    if (queue.length === 1 || !pumpTimers.has(provider)) pump(provider);
+  });
+}
+
+// ---- Stats ---------------------------------------------------
+
+export function getLLMQueueStats(): {
+  queued: number;
+  totalWaited: number;
+  totalTimedOut: number;
+  queues: Array<{ key: string; depth: number; oldestWaitMs: number }>;
+} {
+  const now = Date.now();
+  const list = Array.from(queues.entries()).flatMap(([provider, models]) =>
+    Array.from(models.entries()).map(([model, queue]) => ({
+      key: `${provider}/${model}`,
+      depth: queue.length,
+      oldestWaitMs: queue.length ? now - queue[0].enqueuedAt : 0,
+    })));
+  return {
+    queued: list.reduce((n, q) => n + q.depth, 0),
+    totalWaited,
+    totalTimedOut,
+    queues: list,
+  };
+}
@@ -0,0 +1,215 @@
+// ============================================================
+// Pricing Catalogue — $ per 1K tokens for every model we call:
+// input, output, cache read/write and batch rates. A built-in
+// list (versioned by the date the rates were checked), endpoint
+// pricing from providers.json, and admin overrides kept in
+// workspace/pricing.json. Every cost figure is priced here.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { agentConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import { getEndpointPricing, listEndpoints } from './registry.js';
+import type { ModelPrice, TokenUsage } from '../types.js';
+
+const log = createLogger('Pricing');
+
+/** Date the built-in rates were last checked against the providers' price lists */
+export const PRICING_VERSION = '2026-10-01';
+
+/**
+ * Built-in rates by provider, then model. A model matches its
+ * longest key prefix, so dated snapshots share their family's
+ * price; `*` covers the provider's other models.
+ */
+const CATALOGUE: Record<string, Record<string, ModelPrice>> = {
+  anthropic: {
+    'claude-opus-4-6': { input: 0.005, output: 0.025, cacheRead: 0.0005, cacheWrite: 0.00625, batchInput: 0.0025, batchOutput: 0.0125 },
+    'claude-opus-4-5': { input: 0.005, output: 0.025, cacheRead: 0.0005, cacheWrite: 0.00625, batchInput: 0.0025, batchOutput: 0.0125 },
+    'claude-opus-4-1': { input: 0.015, output: 0.075, cacheRead: 0.0015, cacheWrite: 0.01875, batchInput: 0.0075, batchOutput: 0.0375 },
+    'claude-opus-4-20250514': { input: 0.015, output: 0.075, cacheRead: 0.0015, cacheWrite: 0.01875, batchInput: 0.0075, batchOutput: 0.0375 },
+    'claude-sonnet-4': { input: 0.003, output: 0.015, cacheRead: 0.0003, cacheWrite: 0.00375, batchInput: 0.0015, batchOutput: 0.0075 },
+    'claude-3-7-sonnet': { input: 0.003, output: 0.015, cacheRead: 0.0003, cacheWrite: 0.00375, batchInput: 0.0015, batchOutput: 0.0075 },
+    'claude-haiku-4-5': { input: 0.001, output: 0.005, cacheRead: 0.0001, cacheWrite: 0.00125, batchInput: 0.0005, batchOutput: 0.0025 },
+    'claude-3-5-haiku': { input: 0.0008, output: 0.004, cacheRead: 0.00008, cacheWrite: 0.001, batchInput: 0.0004, batchOutput: 0.002 },
+    '*': { input: 0.003, output: 0.015, cacheRead: 0.0003, cacheWrite: 0.00375, batchInput: 0.0015, batchOutput: 0.0075 },
+  },
+  // Cached input is discounted; writing the cache costs nothing extra
+  openai: {
+    'gpt-5': { input: 0.00125, output: 0.01, cacheRead: 0.000125, batchInput: 0.000625, batchOutput: 0.005 },
+    'gpt-5-mini': { input: 0.00025, output: 0.002, cacheRead: 0.000025, batchInput: 0.000125, batchOutput: 0.001 },
+    'gpt-5-nano': { input: 0.00005, output: 0.0004, cacheRead: 0.000005, batchInput: 0.000025, batchOutput: 0.0002 },
+    'gpt-4.1': { input: 0.002, output: 0.008, cacheRead: 0.0005, batchInput: 0.001, batchOutput: 0.004 },
+    'gpt-4.1-mini': { input: 0.0004, output: 0.0016, cacheRead: 0.0001, batchInput: 0.0002, batchOutput: 0.0008 },
+    'gpt-4.1-nano': { input: 0.0001, output: 0.0004, cacheRead: 0.000025, batchInput: 0.00005, batchOutput: 0.0002 },
+    'gpt-4o': { input: 0.0025, output: 0.01, cacheRead: 0.00125, batchInput: 0.00125, batchOutput: 0.005 },
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006, cacheRead: 0.000075, batchInput: 0.000075, batchOutput: 0.0003 },
+    'o3': { input: 0.002, output: 0.008, cacheRead: 0.0005, batchInput: 0.001, batchOutput: 0.004 },
+    'o3-mini': { input: 0.0011, output: 0.0044, cacheRead: 0.00055, batchInput: 0.00055, batchOutput: 0.0022 },
+    'o4-mini': { input: 0.0011, output: 0.0044, cacheRead: 0.000275, batchInput: 0.00055, batchOutput: 0.0022 },
+    '*': { input: 0.0025, output: 0.01, cacheRead: 0.00125, batchInput: 0.00125, batchOutput: 0.005 },
+  },
+  gemini: {
+    'gemini-2.5-pro': { input: 0.00125, output: 0.01, cacheRead: 0.000125, batchInput: 0.000625, batchOutput: 0.005 },
+    'gemini-2.5-flash': { input: 0.0003, output: 0.0025, cacheRead: 0.00003, batchInput: 0.00015, batchOutput: 0.00125 },
+    'gemini-2.5-flash-lite': { input: 0.0001, output: 0.0004, cacheRead: 0.00001, batchInput: 0.00005, batchOutput: 0.0002 },
+    '*': { input: 0.00125, output: 0.01, cacheRead: 0.000125, batchInput: 0.000625, batchOutput: 0.005 },
+  },
+  mistral: {
+    'mistral-large': { input: 0.002, output: 0.006, batchInput: 0.001, batchOutput: 0.003 },
+    'mistral-medium': { input: 0.0004, output: 0.002, batchInput: 0.0002, batchOutput: 0.001 },
+    'mistral-small': { input: 0.0001, output: 0.0003, batchInput: 0.00005, batchOutput: 0.00015 },
+    'codestral': { input: 0.0003, output: 0.0009, batchInput: 0.00015, batchOutput: 0.00045 },
+    '*': { input: 0.002, output: 0.006, batchInput: 0.001, batchOutput: 0.003 },
+  },
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+const RATE_FIELDS = ['input', 'output', 'cacheRead', 'cacheWrite', 'batchInput', 'batchOutput'] as const;
+
+interface PricingFile {
+  /** Bumped on every override change */
+  revision: number;
+  updatedAt?: string;
+  /** By "provider/model" (or "provider/*") */
+  overrides: Record<string, ModelPrice>;
+}
+
+/** Where a model's price came from, for display */
+export interface PricingEntry {
+  provider: string;
+  model: string;
+  price: ModelPrice;
+  source: 'catalogue' | 'endpoint' | 'override';
+}
+
+let pricing: PricingFile = { revision: 0, overrides: {} };
+
+const pricingFile = () => path.join(agentConfig.workspace, 'pricing.json');
+
+/** Thrown when an override can't be applied */
+export class PricingError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid price: ${problems.join('; ')}`);
+    this.name = 'PricingError';
+  }
+}
+
+// ---- Init ----------------------------------------------------
+
+export async function initPricing(): Promise<void> {
+  try {
+    pricing = { revision: 0, overrides: {}, ...JSON.parse(await fs.readFile(pricingFile(), 'utf-8')) };
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log.warn(`Could not read pricing.json: ${err.message}`);
+  }
+  const overrides = Object.keys(pricing.overrides).length;
+  log.info(`Pricing catalogue ${getPricingVersion()}${overrides ? ` (${overrides} override(s))` : ''}`);
+}
+
+// ---- Lookup --------------------------------------------------
+
+/**
+ * A model's rates: an admin override, else the endpoint's own
+ * pricing for that model, else the built-in catalogue, else the
+ * endpoint's or catalogue's `*` entry. Unknown models are free
+ * (local backends).
+ */
+export function getModelPrice(provider: string, model: string): ModelPrice {
+  const endpoint = getEndpointPricing(provider);
+  const catalogue = CATALOGUE[provider];
+  return pricing.overrides[`${provider}/${model}`]
+    ?? endpoint?.[model]
+    ?? (catalogue && catalogueMatch(catalogue, model))
+    ?? pricing.overrides[`${provider}/*`]
+    ?? endpoint?.['*']
+    ?? catalogue?.['*']
+    ?? FREE;
+}
+
+/** $ for one call's tokens; `batch` prices it at the batch API rates */
+export function costOf(provider: string, model: string, usage: TokenUsage, opts: { batch?: boolean } = {}): number {
+  const price = getModelPrice(provider, model);
+  const inputRate = opts.batch ? price.batchInput ?? price.input : price.input;
+  const outputRate = opts.batch ? price.batchOutput ?? price.output : price.output;
+  return (
+    usage.inputTokens * inputRate
+    + (usage.cacheReadTokens ?? 0) * (price.cacheRead ?? price.input)
+    + (usage.cacheWriteTokens ?? 0) * (price.cacheWrite ?? price.input)
+    + usage.outputTokens * outputRate
+  ) / 1000;
+}
+
+/** Catalogue date, plus the override revision once prices were overridden */
+export function getPricingVersion(): string {
+  return pricing.revision > 0 ? `${PRICING_VERSION}+r${pricing.revision}` : PRICING_VERSION;
+}
+
+/** Every priced model: catalogue, then endpoint pricing, then overrides on top */
+export function listPrices(): PricingEntry[] {
+  const entries = new Map<string, PricingEntry>();
+  for (const [provider, models] of Object.entries(CATALOGUE)) {
+    for (const [model, price] of Object.entries(models)) {
+      entries.set(`${provider}/${model}`, { provider, model, price, source: 'catalogue' });
+    }
+  }
+  for (const { name: provider } of listEndpoints()) {
+    for (const [model, price] of Object.entries(getEndpointPricing(provider) ?? {})) {
+      entries.set(`${provider}/${model}`, { provider, model, price, source: 'endpoint' });
+    }
+  }
+  for (const [key, price] of Object.entries(pricing.overrides)) {
+    const slash = key.indexOf('/');
+    entries.set(key, { provider: key.slice(0, slash), model: key.slice(slash + 1), price, source: 'override' });
+  }
+  return [...entries.values()];
+}
+
+// ---- Overrides -----------------------------------------------
+
+/** Override a model's rates (`model` may be `*`); null removes the override */
+export async function setPriceOverride(provider: string, model: string, price: ModelPrice | null): Promise<void> {
+  if (!provider || !model || provider.includes('/')) throw new PricingError(['provider and model are required; provider has no "/"']);
+  const key = `${provider}/${model}`;
+
+  if (price === null) {
+    if (!(key in pricing.overrides)) return;
+    delete pricing.overrides[key];
+  } else {
+    pricing.overrides[key] = validatePrice(price);
+  }
+  pricing.revision++;
+  pricing.updatedAt = new Date().toISOString();
+  await fs.writeFile(pricingFile(), JSON.stringify(pricing, null, 2));
+  log.info(`Price ${price ? 'override set' : 'override removed'}: ${key} — catalogue now ${getPricingVersion()}`);
+}
+
+function validatePrice(price: ModelPrice): ModelPrice {
+  const problems: string[] = [];
+  const clean: Partial<ModelPrice> = {};
+  for (const field of RATE_FIELDS) {
+    const value = price[field];
+    if (value === undefined || value === null) {
+      if (field === 'input' || field === 'output') problems.push(`${field} is required`);
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      problems.push(`${field} must be a non-negative number ($ per 1K tokens)`);
+      continue;
+    }
+    clean[field] = value;
+  }
+  if (problems.length > 0) throw new PricingError(problems);
+  return clean as ModelPrice;
+}
+
+// ---- Helpers -------------------------------------------------
+
+function catalogueMatch(models: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+  let best: string | undefined;
+  for (const key of Object.keys(models)) {
+    if (key !== '*' && model.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? models[best] : undefined;
+}
@@ -1,12 +1,27 @@
 // ============================================================
-// LLM — Unified interface for Anthropic, OpenAI, and Ollama
-// Supports per-call provider/model overrides for multi-agent.
+// LLM — Unified interface over the provider registry
+// Supports per-call provider/model overrides for multi-agent,
+// streaming variants that yield text/tool-call deltas, and
+// retry with backoff plus failover along a fallback chain.
+// Every attempt first takes a slot from the rate limiter.
+// System prompts mark their stable prefix with cache
+// breakpoints, which the Anthropic adapter turns into prompt
+// cache blocks.
 // ============================================================
 
 import Anthropic from '@anthropic-ai/sdk';
 import { llmConfig } from '../config.js';
+import { getSettings } from '../security/settings.js';
+import { audit } from '../security/guard.js';
+import { recordFailover } from '../tasks/costs.js';
 import { createLogger } from '../utils/logger.js';
-import type { LLMMessage, LLMResponse, LLMProvider, ToolDefinition, ToolCall } from '../types.js';
+import {
+  registerLLMAdapter, getLLMAdapter, getEndpoint, hasEndpoint, resolveApiKey, type LLMRequest,
+} from './registry.js';
+import { acquireLLMSlot, LLMQueueTimeoutError } from './limiter.js';
+import type {
+  LLMEndpoint, LLMMessage, LLMResponse, LLMProvider, LLMStreamChunk, TokenUsage, ToolDefinition, ToolCall,
+} from '../types.js';
 
 const log = createLogger('LLM');
 
@@ -14,19 +29,99 @@ const log = createLogger('LLM');
 export interface LLMCallOptions {
   provider?: LLMProvider;
   model?: string;
+  /** Tried in order once the primary has exhausted its retries */
+  fallbacks?: Array<{ provider: LLMProvider; model?: string }>;
+  /** Cancels the call — including retry waits and queueing — when aborted */
+  signal?: AbortSignal;
+  /** Messages for a fallback, e.g. re-fitted to its smaller context window (default: the same messages) */
+  fitMessages?: (provider: LLMProvider, model: string) => LLMMessage[];
 }
 
-// ---- Anthropic adapter ---------------------------------------
+/**
+ * Put between the stable and changing parts of a system prompt:
+ * everything before a breakpoint is cached where the provider
+ * supports it, and the marker is dropped elsewhere.
+ */
+export const CACHE_BREAKPOINT = '\n\n<<cache-breakpoint>>\n\n';
 
-async function callAnthropic(
-  messages: LLMMessage[],
-  tools: ToolDefinition[],
-  systemPrompt: string,
-  model?: string,
-): Promise<LLMResponse> {
-  const client = new Anthropic({ apiKey: llmConfig.anthropicApiKey });
+/** Anthropic allows this many cache_control blocks per request */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+// ---- Errors --------------------------------------------------
+
+/** HTTP statuses worth retrying on the same endpoint */
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+/** Socket-level causes of a fetch() TypeError that mean the endpoint couldn't be reached */
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+]);
+
+/** A failed LLM request, classified for retry and failover */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    /** HTTP status; undefined for network failures */
+    public readonly status?: number,
+    /** Server-requested delay from retry-after / retry-after-ms */
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || RETRYABLE_STATUS.has(this.status);
+  }
+}
+
+/** Read retry-after-ms (OpenAI, Anthropic) or retry-after (seconds or HTTP date) */
+function parseRetryAfter(header: (name: string) => string | null | undefined): number | undefined {
+  const ms = Number(header('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = header('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a failure for retry and failover; null when it isn't the
+ * endpoint's fault (a bug or bad data on our side), which callers
+ * rethrow as-is instead of retrying it elsewhere.
+ */
+function toLLMError(err: unknown, provider: string): LLMError | null {
+  if (err instanceof LLMError) return err;
+  if (err instanceof LLMQueueTimeoutError) {
+    // Our own limiter is saturated: treat like a 429 that already waited
+    return new LLMError(err.message, provider, 429, err.waitedMs);
+  }
+  if (err instanceof Anthropic.APIError) {
+    const headers = err.headers ?? {};
+    return new LLMError(err.message, provider, err.status, parseRetryAfter(name => headers[name]));
+  }
+  // fetch() rejects with a TypeError on DNS / connection failures
+  if (isConnectionFailure(err)) {
+    const { code } = (err as TypeError & { cause: { code: string } }).cause;
+    return new LLMError(`${(err as Error).message} (${code})`, provider);
+  }
+  return null;
+}
+
+function isConnectionFailure(err: unknown): boolean {
+  if (!(err instanceof TypeError)) return false;
+  const code = (err.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && CONNECTION_ERROR_CODES.has(code);
+}
 
-  const apiMessages = messages
+// ---- Anthropic adapter ---------------------------------------
+
+function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  return messages
     .filter(m => m.role !== 'system')
     .map(m => {
       if (m.role === 'tool') {
@@ -44,20 +139,70 @@ async function callAnthropic(
         content: typeof m.content === 'string' ? m.content : m.content as any,
       };
     });
+}
 
-  const anthropicTools = tools.map(t => ({
+/** Tools go first in the cached prefix; a breakpoint on the last one caches the whole list */
+function toAnthropicTools(tools: ToolDefinition[], cache: boolean): Anthropic.Tool[] | undefined {
+  if (tools.length === 0) return undefined;
+  return tools.map((t, i) => ({
     name: t.name,
     description: t.description,
     input_schema: t.parameters as any,
+    ...(cache && i === tools.length - 1 ? { cache_control: { type: 'ephemeral' as const } } : {}),
   }));
+}
+
+/** One text block per breakpoint-separated part; each part followed by a breakpoint is cached */
+function toAnthropicSystem(systemPrompt: string, cache: boolean, tools: ToolDefinition[]): string | Anthropic.TextBlockParam[] {
+  if (!systemPrompt.includes(CACHE_BREAKPOINT)) return systemPrompt;
+  const parts = systemPrompt.split(CACHE_BREAKPOINT);
+  if (!cache) return parts.join('\n\n');
+
+  // The last breakpoints cover the most; drop the earliest if there are too many
+  const budget = MAX_CACHE_BREAKPOINTS - (tools.length > 0 ? 1 : 0);
+  const cachedFrom = Math.max(0, parts.length - 1 - budget);
+  return parts
+    .map((text, i) => ({
+      type: 'text' as const,
+      text,
+      ...(i >= cachedFrom && i < parts.length - 1 ? { cache_control: { type: 'ephemeral' as const } } : {}),
+    }))
+    .filter(block => block.text.trim());
+}
+
+function anthropicUsage(usage: Anthropic.Usage): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    ...(usage.cache_read_input_tokens ? { cacheReadTokens: usage.cache_read_input_tokens } : {}),
+    ...(usage.cache_creation_input_tokens ? { cacheWriteTokens: usage.cache_creation_input_tokens } : {}),
+  };
+}
+
+function anthropicClient(req: LLMRequest): Anthropic {
+  const bearer = req.endpoint.auth === 'bearer';
+  return new Anthropic({
+    maxRetries: 0, // retries and failover are handled by callLLM
+    apiKey: bearer ? null : req.apiKey,
+    authToken: bearer ? req.apiKey : null,
+    baseURL: req.endpoint.baseUrl,
+    defaultHeaders: req.endpoint.headers,
+    defaultQuery: req.endpoint.query,
+  });
+}
+
+async function callAnthropic(req: LLMRequest): Promise<LLMResponse> {
+  const { messages, tools, systemPrompt, model } = req;
+  const client = anthropicClient(req);
+  const cache = req.endpoint.promptCaching !== false;
 
   const response = await client.messages.create({
-    model: model || llmConfig.anthropicModel,
+    model,
     max_tokens: 8192,
-    system: systemPrompt,
-    messages: apiMessages,
-    tools: anthropicTools.length > 0 ? anthropicTools : undefined,
-  });
+    system: toAnthropicSystem(systemPrompt, cache, tools),
+    messages: toAnthropicMessages(messages),
+    tools: toAnthropicTools(tools, cache),
+  }, { signal: req.signal });
 
   let text = '';
   const toolCalls: ToolCall[] = [];
@@ -77,57 +222,170 @@ async function callAnthropic(
   return {
     content: text,
     toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-    usage: {
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
-    },
+    usage: anthropicUsage(response.usage),
     stopReason: response.stop_reason ?? undefined,
   };
 }
 
-// ---- OpenAI-compatible adapter (works for OpenAI + Ollama) ---
+async function* streamAnthropic(req: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  const { messages, tools, systemPrompt, model } = req;
+  const client = anthropicClient(req);
+  const cache = req.endpoint.promptCaching !== false;
 
-async function callOpenAICompatible(
-  messages: LLMMessage[],
-  tools: ToolDefinition[],
-  systemPrompt: string,
-  baseUrl: string,
-  apiKey: string,
-  model: string,
-): Promise<LLMResponse> {
-  const openaiMessages = [
-    { role: 'system', content: systemPrompt },
+  const stream = await client.messages.create({
+    model,
+    max_tokens: 8192,
+    system: toAnthropicSystem(systemPrompt, cache, tools),
+    messages: toAnthropicMessages(messages),
+    tools: toAnthropicTools(tools, cache),
+    stream: true,
+  }, { signal: req.signal });
+
+  let text = '';
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let stopReason: string | undefined;
+  // Tool-use blocks by content index; input arrives as partial JSON
+  const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+  for await (const event of stream) {
+    switch (event.type) {
+      case 'message_start':
+        usage = anthropicUsage(event.message.usage);
+        break;
+
+      case 'content_block_start':
+        if (event.content_block.type === 'tool_use') {
+          const { id, name } = event.content_block;
+          toolBlocks.set(event.index, { id, name, json: '' });
+          yield { type: 'tool_call', index: event.index, id, name, argsDelta: '' };
+        }
+        break;
+
+      case 'content_block_delta':
+        if (event.delta.type === 'text_delta') {
+          text += event.delta.text;
+          yield { type: 'text', text: event.delta.text };
+        } else if (event.delta.type === 'input_json_delta') {
+          const block = toolBlocks.get(event.index);
+          if (block) block.json += event.delta.partial_json;
+          yield { type: 'tool_call', index: event.index, argsDelta: event.delta.partial_json };
+        }
+        break;
+
+      case 'message_delta':
+        usage.outputTokens = event.usage.output_tokens;
+        stopReason = event.delta.stop_reason ?? undefined;
+        break;
+    }
+  }
+
+  const toolCalls: ToolCall[] = Array.from(toolBlocks.values()).map(b => ({
+    id: b.id,
+    name: b.name,
+    input: b.json ? JSON.parse(b.json) : {},
+  }));
+
+  yield {
+    type: 'done',
+    response: {
+      content: text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage,
+      stopReason,
+    },
+  };
+}
+
+// ---- OpenAI-compatible adapter (OpenAI, Ollama, vLLM, ...) ---
+
+function toOpenAIMessages(messages: LLMMessage[], systemPrompt: string): unknown[] {
+  return [
+    { role: 'system', content: withoutBreakpoints(systemPrompt) },
     ...messages.map(m => ({
       role: m.role,
-      content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
+      content: typeof m.content !== 'string' ? JSON.stringify(m.content)
+        : m.role === 'system' ? withoutBreakpoints(m.content) : m.content,
       ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
       ...(m.name ? { name: m.name } : {}),
     })),
   ];
+}
 
-  const openaiTools = tools.length > 0 ? tools.map(t => ({
+function toOpenAITools(tools: ToolDefinition[]): unknown[] | undefined {
+  if (tools.length === 0) return undefined;
+  return tools.map(t => ({
     type: 'function' as const,
     function: { name: t.name, description: t.description, parameters: t.parameters },
-  })) : undefined;
+  }));
+}
+
+/** OpenAI caches long prompt prefixes by itself; it only reports the cached part */
+function withoutBreakpoints(text: string): string {
+  return text.split(CACHE_BREAKPOINT).join('\n\n');
+}
+
+/** prompt_tokens includes cached_tokens; split them out so each is priced at its own rate */
+function openAIUsage(usage: any): TokenUsage {
+  const cached: number = usage.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: usage.prompt_tokens - cached,
+    outputTokens: usage.completion_tokens,
+    ...(cached ? { cacheReadTokens: cached } : {}),
+  };
+}
+
+/** Header carrying the key, per the endpoint's auth style */
+function authHeaders(endpoint: LLMEndpoint, apiKey: string): Record<string, string> {
+  if (!apiKey) return {};
+  switch (endpoint.auth ?? 'bearer') {
+    case 'bearer': return { 'Authorization': `Bearer ${apiKey}` };
+    case 'x-api-key': return { 'x-api-key': apiKey };
+    case 'api-key': return { 'api-key': apiKey };
+    case 'none': return {};
+  }
+}
+
+async function postChatCompletion(
+  endpoint: LLMEndpoint,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const url = new URL(endpoint.baseUrl.replace(/\/+$/, '') + (endpoint.chatPath ?? '/v1/chat/completions'));
+  for (const [key, value] of Object.entries(endpoint.query ?? {})) url.searchParams.set(key, value);
 
-  const res = await fetch(`${baseUrl}/v1/chat/completions`, {
+  const res = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      ...authHeaders(endpoint, apiKey),
+      ...endpoint.headers,
     },
-    body: JSON.stringify({
-      model,
-      messages: openaiMessages,
-      tools: openaiTools,
-      max_tokens: 8192,
-    }),
+    body: JSON.stringify(body),
+    signal,
   });
 
   if (!res.ok) {
     const err = await res.text();
-    throw new Error(`OpenAI API error ${res.status}: ${err}`);
+    throw new LLMError(
+      `${endpoint.name} API error ${res.status}: ${err.slice(0, 1000)}`,
+      endpoint.name,
+      res.status,
+      parseRetryAfter(name => res.headers.get(name)),
+    );
   }
+  return res;
+}
+
+async function callOpenAICompatible(
+  { endpoint, apiKey, messages, tools, systemPrompt, model, signal }: LLMRequest,
+): Promise<LLMResponse> {
+  const res = await postChatCompletion(endpoint, apiKey, {
+    model,
+    messages: toOpenAIMessages(messages, systemPrompt),
+    tools: toOpenAITools(tools),
+    max_tokens: 8192,
+  }, signal);
 
   const data = await res.json() as any;
   const choice = data.choices?.[0];
@@ -142,29 +400,223 @@ async function callOpenAICompatible(
   return {
     content: msg?.content ?? '',
     toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-    usage: data.usage ? {
-      inputTokens: data.usage.prompt_tokens,
-      outputTokens: data.usage.completion_tokens,
-    } : undefined,
+    usage: data.usage ? openAIUsage(data.usage) : undefined,
     stopReason: choice?.finish_reason,
   };
 }
 
+async function* streamOpenAICompatible(
+  { endpoint, apiKey, messages, tools, systemPrompt, model, signal }: LLMRequest,
+): AsyncGenerator<LLMStreamChunk> {
+  const res = await postChatCompletion(endpoint, apiKey, {
+    model,
+    messages: toOpenAIMessages(messages, systemPrompt),
+    tools: toOpenAITools(tools),
+    max_tokens: 8192,
+    stream: true,
+    stream_options: { include_usage: true },
+  }, signal);
+
+  let text = '';
+  let usage: LLMResponse['usage'];
+  let stopReason: string | undefined;
+  // Tool calls by delta index; arguments arrive as string fragments
+  const calls = new Map<number, { id: string; name: string; args: string }>();
+
+  for await (const data of readServerSentEvents(res)) {
+    if (data.usage) {
+      usage = openAIUsage(data.usage);
+    }
+
+    const choice = data.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) stopReason = choice.finish_reason;
+
+    const delta = choice.delta ?? {};
+    if (delta.content) {
+      text += delta.content;
+      yield { type: 'text', text: delta.content };
+    }
+
+    for (const tc of delta.tool_calls ?? []) {
+      const index: number = tc.index ?? 0;
+      let call = calls.get(index);
+      if (!call) {
+        call = { id: tc.id ?? '', name: '', args: '' };
+        calls.set(index, call);
+      }
+      if (tc.id) call.id = tc.id;
+      if (tc.function?.name) call.name += tc.function.name;
+      if (tc.function?.arguments) call.args += tc.function.arguments;
+      yield {
+        type: 'tool_call',
+        index,
+        id: tc.id,
+        name: tc.function?.name,
+        argsDelta: tc.function?.arguments ?? '',
+      };
+    }
+  }
+
+  const toolCalls: ToolCall[] = Array.from(calls.values()).map(c => ({
+    id: c.id,
+    name: c.name,
+    input: JSON.parse(c.args || '{}'),
+  }));
+
+  yield {
+    type: 'done',
+    response: {
+      content: text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage,
+      stopReason,
+    },
+  };
+}
+
+/** Parse an SSE body into JSON payloads, stopping at `[DONE]` */
+async function* readServerSentEvents(res: Response): AsyncGenerator<any> {
+  if (!res.body) return;
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of res.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+      try {
+        yield JSON.parse(payload);
+      } catch {
+        log.debug(`Skipping malformed stream event: ${payload.slice(0, 100)}`);
+      }
+    }
+  }
+}
+
+/** POST /embeddings next to the chat path — OpenAI, Ollama, vLLM, Mistral, Gemini all serve it */
+async function embedOpenAICompatible(endpoint: LLMEndpoint, apiKey: string, model: string, texts: string[]): Promise<number[][]> {
+  const chatPath = endpoint.chatPath ?? '/v1/chat/completions';
+  const res = await postChatCompletion(
+    { ...endpoint, chatPath: chatPath.replace(/chat\/completions$/, 'embeddings') },
+    apiKey,
+    { model, input: texts },
+  );
+  const data = await res.json() as any;
+  return (data.data ?? [])
+    .sort((a: any, b: any) => a.index - b.index)
+    .map((d: any) => d.embedding as number[]);
+}
+
+registerLLMAdapter('anthropic', { call: callAnthropic, stream: streamAnthropic });
+registerLLMAdapter('openai', { call: callOpenAICompatible, stream: streamOpenAICompatible, embed: embedOpenAICompatible });
+
+// ---- Retry + failover ----------------------------------------
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` fires */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Exponential backoff with jitter, unless the server asked for a specific delay */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** Retry one endpoint on throttling, overload and network errors */
+async function withRetry<T>(req: LLMRequest, run: () => Promise<T>): Promise<T> {
+  const maxRetries = getSettings().llmMaxRetries;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      // Cancelled by the caller: surface the abort reason, never retry
+      req.signal?.throwIfAborted();
+      const llmErr = toLLMError(err, req.endpoint.name);
+      if (!llmErr) throw err;
+      if (!llmErr.retryable || attempt >= maxRetries) throw llmErr;
+
+      const delay = backoffDelay(attempt, llmErr.retryAfterMs);
+      // A long server-imposed wait is better spent on the next fallback
+      if (delay > RETRY_MAX_MS) throw llmErr;
+
+      log.warn(`${req.endpoint.name}/${req.model} failed (${llmErr.status ?? 'network'}) — retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+      await sleep(delay, req.signal);
+    }
+  }
+}
+
+/** Walk the fallback chain; each endpoint gets its own retries */
+async function withFailover<T>(
+  requests: LLMRequest[],
+  run: (req: LLMRequest) => Promise<T>,
+  fitMessages?: LLMCallOptions['fitMessages'],
+): Promise<T> {
+  for (let i = 0; ; i++) {
+    // Fitting may trim shared message objects, so only once a fallback is reached
+    const req = i > 0 && fitMessages
+      ? { ...requests[i], messages: fitMessages(requests[i].endpoint.name, requests[i].model) }
+      : requests[i];
+    try {
+      return await withRetry(req, () => run(req));
+    } catch (err) {
+      req.signal?.throwIfAborted();
+      const next = requests[i + 1];
+      // Our own bugs and malformed requests fail the same way everywhere
+      if (!next || !(err instanceof LLMError) || err.status === 400) throw err;
+      await recordLLMFailover(req, next, err);
+    }
+  }
+}
+
+async function recordLLMFailover(from: LLMRequest, to: LLMRequest, err: LLMError): Promise<void> {
+  const fromName = `${from.endpoint.name}/${from.model}`;
+  const toName = `${to.endpoint.name}/${to.model}`;
+  const reason = err.status ? `HTTP ${err.status}` : 'network error';
+
+  log.warn(`Failing over ${fromName} → ${toName} (${reason})`);
+  try {
+    await audit({ action: 'llm_failover', reason: `${fromName} → ${toName}: ${reason}`, result: err.message.slice(0, 500) });
+    await recordFailover(fromName, toName, reason);
+  } catch (recordErr) {
+    // Bookkeeping must never block the fallback call
+    log.error(`Failed to record failover: ${recordErr}`);
+  }
+}
+
 // ---- Unified interface with per-call overrides ---------------
 
-/**
- * Call an LLM with optional provider/model override.
- * The third argument can be either a system prompt string (backward compat)
- * or a ToolDefinition[] (in which case system prompt is extracted from messages).
- * The fourth argument is optional overrides for sub-agent routing.
- */
-export async function callLLM(
+/** Normalize the flexible (systemPrompt | options) call signature into the request chain */
+function resolveCall(
   messages: LLMMessage[],
   tools: ToolDefinition[],
   systemPromptOrOptions?: string | LLMCallOptions,
   options?: LLMCallOptions,
-): Promise<LLMResponse> {
-  // Handle flexible call signatures
+): { requests: LLMRequest[]; fitMessages?: LLMCallOptions['fitMessages'] } {
   let systemPrompt: string;
   let opts: LLMCallOptions;
 
@@ -178,32 +630,93 @@ export async function callLLM(
     opts = systemPromptOrOptions || {};
   }
 
-  const provider = opts.provider || llmConfig.provider;
-  const model = opts.model;
+  const chain = [{ provider: opts.provider || llmConfig.provider, model: opts.model }, ...(opts.fallbacks || [])];
+  const requests: LLMRequest[] = [];
 
-  log.info(`Calling ${provider}${model ? `/${model}` : ''} (${tools.length} tools)`);
+  for (const [i, link] of chain.entries()) {
+    // The primary must exist; a missing fallback is only worth a warning
+    if (i > 0 && !hasEndpoint(link.provider)) {
+      log.warn(`Ignoring fallback to unknown provider "${link.provider}"`);
+      continue;
+    }
+    const endpoint = getEndpoint(link.provider);
+    const model = link.model || endpoint.defaultModel;
+    if (requests.some(r => r.endpoint.name === endpoint.name && r.model === model)) continue;
+    requests.push({ endpoint, apiKey: resolveApiKey(endpoint), model, messages, tools, systemPrompt, signal: opts.signal });
+  }
 
-  switch (provider) {
-    case 'anthropic':
-      return callAnthropic(messages, tools, systemPrompt, model);
+  return { requests, fitMessages: opts.fitMessages };
+}
 
-    case 'openai':
-      return callOpenAICompatible(
-        messages, tools, systemPrompt,
-        'https://api.openai.com',
-        llmConfig.openaiApiKey,
-        model || llmConfig.openaiModel,
-      );
+/**
+ * Call an LLM with optional provider/model override.
+ * The third argument can be either a system prompt string (backward compat)
+ * or a ToolDefinition[] (in which case system prompt is extracted from messages).
+ * The fourth argument is optional overrides for sub-agent routing.
+ * The response names the provider/model that actually answered.
+ */
+export async function callLLM(
+  messages: LLMMessage[],
+  tools: ToolDefinition[],
+  systemPromptOrOptions?: string | LLMCallOptions,
+  options?: LLMCallOptions,
+): Promise<LLMResponse> {
+  const { requests, fitMessages } = resolveCall(messages, tools, systemPromptOrOptions, options);
 
-    case 'ollama':
-      return callOpenAICompatible(
-        messages, tools, systemPrompt,
-        llmConfig.ollamaBaseUrl,
-        '',
-        model || llmConfig.ollamaModel,
-      );
+  return withFailover(requests, async req => {
+    await acquireLLMSlot(req.endpoint.name, req.model, req.signal);
+    log.info(`Calling ${req.endpoint.name}/${req.model} (${tools.length} tools)`);
+    const response = await getLLMAdapter(req.endpoint.kind).call(req);
+    return { ...response, provider: req.endpoint.name, model: req.model };
+  }, fitMessages);
+}
+
+/**
+ * Streaming variant of callLLM — same arguments, yields text and
+ * tool-call deltas as they arrive. The last chunk is always
+ * `{ type: 'done' }` carrying the assembled LLMResponse.
+ * Retries and failover only happen before the first chunk; once
+ * output has been yielded, errors propagate to the caller.
+ */
+export async function* streamLLM(
+  messages: LLMMessage[],
+  tools: ToolDefinition[],
+  systemPromptOrOptions?: string | LLMCallOptions,
+  options?: LLMCallOptions,
+): AsyncGenerator<LLMStreamChunk> {
+  const { requests, fitMessages } = resolveCall(messages, tools, systemPromptOrOptions, options);
+
+  const { req, stream, first } = await withFailover(requests, async req => {
+    await acquireLLMSlot(req.endpoint.name, req.model, req.signal);
+    log.info(`Streaming ${req.endpoint.name}/${req.model} (${tools.length} tools)`);
+    const stream = getLLMAdapter(req.endpoint.kind).stream(req);
+    return { req, stream, first: await stream.next() };
+  }, fitMessages);
+
+  let next = first;
+  while (!next.done) {
+    const chunk = next.value;
+    yield chunk.type === 'done'
+      ? { type: 'done', response: { ...chunk.response, provider: req.endpoint.name, model: req.model } }
+      : chunk;
+    next = await stream.next();
+  }
+}
+
+/**
+ * Embed texts with a registry endpoint whose adapter supports it.
+ * One attempt, outside the chat rate limiter: embeddings are an
+ * optional boost, so callers fall back to keywords on failure
+ * instead of waiting out retries or taking a chat slot.
+ */
+export async function embedTexts(texts: string[], provider: LLMProvider, model: string): Promise<number[][]> {
+  const endpoint = getEndpoint(provider);
+  const adapter = getLLMAdapter(endpoint.kind);
+  if (!adapter.embed) throw new Error(`Provider "${provider}" (${endpoint.kind}) does not support embeddings`);
 
-    default:
-      throw new Error(`Unknown LLM provider: ${provider}`);
+  try {
+    return await adapter.embed(endpoint, resolveApiKey(endpoint), model, texts);
+  } catch (err) {
+    throw toLLMError(err, endpoint.name) ?? err;
   }
 }
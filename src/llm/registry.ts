@@ -0,0 +1,244 @@
+// ============================================================
+// Provider Registry — Named LLM endpoints and wire adapters
+// Built-ins come from env; extra endpoints (vLLM, LM Studio,
+// Azure OpenAI, ...) and routes from workspace/providers.json.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { agentConfig, llmConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import type {
+  LLMEndpoint, LLMMessage, LLMResponse, LLMStreamChunk, ModelPrice, ModelRoute, ToolDefinition,
+} from '../types.js';
+
+const log = createLogger('Providers');
+
+/** Everything an adapter needs to make one request */
+export interface LLMRequest {
+  endpoint: LLMEndpoint;
+  apiKey: string;
+  model: string;
+  messages: LLMMessage[];
+  tools: ToolDefinition[];
+  systemPrompt: string;
+  /** Aborts the request when the calling task is cancelled */
+  signal?: AbortSignal;
+}
+
+/** A wire protocol implementation, keyed by LLMEndpoint.kind */
+export interface LLMAdapter {
+  call(req: LLMRequest): Promise<LLMResponse>;
+  stream(req: LLMRequest): AsyncGenerator<LLMStreamChunk>;
+  /** Optional: one vector per input text, in order */
+  embed?(endpoint: LLMEndpoint, apiKey: string, model: string, texts: string[]): Promise<number[][]>;
+}
+
+interface ProvidersFile {
+  endpoints?: LLMEndpoint[];
+  routes?: Array<Partial<ModelRoute> & Pick<ModelRoute, 'tier' | 'provider'> & {
+    /** Older files priced routes directly; folded into the endpoint's pricing */
+    costPer1kInput?: number;
+    costPer1kOutput?: number;
+  }>;
+}
+
+const adapters = new Map<string, LLMAdapter>();
+const endpoints = new Map<string, LLMEndpoint>();
+let customRoutes: ModelRoute[] = [];
+
+const providersFile = () => path.join(agentConfig.workspace, 'providers.json');
+
+// ---- Adapters ------------------------------------------------
+
+export function registerLLMAdapter(kind: string, adapter: LLMAdapter): void {
+  adapters.set(kind, adapter);
+}
+
+export function getLLMAdapter(kind: string): LLMAdapter {
+  const adapter = adapters.get(kind);
+  if (!adapter) throw new Error(`No LLM adapter registered for kind "${kind}"`);
+  return adapter;
+}
+
+// ---- Endpoints -----------------------------------------------
+
+export function registerEndpoint(endpoint: LLMEndpoint): void {
+  if (!endpoint.name || !endpoint.kind || !endpoint.baseUrl) {
+    throw new Error(`Invalid LLM endpoint: name, kind and baseUrl are required`);
+  }
+  if (!servesModel(endpoint, endpoint.defaultModel)) {
+    throw new Error(`Invalid LLM endpoint: defaultModel "${endpoint.defaultModel}" is not in its models list`);
+  }
+  const auth = endpoint.kind === 'anthropic' ? 'x-api-key' : 'bearer';
+  endpoints.set(endpoint.name, { auth, ...endpoint });
+}
+
+export function getEndpoint(name: string): LLMEndpoint {
+  const endpoint = endpoints.get(name);
+  if (!endpoint) throw new Error(`Unknown LLM provider: ${name}`);
+  return endpoint;
+}
+
+export function hasEndpoint(name: string): boolean {
+  return endpoints.has(name);
+}
+
+/** Endpoint list for display — never includes the key itself */
+export function listEndpoints(): Array<Omit<LLMEndpoint, 'apiKey'> & { hasKey: boolean }> {
+  return Array.from(endpoints.values()).map(({ apiKey, ...rest }) => ({
+    ...rest,
+    hasKey: !!(apiKey || (rest.apiKeyEnv && process.env[rest.apiKeyEnv])),
+  }));
+}
+
+/** Whether prompts sent to an endpoint stay on this machine or network */
+export function isLocalEndpoint(name: string): boolean {
+  return !!endpoints.get(name)?.local;
+}
+
+/** Whether an endpoint serves a model — any model, unless it declares a `models` list */
+export function servesModel(endpoint: LLMEndpoint, model: string): boolean {
+  return !endpoint.models?.length || endpoint.models.includes(model);
+}
+
+export function resolveApiKey(endpoint: LLMEndpoint): string {
+  if (endpoint.apiKeyEnv) return process.env[endpoint.apiKeyEnv] ?? '';
+  return endpoint.apiKey ?? '';
+}
+
+/** An endpoint's own per-model prices, if providers.json declares any (see llm/pricing.ts) */
+export function getEndpointPricing(name: string): Record<string, ModelPrice> | undefined {
+  return endpoints.get(name)?.pricing;
+}
+
+/** Routes declared in providers.json; they take precedence over built-in tiers */
+export function getCustomRoutes(): ModelRoute[] {
+  return [...customRoutes];
+}
+
+// ---- Init ----------------------------------------------------
+
+function registerBuiltins(): void {
+  registerEndpoint({
+    name: 'anthropic',
+    kind: 'anthropic',
+    baseUrl: 'https://api.anthropic.com',
+    apiKey: llmConfig.anthropicApiKey,
+    defaultModel: llmConfig.anthropicModel,
+    contextWindow: 200_000,
+  });
+
+  registerEndpoint({
+    name: 'openai',
+    kind: 'openai',
+    baseUrl: 'https://api.openai.com',
+    apiKey: llmConfig.openaiApiKey,
+    defaultModel: llmConfig.openaiModel,
+    contextWindow: 128_000,
+  });
+
+  registerEndpoint({
+    name: 'ollama',
+    kind: 'openai',
+    baseUrl: llmConfig.ollamaBaseUrl,
+    auth: 'none',
+    defaultModel: llmConfig.ollamaModel,
+    contextWindow: 32_768,
+    local: true,
+  });
+
+  // Gemini and Mistral both expose OpenAI-compatible chat endpoints
+  if (llmConfig.geminiApiKey) {
+    registerEndpoint({
+      name: 'gemini',
+      kind: 'openai',
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+      chatPath: '/chat/completions',
+      apiKey: llmConfig.geminiApiKey,
+      defaultModel: llmConfig.geminiModel,
+      contextWindow: 1_000_000,
+    });
+  }
+
+  if (llmConfig.mistralApiKey) {
+    registerEndpoint({
+      name: 'mistral',
+      kind: 'openai',
+      baseUrl: 'https://api.mistral.ai',
+      apiKey: llmConfig.mistralApiKey,
+      defaultModel: llmConfig.mistralModel,
+      contextWindow: 128_000,
+    });
+  }
+}
+
+export async function initProviderRegistry(): Promise<void> {
+  endpoints.clear();
+  customRoutes = [];
+  registerBuiltins();
+
+  let file: ProvidersFile = {};
+  try {
+    file = JSON.parse(await fs.readFile(providersFile(), 'utf-8'));
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log.warn(`Could not read providers.json: ${err.message}`);
+  }
+
+  for (const endpoint of file.endpoints ?? []) {
+    try {
+      registerEndpoint(endpoint);
+    } catch (err: any) {
+      log.warn(`Skipping endpoint "${endpoint.name}": ${err.message}`);
+    }
+  }
+
+  for (const route of file.routes ?? []) {
+    const endpoint = endpoints.get(route.provider);
+    if (!endpoint) {
+      log.warn(`Skipping ${route.tier} route: unknown provider "${route.provider}"`);
+      continue;
+    }
+    const model = route.model || endpoint.defaultModel;
+    if (!servesModel(endpoint, model)) {
+      log.warn(`Skipping ${route.tier} route: "${endpoint.name}" does not serve model "${model}"`);
+      continue;
+    }
+    if (route.costPer1kInput !== undefined || route.costPer1kOutput !== undefined) {
+      endpoint.pricing = {
+        ...endpoint.pricing,
+        [model]: { input: route.costPer1kInput ?? 0, output: route.costPer1kOutput ?? 0 },
+      };
+    }
+    customRoutes.push({
+      tier: route.tier,
+      provider: endpoint.name,
+      model,
+      maxTokens: route.maxTokens ?? 8192,
+      fallbacks: route.fallbacks?.filter(f => {
+        const target = endpoints.get(f.provider);
+        if (target && servesModel(target, f.model)) return true;
+        log.warn(`Dropping ${route.tier} fallback ${f.provider}/${f.model}: no endpoint serves it`);
+        return false;
+      }),
+      contextWindow: route.contextWindow,
+      allowCloudFallback: route.allowCloudFallback,
+    });
+  }
+
+  if (!endpoints.has(llmConfig.provider)) {
+    throw new Error(`LLM_PROVIDER "${llmConfig.provider}" is not a registered endpoint (have: ${[...endpoints.keys()].join(', ')})`);
+  }
+  // Keep the main endpoint and agent config agreeing on the default model:
+  // LLM_MODEL wins, otherwise providers.json endpoints supply their own
+  const main = endpoints.get(llmConfig.provider)!;
+  if (llmConfig.model) {
+    if (!servesModel(main, llmConfig.model)) {
+      throw new Error(`LLM_MODEL "${llmConfig.model}" is not served by "${main.name}" (models: ${main.models!.join(', ')})`);
+    }
+    main.defaultModel = llmConfig.model;
+  }
+  agentConfig.model = main.defaultModel;
+
+  log.info(`${endpoints.size} LLM endpoints: ${[...endpoints.keys()].join(', ')}`);
+}
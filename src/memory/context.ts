@@ -0,0 +1,157 @@
+// ============================================================
+// Memory Context — Per-turn retrieval of relevant memories
+// for the system prompt, within a token budget. Each selection
+// is logged so /why and the dashboard can explain it.
+// ============================================================
+
+import { getSettings } from '../security/settings.js';
+import { estimateTokens } from '../utils/tokens.js';
+import { searchMemoryScored, getAllMemories, type ScoredMemory } from './store.js';
+import type { LLMMessage, MemoryEntry } from '../types.js';
+
+/** Why a memory made it into the prompt */
+export interface InjectedMemory {
+  id: string;
+  type: MemoryEntry['type'];
+  content: string;
+  importance: number;
+  tokens: number;
+  reason: 'pinned' | 'relevant';
+  score?: number;
+  semantic?: number;
+  keyword?: number;
+}
+
+export interface MemoryInjection {
+  at: string;
+  /** channel/userId, or the heartbeat/trigger that built the prompt */
+  key: string;
+  query: string;
+  budget: number;
+  usedTokens: number;
+  injected: InjectedMemory[];
+  /** Relevant matches left out because the budget ran out */
+  overBudget: number;
+}
+
+/** Memories at or above this importance are always candidates */
+const PINNED_IMPORTANCE = 9;
+const RECENT_TURNS_IN_QUERY = 4;
+const MAX_QUERY_CHARS = 2000;
+const MAX_CANDIDATES = 40;
+const MAX_LOG_PER_KEY = 20;
+
+const injectionLog = new Map<string, MemoryInjection[]>();
+
+/** Incoming message plus the last few text turns, newest last */
+export function buildMemoryQuery(message: string, recent: LLMMessage[] = []): string {
+  const turns = recent
+    .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    .slice(-RECENT_TURNS_IN_QUERY)
+    .map(m => m.content as string);
+  return [...turns, message].join('\n').slice(-MAX_QUERY_CHARS);
+}
+
+/**
+ * Pick memories for the system prompt: pinned (importance ≥ 9) first,
+ * then hybrid-search hits for the query, until the token budget
+ * (memoryTokenBudget setting) is used up.
+ */
+export async function selectMemoriesForPrompt(key: string, query: string): Promise<{ text: string; injection: MemoryInjection }> {
+  const budget = getSettings().memoryTokenBudget;
+  const [hits, all] = await Promise.all([
+    searchMemoryScored(query, MAX_CANDIDATES),
+    getAllMemories(),
+  ]);
+
+  const candidates: Array<{ entry: MemoryEntry; reason: InjectedMemory['reason']; hit?: ScoredMemory }> = [
+    ...all.filter(m => m.importance >= PINNED_IMPORTANCE).map(entry => ({ entry, reason: 'pinned' as const })),
+    ...hits.map(hit => ({ entry: hit.entry, reason: 'relevant' as const, hit })),
+  ];
+
+  const injected: InjectedMemory[] = [];
+  const seen = new Set<string>();
+  let usedTokens = 0;
+  let overBudget = 0;
+
+  for (const { entry, reason, hit } of candidates) {
+    if (seen.has(entry.id)) continue;
+    seen.add(entry.id);
+
+    const line = formatMemory(entry);
+    const tokens = estimateTokens(line) + 1;
+    if (usedTokens + tokens > budget) {
+      overBudget++;
+      continue;
+    }
+    usedTokens += tokens;
+    injected.push({
+      id: entry.id,
+      type: entry.type,
+      content: entry.content,
+      importance: entry.importance,
+      tokens,
+      reason,
+      score: hit?.score,
+      semantic: hit?.semantic,
+      keyword: hit?.keyword,
+    });
+  }
+
+  const injection: MemoryInjection = {
+    at: new Date().toISOString(),
+    key,
+    query,
+    budget,
+    usedTokens,
+    injected,
+    overBudget,
+  };
+  recordInjection(injection);
+
+  const text = injected.length > 0
+    ? injected.map(m => formatMemory(m)).join('\n')
+    : all.length > 0 ? 'No stored memories look relevant to this message.' : 'No memories stored yet.';
+  return { text, injection };
+}
+
+function formatMemory(m: { type: string; content: string }): string {
+  return `- [${m.type}] ${m.content}`;
+}
+
+// ---- Injection log -------------------------------------------
+
+function recordInjection(injection: MemoryInjection): void {
+  const list = injectionLog.get(injection.key) ?? [];
+  list.push(injection);
+  if (list.length > MAX_LOG_PER_KEY) list.shift();
+  injectionLog.set(injection.key, list);
+}
+
+export function getLastInjection(key: string): MemoryInjection | undefined {
+  return injectionLog.get(key)?.at(-1);
+}
+
+/** Recent injections, newest first, optionally for one key */
+export function getMemoryInjections(key?: string, limit = 50): MemoryInjection[] {
+  const lists = key ? [injectionLog.get(key) ?? []] : Array.from(injectionLog.values());
+  return lists.flat()
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, limit);
+}
+
+/** Chat-friendly explanation for /why */
+export function formatInjectionForChat(injection: MemoryInjection): string {
+  const lines = [
+    `🧠 Memory used for your last message (${injection.usedTokens}/${injection.budget} tokens):`,
+  ];
+  if (injection.injected.length === 0) lines.push('No memories were injected.');
+  for (const m of injection.injected) {
+    const why = m.reason === 'pinned'
+      ? `pinned, importance ${m.importance}`
+      : `score ${m.score?.toFixed(2)} — semantic ${m.semantic?.toFixed(2)}, keywords ${Math.round((m.keyword ?? 0) * 100)}%, importance ${m.importance}`;
+    lines.push(`• [${m.type}] ${m.content.slice(0, 120)}${m.content.length > 120 ? '…' : ''}\n  ↳ ${why}`);
+  }
+  if (injection.overBudget > 0) lines.push(`(${injection.overBudget} more match(es) left out by the token budget)`);
+  return lines.join('\n');
+}
@@ -0,0 +1,168 @@
+// ============================================================
+// Memory Embeddings — Local vector index beside the facts
+// Stored as memory/facts/.embeddings.json, keyed by file name
+// and refreshed incrementally (mtime, then content hash) so
+// hand-edited fact files are re-embedded on the next search.
+// ============================================================
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { agentConfig, memoryConfig } from '../config.js';
+import { embedTexts } from '../llm/provider.js';
+import { hasEndpoint } from '../llm/registry.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('Embeddings');
+
+/** A fact file as the store sees it — text is what gets embedded */
+export interface IndexableFile {
+  file: string;
+  text: string;
+  mtimeMs: number;
+}
+
+interface IndexEntry {
+  mtimeMs: number;
+  hash: string;
+  vector: number[];
+}
+
+interface EmbeddingIndex {
+  provider: string;
+  model: string;
+  entries: Record<string, IndexEntry>;
+}
+
+const EMBED_BATCH_SIZE = 32;
+/** After a failure (e.g. Ollama not running), stay keyword-only for a while */
+const FAILURE_COOLDOWN_MS = 5 * 60_000;
+
+const indexFile = () => path.join(agentConfig.workspace, 'memory', 'facts', '.embeddings.json');
+
+let index: EmbeddingIndex | null = null;
+let unavailableUntil = 0;
+/** Syncs run one at a time so concurrent searches don't embed twice */
+let syncChain: Promise<unknown> = Promise.resolve();
+
+function enabled(): boolean {
+  return memoryConfig.embeddingProvider !== 'none'
+    && hasEndpoint(memoryConfig.embeddingProvider)
+    && Date.now() >= unavailableUntil;
+}
+
+function markUnavailable(err: unknown): void {
+  unavailableUntil = Date.now() + FAILURE_COOLDOWN_MS;
+  log.warn(`Embeddings unavailable (${memoryConfig.embeddingProvider}/${memoryConfig.embeddingModel}): ${err instanceof Error ? err.message : err} — keyword search only for ${FAILURE_COOLDOWN_MS / 60_000} min`);
+}
+
+const hashText = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+// ---- Index persistence ---------------------------------------
+
+async function loadIndex(): Promise<EmbeddingIndex> {
+  if (index) return index;
+
+  const { embeddingProvider: provider, embeddingModel: model } = memoryConfig;
+  try {
+    const saved = JSON.parse(await fs.readFile(indexFile(), 'utf-8')) as EmbeddingIndex;
+    // Vectors from a different model aren't comparable — start over
+    index = saved.provider === provider && saved.model === model
+      ? saved
+      : { provider, model, entries: {} };
+  } catch {
+    index = { provider, model, entries: {} };
+  }
+  return index;
+}
+
+async function saveIndex(): Promise<void> {
+  if (!index) return;
+  await fs.writeFile(indexFile(), JSON.stringify(index));
+}
+
+// ---- Sync + query --------------------------------------------
+
+/**
+ * Bring the index up to date with the given fact files and return
+ * their vectors by file name, or null when embeddings are unavailable.
+ */
+export function syncEmbeddingIndex(files: IndexableFile[]): Promise<Map<string, number[]> | null> {
+  const run = syncChain.then(() => doSync(files));
+  syncChain = run.catch(() => undefined);
+  return run;
+}
+
+async function doSync(files: IndexableFile[]): Promise<Map<string, number[]> | null> {
+  if (!enabled()) return null;
+  const idx = await loadIndex();
+  let changed = false;
+
+  // Drop entries for deleted files
+  const present = new Set(files.map(f => f.file));
+  for (const file of Object.keys(idx.entries)) {
+    if (!present.has(file)) {
+      delete idx.entries[file];
+      changed = true;
+    }
+  }
+
+  // mtime is the cheap check; the hash avoids re-embedding on a touch
+  const stale: Array<IndexableFile & { hash: string }> = [];
+  for (const f of files) {
+    const entry = idx.entries[f.file];
+    if (entry && entry.mtimeMs === f.mtimeMs) continue;
+    const hash = hashText(f.text);
+    if (entry && entry.hash === hash) {
+      entry.mtimeMs = f.mtimeMs;
+      changed = true;
+      continue;
+    }
+    stale.push({ ...f, hash });
+  }
+
+  try {
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await embedTexts(batch.map(f => f.text), memoryConfig.embeddingProvider, memoryConfig.embeddingModel);
+      batch.forEach((f, j) => {
+        if (!vectors[j]) return;
+        idx.entries[f.file] = { mtimeMs: f.mtimeMs, hash: f.hash, vector: vectors[j] };
+        changed = true;
+      });
+    }
+    if (stale.length > 0) log.info(`Embedded ${stale.length} memory file(s)`);
+  } catch (err) {
+    markUnavailable(err);
+    if (changed) await saveIndex();
+    return null;
+  }
+
+  if (changed) await saveIndex();
+  return new Map(files.filter(f => idx.entries[f.file]).map(f => [f.file, idx.entries[f.file].vector]));
+}
+
+/** Embed a search query; null when embeddings are unavailable */
+export async function embedQuery(query: string): Promise<number[] | null> {
+  if (!enabled()) return null;
+  try {
+    const [vector] = await embedTexts([query], memoryConfig.embeddingProvider, memoryConfig.embeddingModel);
+    return vector ?? null;
+  } catch (err) {
+    markUnavailable(err);
+    return null;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -6,8 +6,16 @@ import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuid } from 'uuid';
 import { agentConfig } from '../config.js';
+import { callLLM } from '../llm/provider.js';
+import { getRoute, getMainRoute, resolveRoute } from '../orchestrator/router.js';
+import { getSettings } from '../security/settings.js';
+import { checkBudget, trackUsage, type UsageTags } from '../tasks/costs.js';
 import { createLogger } from '../utils/logger.js';
-import type { MemoryEntry, ConversationThread, LLMMessage, ChannelType, Id } from '../types.js';
+import { estimateMessageTokens, estimateMessagesTokens } from '../utils/tokens.js';
+import { syncEmbeddingIndex, embedQuery, cosineSimilarity } from './embeddings.js';
+import type {
+  MemoryEntry, ConversationThread, LLMMessage, ChannelType, Id, ThreadSummary,
+} from '../types.js';
 
 const log = createLogger('Memory');
 
@@ -60,34 +68,208 @@ export async function saveThread(thread: ConversationThread): Promise<void> {
     `${thread.channel}-${thread.userId}.json`,
   );
 
-  // Keep context window manageable: retain last 100 messages
-  if (thread.messages.length > 100) {
-    const trimmed = thread.messages.slice(-80);
-    thread.summary = await summarizeMessages(thread.messages.slice(0, -80), thread.summary);
-    thread.messages = trimmed;
-  }
+  await compactThread(thread);
 
   thread.updatedAt = new Date();
   await fs.writeFile(threadFile, JSON.stringify(thread, null, 2));
   log.debug(`Saved thread ${thread.id} (${thread.messages.length} messages)`);
 }
 
+// ---- Thread compaction ---------------------------------------
+
+/** Share of the threshold kept verbatim after a compaction */
+const KEEP_RECENT_FRACTION = 0.4;
+/** Per-message cap when rendering the transcript for the summarizer */
+const TRANSCRIPT_MESSAGE_CHARS = 1500;
+/** Facts this similar to an existing memory are not saved again */
+const DUPLICATE_FACT_SIMILARITY = 0.9;
+/** Closest memories compared by text when vetting a summary fact */
+const DUPLICATE_FACT_CANDIDATES = 5;
+
+interface SummaryResult extends Omit<ThreadSummary, 'compactions' | 'updatedAt'> {
+  facts: Array<{ content: string; type?: MemoryEntry['type']; tags?: string[]; importance?: number }>;
+}
+
+/**
+ * Once a thread's estimated size passes threadSummaryTokenThreshold,
+ * fold the oldest messages into the rolling summary, keeping roughly
+ * the newest 40% verbatim. Facts found on the way go to long-term memory.
+ */
+async function compactThread(thread: ConversationThread): Promise<void> {
+  const threshold = getSettings().threadSummaryTokenThreshold;
+  if (estimateMessagesTokens(thread.messages) <= threshold) return;
+
+  const split = findCompactionSplit(thread.messages, threshold * KEEP_RECENT_FRACTION);
+  if (split <= 0) return;
+
+  const compacted = thread.messages.slice(0, split);
+  const result = await summarizeMessages(
+    compacted,
+    thread.summaryDetails ?? legacySummary(thread.summary),
+    { source: 'memory', channel: thread.channel, userId: thread.userId },
+  );
+
+  thread.summaryDetails = {
+    summary: result.summary,
+    decisions: result.decisions,
+    openQuestions: result.openQuestions,
+    compactions: (thread.summaryDetails?.compactions ?? 0) + 1,
+    updatedAt: new Date(),
+  };
+  thread.summary = result.summary;
+  thread.messages = thread.messages.slice(split);
+  log.info(`Compacted ${compacted.length} messages of thread ${thread.id} (compaction #${thread.summaryDetails.compactions})`);
+
+  await promoteFacts(result.facts, thread);
+}
+
+/**
+ * Index of the first message to keep: walk back from the end until
+ * keepTokens is spent, then forward to the next plain user message so
+ * no tool_use is separated from its tool_result.
+ */
+function findCompactionSplit(messages: LLMMessage[], keepTokens: number): number {
+  let kept = 0;
+  let split = messages.length;
+  while (split > 0 && kept + estimateMessageTokens(messages[split - 1]) <= keepTokens) {
+    split--;
+    kept += estimateMessageTokens(messages[split]);
+  }
+  const isTurnStart = (m: LLMMessage) => m.role === 'user' && typeof m.content === 'string';
+  while (split < messages.length && !isTurnStart(messages[split])) split++;
+
+  // Always keep the latest turn, however large
+  if (split === messages.length) {
+    split = messages.length - 1;
+    while (split > 0 && !isTurnStart(messages[split])) split--;
+  }
+  return split;
+}
+
+/** Threads saved before structured summaries carry just a string */
+function legacySummary(summary?: string): ThreadSummary | undefined {
+  if (!summary) return undefined;
+  return { summary, decisions: [], openQuestions: [], compactions: 1, updatedAt: new Date() };
+}
+
 async function summarizeMessages(
   messages: LLMMessage[],
-  existingSummary?: string,
-): Promise<string> {
-  // Simple extractive summary — in production, you'd call the LLM here
+  previous: ThreadSummary | undefined,
+  tags: UsageTags,
+): Promise<SummaryResult> {
+  // Compaction also runs after a turn was refused for budget — never spend past a cap
+  const block = checkBudget({ channel: tags.channel, userId: tags.userId });
+  if (block) {
+    log.info(`LLM summary skipped, using extractive fallback: ${block.message}`);
+    return extractiveSummary(messages, previous);
+  }
+
+  const route = getRoute('fast') ?? getMainRoute();
+  const previousBlock = previous
+    ? `Summary so far (merge it into your new summary — do not drop earlier context):\n${JSON.stringify({
+        summary: previous.summary, decisions: previous.decisions, openQuestions: previous.openQuestions,
+      }, null, 2)}\n\n`
+    : '';
+
+  try {
+    const response = await callLLM([
+      {
+        role: 'system',
+        content: 'You compress conversation history for an AI assistant that will continue the conversation. Keep what the assistant needs later: what the user wants, what was done and found (including tool results), conclusions, and commitments. Respond with ONLY a JSON object.',
+      },
+      {
+        role: 'user',
+        content: `${previousBlock}Conversation to fold in:\n${renderTranscript(messages)}\n\nRespond with JSON:\n{\n  "summary": "narrative summary, max ~300 words",\n  "decisions": ["decisions made or agreed"],\n  "openQuestions": ["unresolved questions or pending follow-ups"],\n  "facts": [{ "content": "durable fact about the user or their world", "type": "fact|preference|note", "tags": ["..."], "importance": 1-10 }]\n}\nOnly include facts worth remembering beyond this conversation; use [] when there are none.`,
+      },
+    ], [], { provider: route.provider, model: route.model, fallbacks: route.fallbacks });
+
+    if (response.usage) {
+      const used = resolveRoute(route, response.provider, response.model);
+      await trackUsage(used.provider, used.model, response.usage, tags);
+    }
+
+    const json = response.content.match(/\{[\s\S]*\}/);
+    if (!json) throw new Error('No JSON in summary response');
+    const parsed = JSON.parse(json[0]);
+    return {
+      summary: String(parsed.summary || '').slice(0, 4000),
+      decisions: toStringList(parsed.decisions),
+      openQuestions: toStringList(parsed.openQuestions),
+      facts: Array.isArray(parsed.facts) ? parsed.facts.filter((f: any) => typeof f?.content === 'string') : [],
+    };
+  } catch (err) {
+    log.warn(`LLM summary failed, using extractive fallback: ${err instanceof Error ? err.message : err}`);
+    return extractiveSummary(messages, previous);
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).filter(Boolean).slice(0, 20) : [];
+}
+
+/** Plain-text transcript including tool calls and (truncated) results */
+function renderTranscript(messages: LLMMessage[]): string {
+  return messages.map(m => {
+    let text: string;
+    if (typeof m.content === 'string') {
+      text = m.content;
+    } else {
+      text = m.content.map((block: any) => {
+        if (block.type === 'text') return block.text;
+        if (block.type === 'tool_use') return `[called ${block.name ?? block.tool_name}(${JSON.stringify(block.input).slice(0, 300)})]`;
+        return `[${block.type}]`;
+      }).join(' ');
+    }
+    if (text.length > TRANSCRIPT_MESSAGE_CHARS) text = `${text.slice(0, TRANSCRIPT_MESSAGE_CHARS)}…`;
+    return `${m.role.toUpperCase()}: ${text}`;
+  }).join('\n\n');
+}
+
+/** No LLM available — keep the recent user topics so nothing is lost outright */
+function extractiveSummary(messages: LLMMessage[], previous?: ThreadSummary): SummaryResult {
   const userMessages = messages
     .filter(m => m.role === 'user')
     .map(m => typeof m.content === 'string' ? m.content : '[complex content]')
     .slice(-10);
 
   const summary = [
-    existingSummary ? `Previous context: ${existingSummary}` : '',
+    previous ? `Previous context: ${previous.summary}` : '',
     `Recent topics: ${userMessages.join(' | ')}`,
   ].filter(Boolean).join('\n');
 
-  return summary.slice(0, 2000);
+  return {
+    summary: summary.slice(0, 2000),
+    decisions: previous?.decisions ?? [],
+    openQuestions: previous?.openQuestions ?? [],
+    facts: [],
+  };
+}
+
+/** Save summary facts to long-term memory, skipping near-duplicates */
+async function promoteFacts(facts: SummaryResult['facts'], thread: ConversationThread): Promise<void> {
+  for (const fact of facts.slice(0, 10)) {
+    try {
+      // Similarity needs embeddings; the text check also works keyword-only
+      const candidates = await searchMemoryScored(fact.content, DUPLICATE_FACT_CANDIDATES);
+      const text = normalizeFactText(fact.content);
+      if (candidates.some(c => c.semantic >= DUPLICATE_FACT_SIMILARITY || normalizeFactText(c.entry.content) === text)) continue;
+
+      await saveFact({
+        type: fact.type && ['fact', 'preference', 'note'].includes(fact.type) ? fact.type : 'fact',
+        content: fact.content,
+        tags: [...(Array.isArray(fact.tags) ? fact.tags.map(String) : []), 'from-summary'],
+        importance: Math.min(10, Math.max(1, Number(fact.importance) || 5)),
+        source: { channel: thread.channel, userId: thread.userId },
+      });
+    } catch (err) {
+      log.warn(`Could not save summary fact: ${err}`);
+    }
+  }
+}
+
+/** Case, punctuation and spacing don't make a fact new */
+function normalizeFactText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
 }
 
 // ---- Facts / Long-term Memory --------------------------------
@@ -121,52 +303,105 @@ export async function saveFact(fact: Omit<MemoryEntry, 'id' | 'createdAt' | 'upd
   return entry;
 }
 
-export async function searchMemory(query: string, limit = 10): Promise<MemoryEntry[]> {
+/** A search hit with its score broken down by signal */
+export interface ScoredMemory {
+  entry: MemoryEntry;
+  score: number;
+  semantic: number;   // cosine similarity, 0 when embeddings are unavailable
+  keyword: number;    // fraction of query terms present
+}
+
+/** Hybrid ranking weights; keyword takes the semantic share when there are no vectors */
+const SEARCH_WEIGHTS = { semantic: 0.6, keyword: 0.25, importance: 0.1, recency: 0.05 };
+const RECENCY_HALF_LIFE_DAYS = 30;
+/** Below this similarity a hit needs at least one keyword match */
+const MIN_SEMANTIC_SCORE = 0.35;
+
+interface FactFile {
+  file: string;
+  entry: MemoryEntry;
+  mtimeMs: number;
+}
+
+async function loadFactFiles(): Promise<FactFile[]> {
   await ensureDirs();
-  const entries: MemoryEntry[] = [];
+  const facts: FactFile[] = [];
 
   const files = await fs.readdir(factsDir());
   for (const file of files) {
     if (!file.endsWith('.md')) continue;
     try {
-      const raw = await fs.readFile(path.join(factsDir(), file), 'utf-8');
+      const filePath = path.join(factsDir(), file);
+      const [raw, stat] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
       const entry = parseMemoryFile(raw, file);
-      if (entry) entries.push(entry);
+      // Hand edits count as updates for recency
+      if (entry) facts.push({ file, entry: { ...entry, updatedAt: stat.mtime }, mtimeMs: stat.mtimeMs });
     } catch {
       continue;
     }
   }
+  return facts;
+}
 
-  // Simple keyword matching — in production, use embeddings or a vector store
-  const queryTerms = query.toLowerCase().split(/\s+/);
-  const scored = entries.map(e => {
-    const text = `${e.content} ${e.tags.join(' ')}`.toLowerCase();
-    const score = queryTerms.reduce((s, term) => s + (text.includes(term) ? 1 : 0), 0);
-    return { entry: e, score: score + e.importance * 0.1 };
+const embeddingText = (e: MemoryEntry) => `${e.content}\n\nTags: ${e.tags.join(', ')}`;
+
+/**
+ * Hybrid search: cosine similarity against the local embedding index,
+ * plus keyword overlap, importance and recency. Falls back to keywords
+ * alone when no embedding provider is reachable.
+ */
+export async function searchMemoryScored(query: string, limit = 10): Promise<ScoredMemory[]> {
+  const facts = await loadFactFiles();
+  if (facts.length === 0) return [];
+
+  const [vectors, queryVector] = await Promise.all([
+    syncEmbeddingIndex(facts.map(f => ({ file: f.file, text: embeddingText(f.entry), mtimeMs: f.mtimeMs }))),
+    embedQuery(query),
+  ]);
+  const semanticOn = !!(vectors && queryVector);
+
+  const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const now = Date.now();
+
+  const scored = facts.map(({ file, entry }) => {
+    const text = `${entry.content} ${entry.tags.join(' ')}`.toLowerCase();
+    const keyword = queryTerms.length
+      ? queryTerms.filter(term => text.includes(term)).length / queryTerms.length
+      : 0;
+    const vector = vectors?.get(file);
+    const semantic = semanticOn && vector ? Math.max(0, cosineSimilarity(queryVector!, vector)) : 0;
+    const ageDays = Math.max(0, now - entry.updatedAt.getTime()) / 86_400_000;
+    const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+    const score = semanticOn
+      ? semantic * SEARCH_WEIGHTS.semantic + keyword * SEARCH_WEIGHTS.keyword
+      : keyword * (SEARCH_WEIGHTS.semantic + SEARCH_WEIGHTS.keyword);
+
+    return {
+      entry,
+      semantic,
+      keyword,
+      relevant: keyword > 0 || semantic >= MIN_SEMANTIC_SCORE,
+      score: score
+        + (entry.importance / 10) * SEARCH_WEIGHTS.importance
+        + recency * SEARCH_WEIGHTS.recency,
+    };
   });
 
   return scored
-    .filter(s => s.score > 0)
+    .filter(s => s.relevant)
     .sort((a, b) => b.score - a.score)
     .slice(0, limit)
-    .map(s => s.entry);
+    .map(({ relevant, ...hit }) => hit);
+}
+
+export async function searchMemory(query: string, limit = 10): Promise<MemoryEntry[]> {
+  return (await searchMemoryScored(query, limit)).map(s => s.entry);
 }
 
 export async function getAllMemories(): Promise<MemoryEntry[]> {
-  await ensureDirs();
-  const entries: MemoryEntry[] = [];
-  const files = await fs.readdir(factsDir());
-  for (const file of files) {
-    if (!file.endsWith('.md')) continue;
-    try {
-      const raw = await fs.readFile(path.join(factsDir(), file), 'utf-8');
-      const entry = parseMemoryFile(raw, file);
-      if (entry) entries.push(entry);
-    } catch {
-      continue;
-    }
-  }
-  return entries.sort((a, b) => b.importance - a.importance);
+  const facts = await loadFactFiles();
+  return facts.map(f => f.entry).sort((a, b) => b.importance - a.importance);
 }
 
 function parseMemoryFile(raw: string, filename: string): MemoryEntry | null {
@@ -245,10 +480,10 @@ registerTool(
     },
   },
   async (input) => {
-    const results = await searchMemory(input.query as string, (input.limit as number) || 5);
+    const results = await searchMemoryScored(input.query as string, (input.limit as number) || 5);
     if (results.length === 0) return 'No relevant memories found.';
-    return results.map(r =>
-      `[${r.type}] (importance: ${r.importance}) ${r.content}`
+    return results.map(({ entry: r, score }) =>
+      `[${r.type}] (importance: ${r.importance}, score: ${score.toFixed(2)}) ${r.content}`
     ).join('\n\n');
   },
 );
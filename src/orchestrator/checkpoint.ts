@@ -0,0 +1,75 @@
+// ============================================================
+// Plan Checkpoints — Orchestrator plans and sub-agent message
+// histories, persisted under workspace/tasks/<task id>/ so a
+// paused or crashed task resumes its plan instead of starting
+// over: completed subtasks keep their results, interrupted ones
+// continue from their last finished iteration.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { agentConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import type { Id, LLMMessage, OrchestratorPlan } from '../types.js';
+
+const log = createLogger('Checkpoint');
+
+/** A sub-agent's loop, as of its last completed iteration */
+export interface SubtaskCheckpoint {
+  subtaskId: Id;
+  /** Child task tracking the run */
+  childTaskId: Id;
+  messages: LLMMessage[];
+  iteration: number;
+  updatedAt: string;
+}
+
+const taskDir = (taskId: Id) => path.join(agentConfig.workspace, 'tasks', taskId);
+const planFile = (taskId: Id) => path.join(taskDir(taskId), 'plan.json');
+const subtaskFile = (taskId: Id, subtaskId: Id) => path.join(taskDir(taskId), 'subtasks', `${subtaskId}.json`);
+
+// ---- Plans ---------------------------------------------------
+
+export async function savePlan(plan: OrchestratorPlan): Promise<void> {
+  await writeJson(planFile(plan.parentTaskId), plan);
+}
+
+export async function loadPlan(taskId: Id): Promise<OrchestratorPlan | null> {
+  const plan = await readJson<OrchestratorPlan>(planFile(taskId));
+  if (plan) plan.createdAt = new Date(plan.createdAt);
+  return plan;
+}
+
+// ---- Sub-agent histories -------------------------------------
+
+export async function saveSubtaskCheckpoint(parentTaskId: Id, checkpoint: Omit<SubtaskCheckpoint, 'updatedAt'>): Promise<void> {
+  await writeJson(subtaskFile(parentTaskId, checkpoint.subtaskId), { ...checkpoint, updatedAt: new Date().toISOString() });
+}
+
+export async function loadSubtaskCheckpoint(parentTaskId: Id, subtaskId: Id): Promise<SubtaskCheckpoint | null> {
+  return readJson<SubtaskCheckpoint>(subtaskFile(parentTaskId, subtaskId));
+}
+
+/** Forget a subtask's history so its next run starts fresh */
+export async function clearSubtaskCheckpoint(parentTaskId: Id, subtaskId: Id): Promise<void> {
+  await fs.rm(subtaskFile(parentTaskId, subtaskId), { force: true });
+}
+
+// ---- Helpers -------------------------------------------------
+
+/** Write via a temp file, so concurrent saves never leave half a file */
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, file);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log.warn(`Unreadable checkpoint ${path.relative(agentConfig.workspace, file)}: ${err.message}`);
+    return null;
+  }
+}
@@ -5,24 +5,32 @@
 // ============================================================
 
 import { v4 as uuid } from 'uuid';
-import { callLLM } from '../llm/provider.js';
+import { callLLM, CACHE_BREAKPOINT } from '../llm/provider.js';
 import { getToolDefinitions, executeTool } from '../tools/registry.js';
-import { routeSubtask, getRouteCost } from './router.js';
+import { routeSubtask, getRouteCost, resolveRoute, getMainRoute } from './router.js';
 import {
   createTask, updateTaskStatus, addTaskStep,
   updateTaskStep, addUsage, appendScratchpad,
-  getTask, getSubtasks,
+  getTask, throwIfTaskStopped,
 } from '../tasks/queue.js';
-import { requestApproval } from '../tasks/approvals.js';
+import { taskSignal, TaskStoppedError } from '../tasks/cancellation.js';
+import {
+  trackUsage, assertBudget, getTaskBudget, getCostConfig, type BudgetScope,
+} from '../tasks/costs.js';
+import { registerApprovalResumer, getPendingApprovals, withdrawApproval } from '../tasks/approvals.js';
 import { getSettings } from '../security/settings.js';
 import { getSkillsContext } from '../skills/loader.js';
 import { searchMemory, getAllMemories } from '../memory/store.js';
 import { agentConfig } from '../config.js';
 import { eventBus } from '../events.js';
 import { createLogger } from '../utils/logger.js';
+import {
+  savePlan, loadPlan, saveSubtaskCheckpoint, loadSubtaskCheckpoint, clearSubtaskCheckpoint,
+} from './checkpoint.js';
 import type {
   Task, OrchestratorPlan, PlannedSubtask, SubAgent,
-  LLMMessage, ToolCall, Id, ModelRoute,
+  LLMMessage, LLMResponse, Id, ModelRoute, ToolCall,
+  ApprovalRequest, ApprovalContinuation,
 } from '../types.js';
 
 const log = createLogger('Orchestrator');
@@ -33,6 +41,7 @@ const agents = new Map<Id, SubAgent>();
 // ---- Plan: ask LLM to decompose a complex task --------------
 
 export async function planTask(task: Task): Promise<OrchestratorPlan> {
+  assertBudget(budgetScope(task));
   await updateTaskStatus(task.id, 'running');
   await appendScratchpad(task.id, 'Starting task planning...');
 
@@ -40,27 +49,33 @@ export async function planTask(task: Task): Promise<OrchestratorPlan> {
 
   const response = await callLLM([
     { role: 'system', content: planPrompt },
-    { role: 'user', content: `Decompose this task into subtasks:\n\nTitle: ${task.title}\nDescription: ${task.description}\n\nRespond with ONLY a JSON object matching this schema:\n{\n  "subtasks": [\n    {\n      "title": "string",\n      "description": "string",\n      "role": "researcher|coder|writer|reviewer|executor",\n      "modelTier": "fast|balanced|reasoning|local",\n      "parallelGroup": "A|B|C...",\n      "complexity": 1-10,\n      "requiresPrivacy": boolean,\n      "dependsOn": [] // titles of subtasks this depends on\n    }\n  ]\n}\n\nRules:\n- Subtasks in the same parallelGroup run concurrently\n- Use "fast" for simple lookups/transforms, "balanced" for standard work, "reasoning" for complex analysis, "local" for private data\n- Be thorough but don't over-decompose simple tasks (1-3 subtasks for simple, 3-8 for complex)` },
-  ], getToolDefinitions());
+    { role: 'user', content: `Decompose this task into subtasks:\n\nTitle: ${task.title}\nDescription: ${task.description}\n\nRespond with ONLY a JSON object matching this schema:\n{\n  "subtasks": [\n    {\n      "title": "string",\n      "description": "string",\n      "role": "researcher|coder|writer|reviewer|executor",\n      "modelTier": "fast|balanced|reasoning|local",\n      "complexity": 1-10,\n      "requiresPrivacy": boolean,\n      "dependsOn": [] // titles of subtasks this depends on\n    }\n  ]\n}\n\nRules:\n- A subtask starts as soon as every subtask in its dependsOn has finished; independent subtasks run concurrently\n- Only list a dependency when the subtask needs that result — no cycles\n- Use "fast" for simple lookups/transforms, "balanced" for standard work, "reasoning" for complex analysis, "local" for private data\n- Be thorough but don't over-decompose simple tasks (1-3 subtasks for simple, 3-8 for complex)` },
+  ], getToolDefinitions(), { fallbacks: getMainRoute().fallbacks, signal: taskSignal(task.id) });
+  await trackCoordinatorUsage(task, response);
 
   let subtasks: PlannedSubtask[];
+  // Raw dependsOn titles, keyed by the subtask ID they belong to
+  const dependsOn = new Map<Id, string[]>();
   try {
     // Parse the JSON from the LLM response
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
     if (!jsonMatch) throw new Error('No JSON found in response');
     const parsed = JSON.parse(jsonMatch[0]);
 
-    subtasks = (parsed.subtasks || []).map((s: any) => ({
-      id: uuid(),
-      title: s.title,
-      description: s.description,
-      role: s.role || 'executor',
-      modelTier: s.modelTier || 'balanced',
-      parallelGroup: s.parallelGroup,
-      complexity: s.complexity || 5,
-      requiresPrivacy: s.requiresPrivacy || false,
-      status: 'pending' as const,
-    }));
+    subtasks = (parsed.subtasks || []).map((s: any) => {
+      const st: PlannedSubtask = {
+        id: uuid(),
+        title: s.title,
+        description: s.description,
+        role: s.role || 'executor',
+        modelTier: s.modelTier || 'balanced',
+        complexity: s.complexity || 5,
+        requiresPrivacy: s.requiresPrivacy || false,
+        status: 'pending' as const,
+      };
+      dependsOn.set(st.id, Array.isArray(s.dependsOn) ? s.dependsOn.map(String) : []);
+      return st;
+    });
   } catch (err) {
     // If planning fails, treat the whole thing as a single task
     log.warn(`Planning failed, treating as single task: ${err}`);
@@ -76,10 +91,12 @@ export async function planTask(task: Task): Promise<OrchestratorPlan> {
     }];
   }
 
-  // Build dependency graph
-  const dependencies: Record<Id, Id[]> = {};
-  for (const st of subtasks) {
-    dependencies[st.id] = []; // populated if dependsOn was specified
+  // Build dependency graph and refuse plans that can never finish
+  const dependencies = resolveDependencies(subtasks, dependsOn);
+  const cycle = findDependencyCycle(subtasks, dependencies);
+  if (cycle) {
+    const titles = cycle.map(id => subtasks.find(s => s.id === id)?.title).join(' → ');
+    throw new Error(`Plan rejected: dependency cycle ${titles}`);
   }
 
   const plan: OrchestratorPlan = {
@@ -92,109 +109,182 @@ export async function planTask(task: Task): Promise<OrchestratorPlan> {
     createdAt: new Date(),
   };
 
-  await appendScratchpad(task.id, `Plan created: ${subtasks.length} subtasks across ${new Set(subtasks.map(s => s.parallelGroup).filter(Boolean)).size || 1} parallel groups`);
+  await savePlan(plan);
+
+  const edgeCount = Object.values(dependencies).reduce((n, deps) => n + deps.length, 0);
+  await appendScratchpad(task.id, `Plan created: ${subtasks.length} subtasks, ${edgeCount} dependencies`);
   log.info(`Plan for "${task.title}": ${subtasks.length} subtasks`);
-  subtasks.forEach(s => log.info(`  → [${s.modelTier}] ${s.title} (complexity:${s.complexity}, group:${s.parallelGroup || 'seq'})`));
+  subtasks.forEach(s => log.info(`  → [${s.modelTier}] ${s.title} (complexity:${s.complexity}, deps:${dependencies[s.id].length})`));
 
   return plan;
 }
 
 // ---- Execute plan: run subtasks, respecting dependencies -----
 
+/**
+ * Topological executor: each subtask starts as soon as all of its
+ * dependencies have completed, with at most `maxParallelSubtasks`
+ * running at once. Subtasks downstream of a failure are skipped.
+ * Subtasks already finished (a resumed plan) keep their results.
+ * The plan is checkpointed whenever a subtask changes state. Once the
+ * parent is cancelled or paused, or a budget cap is hit, nothing new
+ * starts; the running subtasks stop at their next safe point and
+ * this throws.
+ */
 export async function executePlan(plan: OrchestratorPlan, parentTask: Task): Promise<string> {
   const { subtasks, dependencies } = plan;
-  const results = new Map<Id, string>();
-  const completed = new Set<Id>();
+  const isDone = (st: PlannedSubtask) => ['completed', 'failed', 'cancelled'].includes(st.status);
+  const results = new Map<Id, string>(subtasks.filter(isDone).map(st => [st.id, st.result || '']));
+  const byId = new Map(subtasks.map(st => [st.id, st]));
+  const waiting = new Set(subtasks.filter(st => !isDone(st)).map(st => st.id));
+  const running = new Map<Id, Promise<void>>();
+  const maxConcurrency = Math.max(1, getSettings().maxParallelSubtasks || 1);
 
-  // Group subtasks by parallel group
-  const groups = new Map<string, PlannedSubtask[]>();
-  const sequential: PlannedSubtask[] = [];
+  const depsOf = (id: Id) => (dependencies[id] || []).map(d => byId.get(d)!);
+  const checkpoint = () => savePlan(plan).catch(err => log.warn(`Plan checkpoint failed: ${err.message}`));
 
-  for (const st of subtasks) {
-    if (st.parallelGroup) {
-      const group = groups.get(st.parallelGroup) || [];
-      group.push(st);
-      groups.set(st.parallelGroup, group);
-    } else {
-      sequential.push(st);
+  while (waiting.size > 0 || running.size > 0) {
+    try {
+      throwIfTaskStopped(parentTask.id);
+      assertBudget(budgetScope(parentTask));
+    } catch (err) {
+      await Promise.allSettled(running.values());
+      await checkpoint();
+      throw err;
     }
-  }
-
-  // Execute parallel groups first, then sequential
-  const allGroups = [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
-
-  for (const [groupName, groupTasks] of allGroups) {
-    await appendScratchpad(parentTask.id, `Executing parallel group ${groupName}: ${groupTasks.map(t => t.title).join(', ')}`);
 
-    // Check dependencies
-    for (const st of groupTasks) {
-      const deps = dependencies[st.id] || [];
-      const unmet = deps.filter(d => !completed.has(d));
-      if (unmet.length > 0) {
-        log.warn(`Subtask "${st.title}" has unmet deps, running sequentially`);
+    // Skip anything whose upstream failed — repeat so skips cascade
+    let skipped: boolean;
+    let anySkipped = false;
+    do {
+      skipped = false;
+      for (const id of waiting) {
+        const failed = depsOf(id).find(d => d.status === 'failed' || d.status === 'cancelled');
+        if (!failed) continue;
+        const st = byId.get(id)!;
+        st.status = 'cancelled';
+        st.result = `SKIPPED: depends on failed subtask "${failed.title}"`;
+        results.set(id, st.result);
+        waiting.delete(id);
+        skipped = anySkipped = true;
+        await appendScratchpad(parentTask.id, `Skipping: ${st.title} (upstream "${failed.title}" failed)`);
       }
+    } while (skipped);
+    if (anySkipped) await checkpoint();
+
+    // Start every ready subtask, up to the concurrency cap
+    for (const id of waiting) {
+      if (running.size >= maxConcurrency) break;
+      const upstream = depsOf(id);
+      if (!upstream.every(d => d.status === 'completed')) continue;
+
+      const st = byId.get(id)!;
+      waiting.delete(id);
+      st.status = 'running';
+      await appendScratchpad(parentTask.id, `Executing: ${st.title}${upstream.length ? ` (after ${upstream.map(u => u.title).join(', ')})` : ''}`);
+
+      const run = executeSubtask(st, parentTask, upstream, plan)
+        .then(async result => {
+          st.status = 'completed';
+          st.result = result;
+          results.set(st.id, result);
+          await checkpoint();
+        })
+        .catch(async (err: any) => {
+          if (err instanceof TaskStoppedError) {
+            // Paused: picked up again from its checkpoint when the plan resumes
+            st.status = err.status === 'paused' ? 'pending' : 'cancelled';
+            if (st.status === 'cancelled') {
+              st.result = 'CANCELLED: stopped before it finished';
+              results.set(st.id, st.result);
+            }
+            log.info(`Subtask "${st.title}" ${err.status}`);
+            // One paused subtask holds up the whole plan
+            if (err.status === 'paused' && getTask(parentTask.id)?.status === 'running') {
+              await updateTaskStatus(parentTask.id, 'paused');
+            }
+            await checkpoint();
+            return;
+          }
+          st.status = 'failed';
+          st.result = `ERROR: ${err?.message ?? err}`;
+          results.set(st.id, st.result);
+          log.error(`Subtask "${st.title}" failed: ${err?.message ?? err}`);
+          await checkpoint();
+        })
+        .finally(() => running.delete(st.id));
+      running.set(st.id, run);
     }
-
-    // Run all tasks in this group concurrently
-    const promises = groupTasks.map(st => executeSubtask(st, parentTask, results));
-    const groupResults = await Promise.allSettled(promises);
-
-    for (let i = 0; i < groupTasks.length; i++) {
-      const st = groupTasks[i];
-      const result = groupResults[i];
-      if (result.status === 'fulfilled') {
-        results.set(st.id, result.value);
-        completed.add(st.id);
-        st.status = 'completed';
-        st.result = result.value;
-      } else {
-        st.status = 'failed';
-        results.set(st.id, `ERROR: ${result.reason}`);
-        completed.add(st.id);
-        log.error(`Subtask "${st.title}" failed: ${result.reason}`);
+    await checkpoint();
+
+    if (running.size === 0) {
+      // Unreachable for an acyclic plan, but never spin forever
+      log.error(`Plan ${plan.id.slice(0, 8)} stalled with ${waiting.size} unrunnable subtasks`);
+      for (const id of waiting) {
+        byId.get(id)!.status = 'failed';
+        results.set(id, 'ERROR: dependencies could not be satisfied');
       }
+      break;
     }
 
-    await updateTaskStatus(parentTask.id, 'running', {
-      progress: Math.round((completed.size / subtasks.length) * 90),
-    });
-  }
-
-  // Sequential subtasks
-  for (const st of sequential) {
-    await appendScratchpad(parentTask.id, `Executing: ${st.title}`);
-    try {
-      const result = await executeSubtask(st, parentTask, results);
-      results.set(st.id, result);
-      completed.add(st.id);
-      st.status = 'completed';
-      st.result = result;
-    } catch (err: any) {
-      st.status = 'failed';
-      results.set(st.id, `ERROR: ${err.message}`);
-      completed.add(st.id);
+    await Promise.race(running.values());
+    if (getTask(parentTask.id)?.status === 'running') {
+      await updateTaskStatus(parentTask.id, 'running', {
+        progress: Math.round((subtasks.filter(isDone).length / subtasks.length) * 90),
+      });
     }
-
-    await updateTaskStatus(parentTask.id, 'running', {
-      progress: Math.round((completed.size / subtasks.length) * 90),
-    });
   }
 
   // Synthesize results
+  assertBudget(budgetScope(parentTask));
   const synthesis = await synthesizeResults(parentTask, subtasks, results);
   plan.status = 'completed';
+  await checkpoint();
   return synthesis;
 }
 
 // ---- Execute a single subtask with its assigned model --------
 
+/** A sub-agent's loop state — enough to pick it up after a restart */
+interface SubAgentRun {
+  agent: SubAgent;
+  route: ModelRoute;
+  childTaskId: Id;
+  subtask: PlannedSubtask;
+  parentTask: Task;
+  plan: OrchestratorPlan;
+  messages: LLMMessage[];
+  iteration: number;
+}
+
 async function executeSubtask(
   subtask: PlannedSubtask,
   parentTask: Task,
-  previousResults: Map<Id, string>,
+  upstream: PlannedSubtask[],
+  plan: OrchestratorPlan,
 ): Promise<string> {
-  const route = routeSubtask(subtask);
-  const settings = getSettings();
+  const route = routeWithinBudget(subtask, parentTask);
+
+  // Finished just before an interruption, but after the last plan checkpoint
+  const previous = subtask.taskId ? getTask(subtask.taskId) : undefined;
+  if (previous?.status === 'completed') return previous.result ?? '';
+
+  // Interrupted earlier: continue from its last completed iteration
+  const saved = await loadSubtaskCheckpoint(parentTask.id, subtask.id);
+  const savedChild = saved && getTask(saved.childTaskId);
+  if (saved && savedChild && ['paused', 'running', 'waiting_approval', 'pending'].includes(savedChild.status)) {
+    const agent = spawnSubAgent(subtask, parentTask, savedChild.id, route);
+    await updateTaskStatus(savedChild.id, 'running');
+    await appendScratchpad(parentTask.id, `Continuing "${subtask.title}" from iteration ${saved.iteration}`);
+    return runSubAgent({
+      agent, route, childTaskId: savedChild.id, subtask, parentTask, plan,
+      messages: saved.messages, iteration: saved.iteration,
+    });
+  }
+  if (saved) await clearSubtaskCheckpoint(parentTask.id, subtask.id);
+  if (previous && ['paused', 'running', 'waiting_approval'].includes(previous.status)) {
+    await updateTaskStatus(previous.id, 'cancelled', { error: 'Interrupted before its first step; rerun as a new subtask' });
+  }
 
   // Create a child task for tracking
   const childTask = await createTask({
@@ -206,16 +296,56 @@ async function executeSubtask(
     provider: route.provider,
     tags: [subtask.role, subtask.modelTier],
   });
+  subtask.taskId = childTask.id;
+
+  const agent = spawnSubAgent(subtask, parentTask, childTask.id, route);
+  await updateTaskStatus(childTask.id, 'running');
 
-  // Create / register sub-agent
+  // Context is limited to the subtasks this one actually depends on
+  const prevContext = upstream
+    .map(u => `[Result of "${u.title}"]:\n${(u.result || '').slice(0, 2000)}`)
+    .join('\n\n');
+
+  // Agent loop for this subtask
+  const systemPrompt = buildSubtaskPrompt(subtask, parentTask, prevContext);
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `Execute this task:\n\n${subtask.description}\n\nParent objective: ${parentTask.description}` },
+  ];
+
+  return runSubAgent({ agent, route, childTaskId: childTask.id, subtask, parentTask, plan, messages, iteration: 0 });
+}
+
+/** Subtasks move to the cheapest model once warnAtPercent of the task's budget is spent */
+function routeWithinBudget(subtask: PlannedSubtask, parentTask: Task): ModelRoute {
+  const ceiling = getTaskBudget(parentTask.id);
+  if (!ceiling) return routeSubtask(subtask);
+  const lowAt = ceiling.limit * (1 - getCostConfig().warnAtPercent / 100);
+  return routeSubtask(subtask, ceiling.limit - ceiling.spent, lowAt);
+}
+
+/** Sub-agents spend against the top-level task's ceiling and its requester's allowances */
+function budgetScope(task: Task): BudgetScope {
+  return { channel: task.source.channel, userId: task.source.userId, taskId: task.id };
+}
+
+/** Planning and synthesis run on the main model, on the task's account */
+async function trackCoordinatorUsage(task: Task, response: LLMResponse): Promise<void> {
+  if (!response.usage) return;
+  const used = resolveRoute(getMainRoute(), response.provider, response.model);
+  await trackUsage(used.provider, used.model, response.usage, { ...budgetScope(task), source: 'task' });
+  await addUsage(task.id, used.provider, used.model, response.usage);
+}
+
+function spawnSubAgent(subtask: PlannedSubtask, parentTask: Task, childTaskId: Id, route: ModelRoute): SubAgent {
   const agent: SubAgent = {
     id: uuid(),
-    name: `${subtask.role}-${childTask.id.slice(0, 6)}`,
+    name: `${subtask.role}-${childTaskId.slice(0, 6)}`,
     role: subtask.role,
     provider: route.provider,
     model: route.model,
     status: 'busy',
-    currentTaskId: childTask.id,
+    currentTaskId: childTaskId,
     routingReason: `Complexity:${subtask.complexity}, Tier:${subtask.modelTier}, Privacy:${subtask.requiresPrivacy}`,
     usage: { inputTokens: 0, outputTokens: 0, estimatedCost: 0 },
   };
@@ -223,43 +353,48 @@ async function executeSubtask(
   subtask.assignedAgentId = agent.id;
 
   eventBus.emit({ type: 'subtask_spawned', parentId: parentTask.id, subtask, agentId: agent.id });
-
   log.info(`Sub-agent ${agent.name} executing "${subtask.title}" on ${route.provider}/${route.model}`);
+  return agent;
+}
 
-  await updateTaskStatus(childTask.id, 'running');
-
-  // Build context with previous results
-  const prevContext = Array.from(previousResults.entries())
-    .map(([id, result]) => `[Previous result]: ${result.slice(0, 2000)}`)
-    .join('\n\n');
-
-  // Agent loop for this subtask
-  const systemPrompt = buildSubtaskPrompt(subtask, parentTask, prevContext);
-  const messages: LLMMessage[] = [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: `Execute this task:\n\n${subtask.description}\n\nParent objective: ${parentTask.description}` },
-  ];
-
-  const maxIterations = Math.min(settings.maxToolCallsPerMessage, 15);
-  let iteration = 0;
+/**
+ * The sub-agent loop. `resume` finishes an interrupted turn first:
+ * its calls, the first of which carries the decided approval.
+ */
+async function runSubAgent(run: SubAgentRun, resume?: { calls: ToolCall[]; approval: ApprovalRequest }): Promise<string> {
+  const { agent, route, childTaskId, subtask, parentTask, messages } = run;
+  const maxIterations = Math.min(getSettings().maxToolCallsPerMessage, 15);
+  const signal = taskSignal(childTaskId);
   let finalResult = '';
 
-  while (iteration < maxIterations) {
-    iteration++;
+  if (resume) {
+    await runSubAgentTools(run, resume.calls, resume.approval);
+    await checkpointSubAgent(run);
+  }
+
+  while (run.iteration < maxIterations) {
+    // Safe point: the checkpoint matches where the loop stands
+    throwIfTaskStopped(childTaskId);
+    assertBudget(budgetScope(parentTask));
+    run.iteration++;
 
     const response = await callLLM(messages, getToolDefinitions(), {
       provider: route.provider,
       model: route.model,
+      fallbacks: route.fallbacks,
+      signal,
     });
 
-    // Track usage
+    // Track usage, priced by whichever model answered
     if (response.usage) {
-      const cost = getRouteCost(route, response.usage.inputTokens, response.usage.outputTokens);
-      agent.usage.inputTokens += response.usage.inputTokens;
+      const used = resolveRoute(route, response.provider, response.model);
+      const cost = getRouteCost(used, response.usage);
+      agent.usage.inputTokens += response.usage.inputTokens + (response.usage.cacheReadTokens ?? 0) + (response.usage.cacheWriteTokens ?? 0);
       agent.usage.outputTokens += response.usage.outputTokens;
       agent.usage.estimatedCost += cost;
-      await addUsage(childTask.id, response.usage.inputTokens, response.usage.outputTokens, route.costPer1kInput, route.costPer1kOutput);
-      await addUsage(parentTask.id, response.usage.inputTokens, response.usage.outputTokens, route.costPer1kInput, route.costPer1kOutput);
+      await trackUsage(used.provider, used.model, response.usage, { ...budgetScope(parentTask), source: 'subagent', role: subtask.role });
+      await addUsage(childTaskId, used.provider, used.model, response.usage);
+      await addUsage(parentTask.id, used.provider, used.model, response.usage);
     }
 
     if (!response.toolCalls || response.toolCalls.length === 0) {
@@ -277,52 +412,134 @@ async function executeSubtask(
         input: tc.input,
       })),
     });
-
-    for (const tc of response.toolCalls) {
-      // Check if approval needed
-      const needsApproval = shouldRequestApproval(tc, settings.autonomyLevel);
-      if (needsApproval) {
-        const approved = await requestApproval({
-          taskId: childTask.id,
-          stepDescription: `Sub-agent "${agent.name}" wants to use ${tc.name}`,
-          tool: tc.name,
-          input: tc.input,
-          reasoning: `Part of subtask: ${subtask.title}`,
-          riskLevel: categorizeToolRisk(tc.name),
-          riskExplanation: `Tool ${tc.name} called during autonomous subtask execution`,
-          channel: parentTask.source.channel,
-          userId: parentTask.source.userId,
-        });
-
-        if (!approved) {
-          messages.push({
-            role: 'tool',
-            content: 'Action was rejected by user. Find an alternative approach or report what you have.',
-            tool_call_id: tc.id,
-          });
-          continue;
-        }
-      }
-
-      const result = await executeTool(tc);
-      messages.push({
-        role: 'tool',
-        content: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
-        tool_call_id: tc.id,
-      });
-    }
+    await runSubAgentTools(run, response.toolCalls);
+    await checkpointSubAgent(run);
   }
 
   // Finalize
   agent.status = 'idle';
   agent.currentTaskId = undefined;
-  await updateTaskStatus(childTask.id, 'completed', { result: finalResult });
+  await updateTaskStatus(childTaskId, 'completed', { result: finalResult });
 
   log.info(`Sub-agent ${agent.name} completed "${subtask.title}" (${agent.usage.inputTokens + agent.usage.outputTokens} tokens, $${agent.usage.estimatedCost.toFixed(4)})`);
 
   return finalResult;
 }
 
+/** Save the loop at an iteration boundary, where every tool call has its result */
+async function checkpointSubAgent(run: SubAgentRun): Promise<void> {
+  await saveSubtaskCheckpoint(run.parentTask.id, {
+    subtaskId: run.subtask.id,
+    childTaskId: run.childTaskId,
+    messages: run.messages,
+    iteration: run.iteration,
+  }).catch(err => log.warn(`Checkpoint for "${run.subtask.title}" failed: ${err.message}`));
+}
+
+async function runSubAgentTools(run: SubAgentRun, calls: ToolCall[], approval?: ApprovalRequest): Promise<void> {
+  const { agent, childTaskId, subtask, parentTask, messages } = run;
+
+  for (const [i, tc] of calls.entries()) {
+    let waited = false;
+    const result = await executeTool(tc, {
+      channel: parentTask.source.channel,
+      userId: parentTask.source.userId,
+      taskId: childTaskId,
+      signal: taskSignal(childTaskId),
+      stepDescription: `Sub-agent "${agent.name}" wants to use ${tc.name}`,
+      reasoning: `Part of subtask: ${subtask.title}`,
+      resolvedApproval: i === 0 ? approval : undefined,
+      continuation: () => ({
+        kind: 'subtask',
+        toolCall: tc,
+        messages: structuredClone(messages),
+        pendingCalls: calls.slice(i + 1),
+        iteration: run.iteration,
+        parentTaskId: parentTask.id,
+        subtaskId: subtask.id,
+        plan: structuredClone(run.plan),
+      }),
+      onApprovalRequested: async () => {
+        waited = true;
+        await updateTaskStatus(childTaskId, 'waiting_approval');
+      },
+    });
+    if (waited && getTask(childTaskId)?.status === 'waiting_approval') await updateTaskStatus(childTaskId, 'running');
+    messages.push({
+      role: 'tool',
+      content: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
+      tool_call_id: tc.id,
+    });
+  }
+}
+
+// ---- Resuming after a restart --------------------------------
+
+/**
+ * Finish a sub-agent whose approval was decided after the process
+ * restarted, then run the rest of its plan. Subtasks that were
+ * mid-flight alongside it continue from their checkpoints; their own
+ * parked approvals are withdrawn, and asked again if still needed.
+ */
+async function resumeSubtask(req: ApprovalRequest & { continuation: ApprovalContinuation }): Promise<void> {
+  const c = req.continuation;
+  const parentTask = c.parentTaskId ? getTask(c.parentTaskId) : undefined;
+  // The checkpoint is newer than the approval's snapshot when siblings kept running
+  const plan = (parentTask && await loadPlan(parentTask.id)) || c.plan;
+  const subtask = plan?.subtasks.find(st => st.id === c.subtaskId);
+  if (!parentTask || !plan || !subtask || !req.taskId) {
+    log.warn(`Approval ${req.id.slice(0, 8)}: task or plan no longer exists — nothing to resume`);
+    return;
+  }
+  if (['completed', 'failed', 'cancelled'].includes(parentTask.status)) {
+    log.info(`Approval ${req.id.slice(0, 8)}: task "${parentTask.title}" is already ${parentTask.status}`);
+    return;
+  }
+
+  await withdrawPlanApprovals(parentTask, req.id);
+  reopenPlan(plan, subtask.id);
+
+  await updateTaskStatus(parentTask.id, 'running');
+  await appendScratchpad(parentTask.id, `Resuming after approval of ${req.proposedAction.tool} (${req.status}) for: ${subtask.title}`);
+  await updateTaskStatus(req.taskId, 'running');
+
+  const route = routeWithinBudget(subtask, parentTask);
+  const run: SubAgentRun = {
+    agent: spawnSubAgent(subtask, parentTask, req.taskId, route),
+    route,
+    childTaskId: req.taskId,
+    subtask,
+    parentTask,
+    plan,
+    messages: c.messages,
+    iteration: c.iteration,
+  };
+
+  try {
+    subtask.result = await runSubAgent(run, { calls: [c.toolCall, ...c.pendingCalls], approval: req });
+    subtask.status = 'completed';
+  } catch (err: any) {
+    if (err instanceof TaskStoppedError) {
+      // The plan resumes with the rest of the task, from the checkpoints
+      log.info(`Resumed subtask "${subtask.title}" ${err.status} again`);
+      return;
+    }
+    subtask.status = 'failed';
+    subtask.result = `ERROR: ${err?.message ?? err}`;
+    log.error(`Resumed subtask "${subtask.title}" failed: ${err?.message ?? err}`);
+  }
+
+  try {
+    await finishPlan(plan, parentTask);
+  } catch (err: any) {
+    if (err instanceof TaskStoppedError) return;
+    await updateTaskStatus(parentTask.id, 'failed', { error: err.message });
+    throw err;
+  }
+}
+
+registerApprovalResumer('subtask', resumeSubtask);
+
 // ---- Synthesize all subtask results into final answer --------
 
 async function synthesizeResults(
@@ -340,11 +557,9 @@ async function synthesizeResults(
   const response = await callLLM([
     { role: 'system', content: 'You are a coordinator synthesizing results from multiple specialist agents. Combine their outputs into a cohesive, well-structured final response. Resolve any conflicts between results. Be thorough but concise.' },
     { role: 'user', content: `Original request: ${parentTask.description}\n\nResults from ${subtasks.length} sub-agents:\n\n${context}\n\nSynthesize these into a single comprehensive response.` },
-  ], []);
+  ], [], { fallbacks: getMainRoute().fallbacks, signal: taskSignal(parentTask.id) });
 
-  if (response.usage) {
-    await addUsage(parentTask.id, response.usage.inputTokens, response.usage.outputTokens);
-  }
+  await trackCoordinatorUsage(parentTask, response);
 
   return response.content;
 }
@@ -353,17 +568,56 @@ async function synthesizeResults(
 
 export async function orchestrate(task: Task): Promise<string> {
   try {
-    const plan = await planTask(task);
-    const result = await executePlan(plan, task);
-
-    await updateTaskStatus(task.id, 'completed', { result, progress: 100 });
-    return result;
+    // A checkpointed plan means this task was interrupted — pick it back up
+    const saved = await loadPlan(task.id);
+    let plan: OrchestratorPlan;
+    if (saved && saved.status !== 'completed') {
+      plan = saved;
+      // Parked sub-agent approvals would resume the plan a second time if decided later
+      await withdrawPlanApprovals(task);
+      reopenPlan(plan);
+      await updateTaskStatus(task.id, 'running');
+      const done = plan.subtasks.filter(st => st.status === 'completed').length;
+      await appendScratchpad(task.id, `Resuming plan: ${done}/${plan.subtasks.length} subtasks already complete`);
+      log.info(`Resuming plan for "${task.title}" (${done}/${plan.subtasks.length} done)`);
+    } else {
+      plan = await planTask(task);
+    }
+    return await finishPlan(plan, task);
   } catch (err: any) {
-    await updateTaskStatus(task.id, 'failed', { error: err.message });
+    // Cancelled or paused: the status is already set, the checkpoints kept
+    if (!(err instanceof TaskStoppedError)) await updateTaskStatus(task.id, 'failed', { error: err.message });
     throw err;
   }
 }
 
+/** Withdraw the plan's parked sub-agent approvals (except `keep`); its subtasks continue from their checkpoints */
+async function withdrawPlanApprovals(task: Task, keep?: Id): Promise<void> {
+  for (const other of getPendingApprovals()) {
+    if (other.id !== keep && other.continuation?.parentTaskId === task.id) {
+      await withdrawApproval(other.id, `task "${task.title}" resumed; the subtask continues from its checkpoint`);
+    }
+  }
+}
+
+/** Queue every unfinished subtask again (except `keep`, which the caller runs) */
+function reopenPlan(plan: OrchestratorPlan, keep?: Id): void {
+  plan.status = 'executing';
+  for (const st of plan.subtasks) {
+    if (st.status !== 'completed' && st.id !== keep) {
+      st.status = 'pending';
+      st.result = undefined;
+    }
+  }
+}
+
+/** Run the rest of a plan and settle its parent task */
+async function finishPlan(plan: OrchestratorPlan, task: Task): Promise<string> {
+  const result = await executePlan(plan, task);
+  await updateTaskStatus(task.id, 'completed', { result, progress: 100 });
+  return result;
+}
+
 // ---- Should this task use orchestration? ---------------------
 
 export function shouldOrchestrate(description: string): boolean {
@@ -393,7 +647,7 @@ function buildPlanningPrompt(task: Task): string {
 
 Guidelines:
 - Each subtask should be completable by a single LLM agent with tools
-- Identify which subtasks can run in parallel (same parallelGroup letter)
+- Declare dependencies with dependsOn (subtask titles); everything else runs in parallel
 - Assign complexity 1-10 based on reasoning required
 - Use "local" modelTier for anything touching private user data
 - Use "fast" for simple lookups, formatting, basic transforms
@@ -403,50 +657,81 @@ Guidelines:
 - Available tools: ${getToolDefinitions().map(t => t.name).join(', ')}`;
 }
 
+/** Instructions and skills first, shared by every sub-agent and cached; the subtask itself after the breakpoint */
 function buildSubtaskPrompt(subtask: PlannedSubtask, parent: Task, prevContext: string): string {
   const skills = getSkillsContext();
   const ts = new Date().toISOString();
 
-  return `You are a specialist sub-agent (role: ${subtask.role}) working on a subtask within a larger objective.
-
-Current time: ${ts}
+  return `You are a specialist sub-agent working on a subtask within a larger objective.
 Workspace: ${agentConfig.workspace}
-Your role: ${subtask.role}
-
-Parent objective: ${parent.title}
-Your subtask: ${subtask.title}
-
-${prevContext ? `Context from previous subtasks:\n${prevContext}\n` : ''}
-${skills ? `Relevant skills:\n${skills}\n` : ''}
 
 Instructions:
 - Focus ONLY on your specific subtask
 - Use tools as needed to accomplish it
 - Be thorough but efficient
-- Return a clear, structured result that can be combined with other subtask results`;
+- Return a clear, structured result that can be combined with other subtask results
+
+${skills ? `Relevant skills:\n${skills}\n` : ''}${CACHE_BREAKPOINT}Current time: ${ts}
+Your role: ${subtask.role}
+
+Parent objective: ${parent.title}
+Your subtask: ${subtask.title}
+
+${prevContext ? `Results from the subtasks you depend on:\n${prevContext}\n` : ''}`;
 }
 
-function shouldRequestApproval(tc: ToolCall, autonomy: string): boolean {
-  if (autonomy === 'high') return false;
-  if (autonomy === 'low') return true;
+/** Map the planner's dependsOn titles to subtask IDs, ignoring unknown or self references */
+function resolveDependencies(
+  subtasks: PlannedSubtask[],
+  dependsOn: Map<Id, string[]>,
+): Record<Id, Id[]> {
+  const byTitle = new Map(subtasks.map(st => [st.title?.trim().toLowerCase(), st.id]));
+  const dependencies: Record<Id, Id[]> = {};
+
+  for (const st of subtasks) {
+    const ids = new Set<Id>();
+    for (const title of dependsOn.get(st.id) || []) {
+      const depId = byTitle.get(title.trim().toLowerCase());
+      if (!depId || depId === st.id) {
+        log.warn(`Subtask "${st.title}" depends on unknown subtask "${title}" — ignoring`);
+        continue;
+      }
+      ids.add(depId);
+    }
+    dependencies[st.id] = [...ids];
+  }
 
-  // Medium: approve writes, sends, and system actions
-  const dangerousTools = new Set([
-    'run_shell', 'write_file', 'email_send', 'mastodon_post',
-    'reddit_post', 'open_application', 'clipboard_write',
-  ]);
-  return dangerousTools.has(tc.name);
+  return dependencies;
 }
 
-function categorizeToolRisk(tool: string): 'low' | 'medium' | 'high' | 'critical' {
-  const riskMap: Record<string, 'low' | 'medium' | 'high' | 'critical'> = {
-    read_file: 'low', list_directory: 'low', recall: 'low', system_info: 'low',
-    web_fetch: 'low', browser_action: 'medium', email_read: 'medium',
-    write_file: 'medium', remember: 'low', schedule_cron: 'medium',
-    run_shell: 'high', email_send: 'high', mastodon_post: 'high',
-    reddit_post: 'high', open_application: 'high', clipboard_write: 'medium',
+/** Depth-first search for a cycle; returns the IDs along it, or null */
+function findDependencyCycle(
+  subtasks: PlannedSubtask[],
+  dependencies: Record<Id, Id[]>,
+): Id[] | null {
+  const state = new Map<Id, 'visiting' | 'done'>();
+  const stack: Id[] = [];
+
+  const visit = (id: Id): Id[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of dependencies[id] || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
   };
-  return riskMap[tool] || 'medium';
+
+  for (const st of subtasks) {
+    const cycle = visit(st.id);
+    if (cycle) return cycle;
+  }
+  return null;
 }
 
 // ---- Query active agents ------------------------------------
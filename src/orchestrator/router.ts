@@ -1,16 +1,20 @@
 // ============================================================
 // Model Router — Selects optimal LLM for each subtask based on
 // complexity, privacy requirements, cost, and configured tiers.
+// Each route carries a fallback chain of other providers.
 // ============================================================
 
 import { llmConfig } from '../config.js';
 import { getSettings } from '../security/settings.js';
 import { createLogger } from '../utils/logger.js';
-import type { ModelRoute, LLMProvider, PlannedSubtask } from '../types.js';
+import { getCustomRoutes, getEndpoint, hasEndpoint, isLocalEndpoint } from '../llm/registry.js';
+import { costOf, getModelPrice } from '../llm/pricing.js';
+import type { ModelRoute, LLMProvider, PlannedSubtask, TokenUsage } from '../types.js';
 
 const log = createLogger('Router');
 
 // ---- Default model tiers ------------------------------------
+// Prices come from the pricing catalogue (llm/pricing.ts)
 
 const DEFAULT_ROUTES: ModelRoute[] = [
   {
@@ -18,67 +22,54 @@ const DEFAULT_ROUTES: ModelRoute[] = [
     provider: 'anthropic',
     model: 'claude-haiku-4-5-20251001',
     maxTokens: 4096,
-    costPer1kInput: 0.0008,
-    costPer1kOutput: 0.004,
   },
   {
     tier: 'balanced',
     provider: 'anthropic',
     model: 'claude-sonnet-4-5-20250929',
     maxTokens: 8192,
-    costPer1kInput: 0.003,
-    costPer1kOutput: 0.015,
   },
   {
     tier: 'reasoning',
     provider: 'anthropic',
     model: 'claude-opus-4-6',
     maxTokens: 16384,
-    costPer1kInput: 0.015,
-    costPer1kOutput: 0.075,
   },
   {
     tier: 'local',
     provider: 'ollama',
     model: 'llama3.1',
     maxTokens: 4096,
-    costPer1kInput: 0,
-    costPer1kOutput: 0,
   },
 ];
 
 // ---- Loaded routes (populated at init) -----------------------
 
 let routes: ModelRoute[] = [];
+let mainRoute: ModelRoute;
 
 export function initModelRouter(): void {
-  // Build routes from what's actually configured
-  routes = [];
+  // Build routes from what's actually configured. Routes declared in
+  // providers.json come first so they win tier lookups.
+  routes = getCustomRoutes().map(r => ({ ...r }));
 
   // Always include configured provider as balanced
-  const mainRoute: ModelRoute = {
+  const main = getEndpoint(llmConfig.provider);
+  mainRoute = {
     tier: 'balanced',
-    provider: llmConfig.provider,
-    model: llmConfig.provider === 'anthropic' ? llmConfig.anthropicModel
-         : llmConfig.provider === 'openai' ? llmConfig.openaiModel
-         : llmConfig.ollamaModel,
+    provider: main.name,
+    model: main.defaultModel,
     maxTokens: 8192,
-    costPer1kInput: llmConfig.provider === 'anthropic' ? 0.003
-                  : llmConfig.provider === 'openai' ? 0.005
-                  : 0,
-    costPer1kOutput: llmConfig.provider === 'anthropic' ? 0.015
-                   : llmConfig.provider === 'openai' ? 0.015
-                   : 0,
   };
   routes.push(mainRoute);
 
   // If Anthropic, add Haiku as fast tier and Opus as reasoning tier
   if (llmConfig.anthropicApiKey) {
     if (!routes.find(r => r.tier === 'fast')) {
-      routes.push(DEFAULT_ROUTES.find(r => r.tier === 'fast')!);
+      routes.push({ ...DEFAULT_ROUTES.find(r => r.tier === 'fast')! });
     }
     if (!routes.find(r => r.tier === 'reasoning')) {
-      routes.push(DEFAULT_ROUTES.find(r => r.tier === 'reasoning')!);
+      routes.push({ ...DEFAULT_ROUTES.find(r => r.tier === 'reasoning')! });
     }
   }
 
@@ -89,11 +80,22 @@ export function initModelRouter(): void {
       provider: 'openai',
       model: 'gpt-4o-mini',
       maxTokens: 4096,
-      costPer1kInput: 0.00015,
-      costPer1kOutput: 0.0006,
     });
   }
 
+  // Gemini / Mistral keys add cheap alternate fast tiers on their
+  // configured models (GEMINI_MODEL / MISTRAL_MODEL)
+  for (const provider of ['gemini', 'mistral']) {
+    if (hasEndpoint(provider) && llmConfig.provider !== provider) {
+      routes.push({
+        tier: 'fast',
+        provider,
+        model: getEndpoint(provider).defaultModel,
+        maxTokens: 4096,
+      });
+    }
+  }
+
   // If Ollama configured, always available as local tier
   if (llmConfig.ollamaModel) {
     if (!routes.find(r => r.tier === 'local')) {
@@ -102,15 +104,60 @@ export function initModelRouter(): void {
         provider: 'ollama',
         model: llmConfig.ollamaModel,
         maxTokens: 4096,
-        costPer1kInput: 0,
-        costPer1kOutput: 0,
       });
     }
   }
 
+  for (const route of [...routes, mainRoute]) {
+    route.fallbacks ??= defaultFallbacks(route);
+    route.fallbacks = keepPrivateLocal(route);
+  }
+
   log.info(`Model router initialized with ${routes.length} routes: ${routes.map(r => `${r.tier}→${r.provider}/${r.model}`).join(', ')}`);
 }
 
+/**
+ * Fallback chain for a route: the same tier on other providers, then
+ * the main model of each other cloud provider, then the local model.
+ * e.g. balanced: anthropic → openai → ollama. Local routes only fall
+ * back to other local endpoints.
+ */
+function defaultFallbacks(route: ModelRoute): NonNullable<ModelRoute['fallbacks']> {
+  const candidates = isLocalRoute(route)
+    ? routes.filter(isLocalRoute)
+    : [
+        ...routes.filter(r => r.tier === route.tier),
+        ...(llmConfig.openaiApiKey ? [{ provider: 'openai', model: llmConfig.openaiModel }] : []),
+        ...(llmConfig.anthropicApiKey ? [{ provider: 'anthropic', model: llmConfig.anthropicModel }] : []),
+        ...routes.filter(r => r.tier === 'local'),
+      ];
+
+  const chain: NonNullable<ModelRoute['fallbacks']> = [];
+  const seen = new Set([route.provider]);
+  for (const { provider, model } of candidates) {
+    if (seen.has(provider)) continue;
+    seen.add(provider);
+    chain.push({ provider, model });
+  }
+  return chain;
+}
+
+/** Privacy-sensitive subtasks go to local routes, so they must never fail over to the cloud */
+function isLocalRoute(route: Pick<ModelRoute, 'tier' | 'provider'>): boolean {
+  return route.tier === 'local' || isLocalEndpoint(route.provider);
+}
+
+/** A local route's fallbacks without cloud endpoints, unless the route opts in with allowCloudFallback */
+function keepPrivateLocal(route: ModelRoute): NonNullable<ModelRoute['fallbacks']> {
+  const fallbacks = route.fallbacks ?? [];
+  if (!isLocalRoute(route) || route.allowCloudFallback) return fallbacks;
+  return fallbacks.filter(f => {
+    if (isLocalEndpoint(f.provider)) return true;
+    log.warn(`Dropping ${route.tier} fallback ${f.provider}/${f.model}: a local route only fails over to the cloud with allowCloudFallback`);
+    return false;
+  });
+}
+
 // ---- Route selection ----------------------------------------
 
 /**
@@ -121,9 +168,9 @@ export function initModelRouter(): void {
  * - Complexity 1-3 → fast tier (Haiku / GPT-4o-mini)
  * - Complexity 4-7 → balanced tier (Sonnet / GPT-4o)
  * - Complexity 8-10 → reasoning tier (Opus)
- * - Cost budget exceeded → downgrade to cheaper tier
+ * - Budget running low (under `lowBudget` left) → downgrade to cheapest tier
  */
-export function routeSubtask(subtask: PlannedSubtask, budgetRemaining?: number): ModelRoute {
+export function routeSubtask(subtask: PlannedSubtask, budgetRemaining?: number, lowBudget = 0.10): ModelRoute {
   // Privacy-sensitive: always local
   if (subtask.requiresPrivacy) {
     const local = routes.find(r => r.tier === 'local');
@@ -139,10 +186,10 @@ export function routeSubtask(subtask: PlannedSubtask, budgetRemaining?: number):
   const requested = routes.find(r => r.tier === subtask.modelTier);
 
   // Budget check: if remaining budget is low, downgrade
-  if (budgetRemaining !== undefined && budgetRemaining < 0.10) {
+  if (budgetRemaining !== undefined && budgetRemaining < lowBudget) {
     const cheapest = routes
-      .filter(r => r.costPer1kInput + r.costPer1kOutput > 0 || r.tier === 'local')
-      .sort((a, b) => (a.costPer1kInput + a.costPer1kOutput) - (b.costPer1kInput + b.costPer1kOutput))[0];
+      .filter(r => routePrice(r) > 0 || r.tier === 'local')
+      .sort((a, b) => routePrice(a) - routePrice(b))[0];
     if (cheapest) {
       log.info(`Routing "${subtask.title}" → ${cheapest.tier} (budget low: $${budgetRemaining.toFixed(2)} remaining)`);
       return cheapest;
@@ -171,6 +218,56 @@ export function getRoutes(): ModelRoute[] {
   return [...routes];
 }
 
-export function getRouteCost(route: ModelRoute, inputTokens: number, outputTokens: number): number {
-  return (inputTokens / 1000) * route.costPer1kInput + (outputTokens / 1000) * route.costPer1kOutput;
+/** Fallback when neither the route nor its endpoint declares one */
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+/** Context window for a route, in tokens */
+export function getContextWindow(route: ModelRoute): number {
+  if (route.contextWindow) return route.contextWindow;
+  return hasEndpoint(route.provider)
+    ? getEndpoint(route.provider).contextWindow ?? DEFAULT_CONTEXT_WINDOW
+    : DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Context window of a provider/model a call may fail over to */
+export function getContextWindowFor(provider: string, model: string): number {
+  const known = [...routes, mainRoute].find(r => r?.provider === provider && r.model === model);
+  if (known) return getContextWindow(known);
+  return hasEndpoint(provider)
+    ? getEndpoint(provider).contextWindow ?? DEFAULT_CONTEXT_WINDOW
+    : DEFAULT_CONTEXT_WINDOW;
+}
+
+/** First route for a tier, if one is configured */
+export function getRoute(tier: ModelRoute['tier']): ModelRoute | undefined {
+  return routes.find(r => r.tier === tier);
+}
+
+/** The LLM_PROVIDER route used for chat, heartbeats and triggers */
+export function getMainRoute(): ModelRoute {
+  return mainRoute ?? DEFAULT_ROUTES[1];
+}
+
+/**
+ * The route that actually produced a response. After a failover the
+ * provider/model differ from the one requested, so usage must be
+ * priced and attributed to the model that answered.
+ */
+export function resolveRoute(route: ModelRoute, provider?: string, model?: string): ModelRoute {
+  if (!provider || !model || (provider === route.provider && model === route.model)) return route;
+
+  const known = [...routes, mainRoute].find(r => r?.provider === provider && r.model === model);
+  if (known) return known;
+
+  return { ...route, provider, model, fallbacks: [] };
+}
+
+export function getRouteCost(route: ModelRoute, usage: TokenUsage): number {
+  return costOf(route.provider, route.model, usage);
+}
+
+/** Input + output $ per 1K tokens, for ranking routes by cost */
+function routePrice(route: ModelRoute): number {
+  const price = getModelPrice(route.provider, route.model);
+  return price.input + price.output;
 }
@@ -295,6 +295,12 @@ export function checkRateLimit(
   return true;
 }
 
+/** Give back a token taken by checkRateLimit when the caller didn't use it */
+export function refundRateLimit(key: string, maxTokens: number): void {
+  const bucket = buckets.get(key);
+  if (bucket) bucket.tokens = Math.min(maxTokens, bucket.tokens + 1);
+}
+
 // ============================================================
 // 7. AUDIT LOG — Persistent record of all agent actions
 // ============================================================
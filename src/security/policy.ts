@@ -0,0 +1,386 @@
+// ============================================================
+// Tool Policy — Declarative per-tool rules, read from
+// workspace/tool-policy.json and checked on every executeTool
+// call. The first matching rule allows, denies, or asks for
+// approval; risky calls then wait on requestApproval for
+// /approve, /reject, the dashboard, or expiry.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { agentConfig } from '../config.js';
+import { getSettings, type RuntimeSettings } from './settings.js';
+import { requestApproval, withdrawApproval } from '../tasks/approvals.js';
+import { createLogger } from '../utils/logger.js';
+import type { ApprovalContinuation, ApprovalRequest, AutonomyLevel, ChannelType, Id, ToolCall } from '../types.js';
+
+const log = createLogger('Policy');
+
+export type ToolRisk = ApprovalRequest['riskLevel'];
+export type PolicyAction = 'allow' | 'deny' | 'approve';
+
+/** How one tool argument must look for a rule to apply */
+export interface ArgMatcher {
+  /** Path glob, workspace-relative (e.g. "notes/**") */
+  glob?: string | string[];
+  /** Regular expression tested against the value */
+  regex?: string;
+  /** Every email address / URL host in the value is one of these domains or a subdomain */
+  domain?: string | string[];
+  /** Invert the match (e.g. "any recipient outside these domains") */
+  not?: boolean;
+}
+
+export interface ToolPolicyRule {
+  id?: string;
+  description?: string;
+  /** Tool name or glob ("github_*", "*"), or a list of them */
+  tool: string | string[];
+  action: PolicyAction;
+  /** Restrict the rule to these channels, user ids or autonomy levels */
+  channels?: ChannelType[];
+  users?: string[];
+  autonomy?: AutonomyLevel[];
+  /** Every listed argument must match */
+  args?: Record<string, ArgMatcher>;
+  /** Risk shown on the approval request, overriding the tool's */
+  risk?: ToolRisk;
+}
+
+export interface ToolPolicy {
+  /** Checked in order; the first match decides */
+  rules: ToolPolicyRule[];
+  /** Used when no rule matches */
+  defaultAction: PolicyAction;
+  /** Risk per tool for approval requests; unlisted tools are medium */
+  risk: Record<string, ToolRisk>;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  risk: ToolRisk;
+  /** Index of the deciding rule; -1 for the default action or a disabled category */
+  ruleIndex: number;
+  reason: string;
+}
+
+/** Who is calling — everything a rule can condition on */
+export interface PolicySubject {
+  channel?: ChannelType;
+  userId?: string;
+  autonomy?: AutonomyLevel;
+}
+
+// ---- Defaults (same behavior as before the policy file) ------
+
+const DEFAULT_POLICY: ToolPolicy = {
+  rules: [
+    {
+      id: 'no-self-approval',
+      description: 'The agent must not approve its own actions',
+      tool: 'resolve_approval',
+      action: 'approve',
+      risk: 'critical',
+    },
+    { id: 'high-autonomy', tool: '*', autonomy: ['high'], action: 'allow' },
+    { id: 'low-autonomy', tool: '*', autonomy: ['low'], action: 'approve' },
+    {
+      id: 'writes-and-sends',
+      description: 'Writes, sends and system actions need approval at medium autonomy',
+      tool: ['run_shell', 'write_file', 'email_send', 'mastodon_post', 'reddit_post', 'open_application', 'clipboard_write'],
+      action: 'approve',
+    },
+  ],
+  defaultAction: 'allow',
+  risk: {
+    read_file: 'low', list_directory: 'low', recall: 'low', system_info: 'low',
+    web_fetch: 'low', browser_action: 'medium', email_read: 'medium',
+    write_file: 'medium', remember: 'low', schedule_cron: 'medium', save_artifact: 'low',
+    run_shell: 'high', email_send: 'high', mastodon_post: 'high',
+    reddit_post: 'high', open_application: 'high', clipboard_write: 'medium',
+  },
+};
+
+/** Tool globs per settings.toolPermissions category — a disabled category denies outright */
+const TOOL_CATEGORIES: Record<keyof RuntimeSettings['toolPermissions'], string[]> = {
+  shell: ['run_shell'],
+  fileRead: ['read_file', 'list_directory'],
+  fileWrite: ['write_file'],
+  webFetch: ['web_fetch'],
+  browser: ['browser_action'],
+  email: ['email_*'],
+  socialMedia: ['github_*', 'mastodon_*', 'reddit_*'],
+  systemControl: [
+    'clipboard_*', 'send_notification', 'open_application', 'list_processes',
+    'system_info', 'open_url', 'take_screenshot',
+  ],
+};
+
+const ACTIONS: PolicyAction[] = ['allow', 'deny', 'approve'];
+const RISKS: ToolRisk[] = ['low', 'medium', 'high', 'critical'];
+
+// ---- State ---------------------------------------------------
+
+let policy: ToolPolicy = structuredClone(DEFAULT_POLICY);
+const regexCache = new Map<string, RegExp>();
+
+const policyFile = () => path.join(agentConfig.workspace, 'tool-policy.json');
+
+/** Thrown when a policy fails validation */
+export class PolicyError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid tool policy: ${problems.join('; ')}`);
+    this.name = 'PolicyError';
+  }
+}
+
+// ---- Load / Save ---------------------------------------------
+
+export async function initToolPolicy(): Promise<void> {
+  try {
+    const saved = JSON.parse(await fs.readFile(policyFile(), 'utf-8')) as Partial<ToolPolicy>;
+    const loaded = { ...structuredClone(DEFAULT_POLICY), ...saved };
+    const problems = validateToolPolicy(loaded);
+    if (problems.length > 0) throw new PolicyError(problems);
+    policy = loaded;
+    log.info(`Loaded tool policy: ${policy.rules.length} rule(s), default ${policy.defaultAction}`);
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') {
+      // Fail closed: a broken file must not silently fall back to "allow"
+      log.error(`tool-policy.json unusable (${err.message}) — every tool call will need approval until it is fixed`);
+      policy = { rules: [], defaultAction: 'approve', risk: structuredClone(DEFAULT_POLICY.risk) };
+      return;
+    }
+    policy = structuredClone(DEFAULT_POLICY);
+    await fs.writeFile(policyFile(), JSON.stringify(policy, null, 2));
+    log.info('Created default tool-policy.json');
+  }
+}
+
+export function getToolPolicy(): ToolPolicy {
+  return policy;
+}
+
+/** Validate, apply and persist a whole policy; throws PolicyError when invalid */
+export async function saveToolPolicy(next: ToolPolicy): Promise<void> {
+  const problems = validateToolPolicy(next);
+  if (problems.length > 0) throw new PolicyError(problems);
+  policy = structuredClone(next);
+  await fs.writeFile(policyFile(), JSON.stringify(policy, null, 2));
+  log.info(`Tool policy saved: ${policy.rules.length} rule(s)`);
+}
+
+export function validateToolPolicy(p: ToolPolicy): string[] {
+  const problems: string[] = [];
+  if (!Array.isArray(p?.rules)) return ['"rules" must be an array'];
+  if (!ACTIONS.includes(p.defaultAction)) problems.push(`defaultAction must be one of ${ACTIONS.join(', ')}`);
+  for (const [tool, risk] of Object.entries(p.risk ?? {})) {
+    if (!RISKS.includes(risk)) problems.push(`risk.${tool}: "${risk}" is not a risk level`);
+  }
+
+  p.rules.forEach((rule, i) => {
+    const at = `rule ${i + 1}${rule?.id ? ` (${rule.id})` : ''}`;
+    if (!rule || (typeof rule.tool !== 'string' && !Array.isArray(rule.tool))) {
+      problems.push(`${at}: "tool" is required`);
+      return;
+    }
+    if (!ACTIONS.includes(rule.action)) problems.push(`${at}: action must be one of ${ACTIONS.join(', ')}`);
+    if (rule.risk && !RISKS.includes(rule.risk)) problems.push(`${at}: "${rule.risk}" is not a risk level`);
+    for (const [arg, matcher] of Object.entries(rule.args ?? {})) {
+      if (!matcher.glob && !matcher.regex && !matcher.domain) {
+        problems.push(`${at}: args.${arg} needs glob, regex or domain`);
+      }
+      if (matcher.regex) {
+        try {
+          new RegExp(matcher.regex);
+        } catch (err: any) {
+          problems.push(`${at}: args.${arg}.regex — ${err.message}`);
+        }
+      }
+    }
+  });
+  return problems;
+}
+
+// ---- Evaluation ----------------------------------------------
+
+/**
+ * Decide what happens to a tool call. Pure and synchronous, so the
+ * dashboard can dry-run a draft policy against sample calls.
+ */
+export function evaluateToolCall(
+  call: Pick<ToolCall, 'name' | 'input'>,
+  subject: PolicySubject,
+  against: ToolPolicy = policy,
+): PolicyDecision {
+  const autonomy = subject.autonomy ?? getSettings().autonomyLevel;
+  const baseRisk = against.risk?.[call.name] ?? 'medium';
+
+  const category = categoryOf(call.name);
+  if (category && !getSettings().toolPermissions[category]) {
+    return {
+      action: 'deny', risk: baseRisk, ruleIndex: -1,
+      reason: `${category} tools are disabled in settings`,
+    };
+  }
+
+  for (const [i, rule] of against.rules.entries()) {
+    if (!ruleApplies(rule, call, { ...subject, autonomy })) continue;
+    return {
+      action: rule.action,
+      risk: rule.risk ?? baseRisk,
+      ruleIndex: i,
+      reason: rule.description ?? `matched rule ${rule.id ?? i + 1}`,
+    };
+  }
+
+  return {
+    action: against.defaultAction, risk: baseRisk, ruleIndex: -1,
+    reason: `no rule matched (default ${against.defaultAction})`,
+  };
+}
+
+function ruleApplies(rule: ToolPolicyRule, call: Pick<ToolCall, 'name' | 'input'>, subject: PolicySubject): boolean {
+  const tools = Array.isArray(rule.tool) ? rule.tool : [rule.tool];
+  if (!tools.some(t => minimatch(call.name, t))) return false;
+  if (rule.channels?.length && (!subject.channel || !rule.channels.includes(subject.channel))) return false;
+  if (rule.users?.length && (!subject.userId || !rule.users.includes(subject.userId))) return false;
+  if (rule.autonomy?.length && (!subject.autonomy || !rule.autonomy.includes(subject.autonomy))) return false;
+
+  for (const [arg, matcher] of Object.entries(rule.args ?? {})) {
+    if (argMatches(matcher, call.input?.[arg]) === !!matcher.not) return false;
+  }
+  return true;
+}
+
+function argMatches(matcher: ArgMatcher, value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+  if (matcher.glob) {
+    const globs = Array.isArray(matcher.glob) ? matcher.glob : [matcher.glob];
+    const rel = workspaceRelative(text);
+    if (!globs.some(g => minimatch(rel, g, { dot: true }))) return false;
+  }
+  if (matcher.regex && !compile(matcher.regex).test(text)) return false;
+  if (matcher.domain) {
+    const allowed = (Array.isArray(matcher.domain) ? matcher.domain : [matcher.domain]).map(d => d.toLowerCase());
+    const domains = extractDomains(text);
+    if (domains.length === 0) return false;
+    if (!domains.every(d => allowed.some(a => d === a || d.endsWith(`.${a}`)))) return false;
+  }
+  return true;
+}
+
+function workspaceRelative(p: string): string {
+  const workspace = path.resolve(agentConfig.workspace);
+  const resolved = path.resolve(workspace, p);
+  const rel = path.relative(workspace, resolved);
+  return rel.split(path.sep).join('/');
+}
+
+/** Domains of every email address and URL in a value */
+function extractDomains(text: string): string[] {
+  const domains = new Set<string>();
+  for (const m of text.matchAll(/[^\s@<>,;"']+@([a-z0-9.-]+\.[a-z]{2,})/gi)) domains.add(m[1].toLowerCase());
+  for (const m of text.matchAll(/https?:\/\/[^\s"'<>]+/gi)) {
+    try {
+      domains.add(new URL(m[0]).hostname.toLowerCase());
+    } catch { /* not a URL after all */ }
+  }
+  return Array.from(domains);
+}
+
+function compile(source: string): RegExp {
+  let re = regexCache.get(source);
+  if (!re) {
+    re = new RegExp(source);
+    regexCache.set(source, re);
+  }
+  return re;
+}
+
+function categoryOf(tool: string): keyof RuntimeSettings['toolPermissions'] | undefined {
+  for (const [category, globs] of Object.entries(TOOL_CATEGORIES)) {
+    if (globs.some(g => minimatch(tool, g))) return category as keyof RuntimeSettings['toolPermissions'];
+  }
+  return undefined;
+}
+
+// ---- Authorization -------------------------------------------
+
+/** Who is asking for a tool call, passed to executeTool */
+export interface ToolCallContext {
+  channel: ChannelType;
+  userId: string;
+  /** Set for task/sub-agent calls */
+  taskId?: Id;
+  /** Set for chat calls; `channel/userId` of the waiting thread */
+  threadId?: string;
+  /** Shown to the approver: what is asking and why */
+  stepDescription: string;
+  reasoning: string;
+  /** Called once an approval exists, before the call waits on it */
+  onApprovalRequested?: (approval: ApprovalRequest) => Promise<void> | void;
+  /** State to save with an approval so the caller can resume after a restart */
+  continuation?: () => ApprovalContinuation;
+  /** An already-decided approval for this exact call (resuming paused work) */
+  resolvedApproval?: ApprovalRequest;
+  /** Fires when the calling task is cancelled: withdraws a pending approval, stops the tool */
+  signal?: AbortSignal;
+}
+
+export interface ToolCallDecision {
+  allowed: boolean;
+  decision: PolicyDecision;
+  /** Set when a human was asked */
+  approval?: ApprovalRequest;
+}
+
+/**
+ * Apply the policy to a tool call. Calls that need approval are posted
+ * to the requester's channel and block until resolved; rejected or
+ * expired approvals deny the call. Cancelling the task withdraws the
+ * approval and throws its abort reason.
+ */
+export async function authorizeToolCall(tc: ToolCall, ctx: ToolCallContext): Promise<ToolCallDecision> {
+  const decision = evaluateToolCall(tc, { channel: ctx.channel, userId: ctx.userId });
+  if (decision.action !== 'approve') {
+    return { allowed: decision.action === 'allow', decision };
+  }
+
+  // A decision made before a restart still counts, for the same call only
+  const decided = ctx.resolvedApproval;
+  if (decided && decided.status !== 'pending' && decided.proposedAction.tool === tc.name
+    && JSON.stringify(decided.proposedAction.input) === JSON.stringify(tc.input)) {
+    return { allowed: decided.status === 'approved', decision, approval: decided };
+  }
+
+  let approval: ApprovalRequest | undefined;
+  const withdraw = () => {
+    if (approval) withdrawApproval(approval.id, 'the task was cancelled').catch(err => log.warn(`Withdraw failed: ${err}`));
+  };
+  const allowed = await requestApproval({
+    taskId: ctx.taskId,
+    threadId: ctx.threadId,
+    stepDescription: ctx.stepDescription,
+    tool: tc.name,
+    input: tc.input,
+    reasoning: ctx.reasoning,
+    riskLevel: decision.risk,
+    riskExplanation: decision.reason,
+    channel: ctx.channel,
+    userId: ctx.userId,
+    continuation: ctx.continuation?.(),
+    onRequested: async (req) => {
+      approval = req;
+      ctx.signal?.addEventListener('abort', withdraw, { once: true });
+      await ctx.onApprovalRequested?.(req);
+    },
+  }).finally(() => ctx.signal?.removeEventListener('abort', withdraw));
+  ctx.signal?.throwIfAborted();
+
+  if (!allowed) log.info(`Denied ${tc.name} (${approval?.status ?? 'rejected'})`);
+  return { allowed, decision, approval };
+}
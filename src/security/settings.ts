@@ -26,8 +26,14 @@ export interface RuntimeSettings {
   maxToolOutputChars: number;
   gatewayRateLimitPerMin: number;
   llmRateLimitPerMin: number;
+  llmMaxRetries: number;
+  llmQueueMaxWaitMs: number;
   maxRequestBodyBytes: number;
   maxToolCallsPerMessage: number;
+  maxParallelSubtasks: number;
+  maxConcurrentTasks: number;
+  memoryTokenBudget: number;
+  threadSummaryTokenThreshold: number;
 
   // Tool permissions — which tool categories are enabled
   toolPermissions: {
@@ -72,8 +78,14 @@ const DEFAULTS: RuntimeSettings = {
   maxToolOutputChars: 50_000,
   gatewayRateLimitPerMin: 60,
   llmRateLimitPerMin: 30,
+  llmMaxRetries: 3,
+  llmQueueMaxWaitMs: 120_000,
   maxRequestBodyBytes: 1_048_576,
   maxToolCallsPerMessage: 20,
+  maxParallelSubtasks: 3,
+  maxConcurrentTasks: 2,
+  memoryTokenBudget: 800,
+  threadSummaryTokenThreshold: 24_000,
 
   toolPermissions: {
     shell: true,
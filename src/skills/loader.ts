@@ -120,6 +120,15 @@ export function getAllSkills(): SkillManifest[] {
   return Array.from(loadedSkills.values());
 }
 
+/** The first skill whose trigger keywords appear in `text`, for attributing spend */
+export function matchSkill(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  for (const skill of loadedSkills.values()) {
+    if (skill.triggers?.some(t => t && lower.includes(t.toLowerCase()))) return skill.name;
+  }
+  return undefined;
+}
+
 // ---- Register skill management tool --------------------------
 
 registerTool(
@@ -0,0 +1,270 @@
+// ============================================================
+// Approval Policy — Who may decide an approval and how many of
+// them must agree, read from workspace/approval-policy.json.
+// Per risk level: expiry and quorum. Per channel: allow-listed
+// approvers, plus delegations, auto-approve rules for repeated
+// identical actions, and how requesters are notified.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { agentConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import type { ApprovalRequest, ChannelType } from '../types.js';
+
+const log = createLogger('ApprovalPolicy');
+
+export type RiskLevel = ApprovalRequest['riskLevel'];
+
+export interface RiskLevelPolicy {
+  expiryMinutes: number;
+  /** Distinct approvers needed; one rejection always settles */
+  quorum: number;
+}
+
+/** "Keep doing exactly this" — skips the prompt for a matching request */
+export interface AutoApproveRule {
+  id: string;
+  description?: string;
+  /** Tool name or glob */
+  tool: string;
+  /** Every listed argument must equal the request's; omitted arguments may be anything */
+  input?: Record<string, unknown>;
+  /** Restrict the rule to requests from these channels / users */
+  channels?: ChannelType[];
+  users?: string[];
+  /** ISO timestamp after which the rule no longer applies */
+  until?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+/** `to` may decide with `from`'s authority (and is counted as `from`) */
+export interface ApprovalDelegation {
+  from: string;
+  to: string;
+  /** ISO timestamp; open-ended when omitted */
+  until?: string;
+}
+
+/** How the requester hears about a pending request */
+export interface ApprovalNotifyPolicy {
+  /** Send a reminder this many minutes before expiry; 0 turns reminders off */
+  remindBeforeMinutes: number;
+  /**
+   * Where to try next when a request can't be delivered, keyed by the
+   * requester ("telegram:12345", or "*" for anyone): a list of "channel:userId"
+   */
+  fallbacks: Record<string, string[]>;
+}
+
+export interface ApprovalPolicy {
+  levels: Record<RiskLevel, RiskLevelPolicy>;
+  notify: ApprovalNotifyPolicy;
+  /** Users who may decide any approval, per channel. The requester may always decide their own. */
+  approvers: Partial<Record<ChannelType, string[]>>;
+  delegations: ApprovalDelegation[];
+  autoApprove: AutoApproveRule[];
+}
+
+// ---- Defaults (same behavior as before the policy file) ------
+
+const DEFAULT_POLICY: ApprovalPolicy = {
+  levels: {
+    low: { expiryMinutes: 30, quorum: 1 },
+    medium: { expiryMinutes: 30, quorum: 1 },
+    high: { expiryMinutes: 30, quorum: 1 },
+    critical: { expiryMinutes: 30, quorum: 1 },
+  },
+  notify: { remindBeforeMinutes: 5, fallbacks: {} },
+  approvers: {},
+  delegations: [],
+  autoApprove: [],
+};
+
+const RISKS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const CHANNELS: ChannelType[] = ['telegram', 'discord', 'webchat', 'cli'];
+
+/** The dashboard holds the gateway token, so it may decide anything */
+export const DASHBOARD_APPROVER = 'dashboard:admin';
+/** The resolve_approval tool — itself gated by the tool policy */
+export const AGENT_APPROVER = 'agent';
+
+// ---- State ---------------------------------------------------
+
+let policy: ApprovalPolicy = structuredClone(DEFAULT_POLICY);
+
+const policyFile = () => path.join(agentConfig.workspace, 'approval-policy.json');
+
+/** Thrown when an approval policy fails validation */
+export class ApprovalPolicyError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid approval policy: ${problems.join('; ')}`);
+    this.name = 'ApprovalPolicyError';
+  }
+}
+
+// ---- Load / Save ---------------------------------------------
+
+export async function initApprovalPolicy(): Promise<void> {
+  try {
+    const saved = JSON.parse(await fs.readFile(policyFile(), 'utf-8')) as Partial<ApprovalPolicy>;
+    const loaded: ApprovalPolicy = {
+      ...structuredClone(DEFAULT_POLICY),
+      ...saved,
+      levels: { ...structuredClone(DEFAULT_POLICY.levels), ...saved.levels },
+      notify: { ...structuredClone(DEFAULT_POLICY.notify), ...saved.notify },
+    };
+    const problems = validateApprovalPolicy(loaded);
+    if (problems.length > 0) throw new ApprovalPolicyError(problems);
+    policy = loaded;
+    log.info(`Loaded approval policy: ${policy.autoApprove.length} auto-approve rule(s), ${policy.delegations.length} delegation(s)`);
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') {
+      // Defaults are the strictest sensible reading: requester only, no auto-approval
+      log.error(`approval-policy.json unusable (${err.message}) — using defaults until it is fixed`);
+      policy = structuredClone(DEFAULT_POLICY);
+      return;
+    }
+    policy = structuredClone(DEFAULT_POLICY);
+    await fs.writeFile(policyFile(), JSON.stringify(policy, null, 2));
+    log.info('Created default approval-policy.json');
+  }
+}
+
+export function getApprovalPolicy(): ApprovalPolicy {
+  return policy;
+}
+
+/** Validate, apply and persist a whole policy; throws ApprovalPolicyError when invalid */
+export async function saveApprovalPolicy(next: ApprovalPolicy): Promise<void> {
+  const problems = validateApprovalPolicy(next);
+  if (problems.length > 0) throw new ApprovalPolicyError(problems);
+  policy = structuredClone(next);
+  await fs.writeFile(policyFile(), JSON.stringify(policy, null, 2));
+  log.info(`Approval policy saved: ${policy.autoApprove.length} auto-approve rule(s)`);
+}
+
+export function validateApprovalPolicy(p: ApprovalPolicy): string[] {
+  const problems: string[] = [];
+  if (!p?.levels) return ['"levels" is required'];
+
+  for (const risk of RISKS) {
+    const level = p.levels[risk];
+    if (!level) {
+      problems.push(`levels.${risk} is missing`);
+      continue;
+    }
+    if (!(level.expiryMinutes > 0)) problems.push(`levels.${risk}.expiryMinutes must be positive`);
+    if (!Number.isInteger(level.quorum) || level.quorum < 1) problems.push(`levels.${risk}.quorum must be a whole number ≥ 1`);
+  }
+  if (!p.notify) problems.push('"notify" is required');
+  else {
+    if (!(p.notify.remindBeforeMinutes >= 0)) problems.push('notify.remindBeforeMinutes must be 0 or more');
+    for (const [who, targets] of Object.entries(p.notify.fallbacks ?? {})) {
+      if (!Array.isArray(targets)) problems.push(`notify.fallbacks.${who} must be a list of "channel:userId"`);
+      else targets.filter(t => !CHANNELS.includes(t.split(':')[0] as ChannelType) || !t.includes(':'))
+        .forEach(t => problems.push(`notify.fallbacks.${who}: "${t}" is not "channel:userId"`));
+    }
+  }
+  for (const [channel, users] of Object.entries(p.approvers ?? {})) {
+    if (!CHANNELS.includes(channel as ChannelType)) problems.push(`approvers.${channel}: unknown channel`);
+    if (!Array.isArray(users)) problems.push(`approvers.${channel} must be a list of user ids`);
+  }
+  if (!Array.isArray(p.delegations)) problems.push('"delegations" must be an array');
+  else p.delegations.forEach((d, i) => {
+    if (!d?.from || !d?.to) problems.push(`delegation ${i + 1}: "from" and "to" are required`);
+    if (d?.until && isNaN(Date.parse(d.until))) problems.push(`delegation ${i + 1}: "until" is not a date`);
+  });
+  if (!Array.isArray(p.autoApprove)) problems.push('"autoApprove" must be an array');
+  else p.autoApprove.forEach((rule, i) => {
+    const at = `auto-approve rule ${i + 1}${rule?.id ? ` (${rule.id})` : ''}`;
+    if (!rule?.id) problems.push(`${at}: "id" is required`);
+    if (typeof rule?.tool !== 'string') problems.push(`${at}: "tool" is required`);
+    if (rule?.until && isNaN(Date.parse(rule.until))) problems.push(`${at}: "until" is not a date`);
+  });
+  return problems;
+}
+
+// ---- Queries -------------------------------------------------
+
+export function levelPolicy(risk: RiskLevel): RiskLevelPolicy {
+  return policy.levels[risk] ?? DEFAULT_POLICY.levels[risk];
+}
+
+/** The identity approvals are recorded under, e.g. "telegram:12345" */
+export function approverId(channel: string, userId: string): string {
+  return `${channel}:${userId}`;
+}
+
+/**
+ * Whose authority `approver` decides `req` with: their own, a
+ * delegator's, or none (null). Distinct authorities make a quorum.
+ */
+export function authorityFor(req: ApprovalRequest, approver: string): string | null {
+  const quorum = req.quorum ?? 1;
+  if (approver === DASHBOARD_APPROVER) return approver;
+  // The agent can settle a plain approval, never contribute to a quorum
+  if (approver === AGENT_APPROVER) return quorum === 1 ? approver : null;
+  if (isApprover(req, approver)) return approver;
+
+  // A fallback channel is the requester elsewhere
+  const requester = approverId(req.channel, req.userId);
+  const { fallbacks } = policy.notify;
+  if ((fallbacks[requester] ?? fallbacks['*'] ?? []).includes(approver)) return requester;
+
+  const now = Date.now();
+  const delegation = policy.delegations.find(d =>
+    d.to === approver && (!d.until || Date.parse(d.until) > now) && isApprover(req, d.from));
+  return delegation?.from ?? null;
+}
+
+function isApprover(req: ApprovalRequest, who: string): boolean {
+  if (who === approverId(req.channel, req.userId)) return true;
+  const [channel, ...rest] = who.split(':');
+  return policy.approvers[channel as ChannelType]?.includes(rest.join(':')) ?? false;
+}
+
+/**
+ * Whether a request may be auto-approved, or "always" turned into a
+ * rule: never when it is critical or needs more than one approver,
+ * so a single vote can't stand in for the quorum.
+ */
+export function allowsAutoApprove(req: Pick<ApprovalRequest, 'riskLevel' | 'quorum'>): boolean {
+  return req.riskLevel !== 'critical' && (req.quorum ?? 1) <= 1;
+}
+
+/** The auto-approve rule covering this request, if any. Critical and quorum requests always ask. */
+export function matchAutoApprove(
+  req: Pick<ApprovalRequest, 'proposedAction' | 'riskLevel' | 'quorum' | 'channel' | 'userId'>,
+): AutoApproveRule | undefined {
+  if (!allowsAutoApprove(req)) return undefined;
+  const now = Date.now();
+  return policy.autoApprove.find(rule =>
+    minimatch(req.proposedAction.tool, rule.tool)
+    && (!rule.until || Date.parse(rule.until) > now)
+    && (!rule.channels?.length || rule.channels.includes(req.channel))
+    && (!rule.users?.length || rule.users.includes(req.userId))
+    && Object.entries(rule.input ?? {}).every(([k, v]) =>
+      JSON.stringify(req.proposedAction.input?.[k]) === JSON.stringify(v)));
+}
+
+/** Add an auto-approve rule for exactly this action, from this requester, once the request is approved */
+export async function addAutoApproveRule(req: ApprovalRequest, createdBy: string): Promise<AutoApproveRule> {
+  if (req.status !== 'approved' || !allowsAutoApprove(req)) {
+    throw new Error(`Approval ${req.id.slice(0, 8)} can't become an auto-approve rule`);
+  }
+  const rule: AutoApproveRule = {
+    id: `always-${req.proposedAction.tool}-${req.id.slice(0, 8)}`,
+    description: `Always allow ${req.proposedAction.tool} with these arguments`,
+    tool: req.proposedAction.tool,
+    input: structuredClone(req.proposedAction.input),
+    channels: [req.channel],
+    users: [req.userId],
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await saveApprovalPolicy({ ...policy, autoApprove: [...policy.autoApprove, rule] });
+  return rule;
+}
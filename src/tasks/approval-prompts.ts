@@ -0,0 +1,145 @@
+// ============================================================
+// Approval Prompts — Pushes every approval request to the
+// requester's chat as soon as it is raised, with Approve /
+// Always / Reject buttons on channels that render them. Reminds
+// before expiry, falls back to secondary channels when delivery
+// fails, and edits the prompts to show the outcome.
+// ============================================================
+
+import { eventBus } from '../events.js';
+import { createLogger } from '../utils/logger.js';
+import { getChannel, sendMessage, editMessage, registerActionHandler } from '../channels/adapters.js';
+import {
+  getApproval, getPendingApprovals, resolveApproval, addApprovalPrompt, approvalCount,
+  formatApprovalForChat, formatApprovalOutcome, ApprovalError,
+} from './approvals.js';
+import { approverId, addAutoApproveRule, allowsAutoApprove, getApprovalPolicy } from './approval-policy.js';
+import type { ApprovalRequest, ChannelType, Id, MessageAction, SentMessageRef } from '../types.js';
+
+const log = createLogger('Approval');
+
+/** Callback ids: apr:<approval id>:ok | always | no */
+const PREFIX = 'apr';
+
+const reminders = new Map<Id, NodeJS.Timeout>();
+
+// ---- Init ----------------------------------------------------
+
+/**
+ * Start pushing approval requests. Call once channels are up;
+ * requests still pending from before a restart get their reminders back.
+ */
+export function initApprovalNotifier(): void {
+  eventBus.on('approval_requested', (event) => {
+    if (event.type !== 'approval_requested') return;
+    const req = event.approval;
+    sendApprovalPrompt(req).catch(err => log.error(`Approval ${req.id.slice(0, 8)} notification failed: ${err}`));
+    scheduleReminder(req);
+  });
+
+  eventBus.on('approval_resolved', (event) => {
+    if (event.type !== 'approval_resolved') return;
+    const req = event.approval;
+    clearTimeout(reminders.get(req.id));
+    reminders.delete(req.id);
+    if (req.status !== 'pending') updatePrompts(req, formatApprovalOutcome(req));
+  });
+
+  for (const req of getPendingApprovals()) scheduleReminder(req);
+}
+
+// ---- Send ----------------------------------------------------
+
+export async function sendApprovalPrompt(req: ApprovalRequest): Promise<void> {
+  const ref = await deliver(req, (buttons) => formatApprovalForChat(req, { buttons }));
+  if (ref) await addApprovalPrompt(req.id, ref);
+  else log.warn(`Approval ${req.id.slice(0, 8)} could not be delivered anywhere — it is still on the dashboard and /pending`);
+}
+
+function scheduleReminder(req: ApprovalRequest): void {
+  const minutes = getApprovalPolicy().notify.remindBeforeMinutes;
+  const at = req.expiresAt.getTime() - minutes * 60_000;
+  if (minutes <= 0 || at <= Date.now() || reminders.has(req.id)) return;
+
+  reminders.set(req.id, setTimeout(async () => {
+    reminders.delete(req.id);
+    if (getApproval(req.id)?.status !== 'pending') return;
+    const ref = await deliver(req, (buttons) =>
+      `⏰ **Reminder** — this expires in ${minutes} min\n\n${formatApprovalForChat(req, { buttons })}`);
+    if (ref) await addApprovalPrompt(req.id, ref);
+  }, at - Date.now()));
+}
+
+/**
+ * Send to the requester, then to each fallback in turn, until one
+ * channel takes it. Returns where it landed.
+ */
+async function deliver(req: ApprovalRequest, render: (buttons: boolean) => string): Promise<SentMessageRef | undefined> {
+  const requester = approverId(req.channel, req.userId);
+  const { fallbacks } = getApprovalPolicy().notify;
+  const targets = [requester, ...(fallbacks[requester] ?? fallbacks['*'] ?? [])];
+
+  for (const target of targets) {
+    const [channel, ...rest] = target.split(':');
+    const buttons = !!getChannel(channel as ChannelType)?.actions;
+    const ref = await sendMessage({
+      channel: channel as ChannelType,
+      userId: rest.join(':'),
+      text: render(buttons),
+      actions: buttons ? approvalActions(req) : undefined,
+    });
+    if (ref) {
+      if (target !== requester) log.info(`Approval ${req.id.slice(0, 8)} delivered via fallback ${target}`);
+      return ref;
+    }
+  }
+  return undefined;
+}
+
+function updatePrompts(req: ApprovalRequest, text: string, actions?: MessageAction[]): void {
+  for (const ref of req.prompts ?? []) {
+    editMessage(ref, text, actions).catch(err => {
+      log.warn(`Could not update approval prompt ${req.id.slice(0, 8)}: ${err}`);
+    });
+  }
+}
+
+function approvalActions(req: ApprovalRequest): MessageAction[] {
+  return [
+    { id: `${PREFIX}:${req.id}:ok`, label: '✅ Approve', style: 'success' },
+    ...(allowsAutoApprove(req)
+      ? [{ id: `${PREFIX}:${req.id}:always`, label: '🔁 Always', style: 'primary' as const }]
+      : []),
+    { id: `${PREFIX}:${req.id}:no`, label: '❌ Reject', style: 'danger' },
+  ];
+}
+
+// ---- Clicks --------------------------------------------------
+
+registerActionHandler(PREFIX, async (event) => {
+  const [, id, verb] = event.actionId.split(':');
+  const req = getApproval(id);
+  if (!req || req.status !== 'pending') return `This request is already ${req?.status ?? 'gone'}.`;
+
+  const approver = approverId(event.channel, event.userId);
+  try {
+    await resolveApproval(id, verb === 'no' ? 'rejected' : 'approved', approver);
+  } catch (err) {
+    if (err instanceof ApprovalError) return `⚠️ ${err.message}`;
+    throw err;
+  }
+  log.info(`${event.userName} (${approver}) clicked ${verb} on ${id.slice(0, 8)}`);
+
+  let always = '';
+  // Only an approval that settled the request becomes a rule
+  if (verb === 'always' && getApproval(id)?.status === 'approved' && allowsAutoApprove(req)) {
+    always = ` Auto-approve rule "${(await addAutoApproveRule(req, approver)).id}" added.`;
+  }
+
+  if (req.status === 'pending') {
+    // Quorum not met yet — refresh the vote count, keep the buttons
+    updatePrompts(req, formatApprovalForChat(req, { buttons: true }), approvalActions(req));
+    return `👍 Vote recorded — ${approvalCount(req)}/${req.quorum} approvers.${always}`;
+  }
+  return (req.status === 'approved' ? '✅ Approved.' : '❌ Rejected.') + always;
+});
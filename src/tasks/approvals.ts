@@ -1,7 +1,10 @@
 // ============================================================
 // Approval Workflow — Pending action queue with approve/reject
 // Agent proposes action → waits → user approves via chat/dash →
-// agent resumes. Approvals expire after configurable timeout.
+// agent resumes. Expiry, quorum and who may decide come from the
+// approval policy; every vote is kept in the request's history.
+// Each request carries a continuation, so work paused by a
+// restart resumes once the approval is decided.
 // ============================================================
 
 import fs from 'fs/promises';
@@ -10,19 +13,30 @@ import { v4 as uuid } from 'uuid';
 import { agentConfig } from '../config.js';
 import { eventBus } from '../events.js';
 import { createLogger } from '../utils/logger.js';
-import type { ApprovalRequest, ApprovalStatus, ChannelType, Id } from '../types.js';
+import { levelPolicy, authorityFor, matchAutoApprove, allowsAutoApprove } from './approval-policy.js';
+import type {
+  ApprovalContinuation, ApprovalDecision, ApprovalRequest, ChannelType, Id, SentMessageRef,
+} from '../types.js';
 
 const log = createLogger('Approval');
 
 const approvalsDir = () => path.join(agentConfig.workspace, 'approvals');
 const approvals = new Map<Id, ApprovalRequest>();
-const waiters = new Map<Id, {
-  resolve: (approved: boolean) => void;
-  timer: NodeJS.Timeout;
-}>();
+/** In-process callers blocked on a decision */
+const waiters = new Map<Id, (approved: boolean) => void>();
+const expiryTimers = new Map<Id, NodeJS.Timeout>();
 
-// Default expiry: 30 minutes
-const EXPIRY_MS = 30 * 60 * 1000;
+/** Picks up a continuation when nobody in this process is waiting (e.g. after a restart) */
+export type ApprovalResumer = (req: ApprovalRequest & { continuation: ApprovalContinuation }) => Promise<void>;
+const resumers = new Map<ApprovalContinuation['kind'], ApprovalResumer>();
+
+/** Thrown when someone may not vote on an approval, or already has */
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
 
 // ---- Init (load pending approvals from disk) -----------------
 
@@ -38,18 +52,39 @@ export async function initApprovalQueue(): Promise<void> {
       const req = JSON.parse(raw) as ApprovalRequest;
       req.createdAt = new Date(req.createdAt);
       req.expiresAt = new Date(req.expiresAt);
+      if (req.resolvedAt) req.resolvedAt = new Date(req.resolvedAt);
+      req.decisions?.forEach(d => { d.at = new Date(d.at); });
 
       // Expire stale approvals
       if (req.status === 'pending' && new Date() > req.expiresAt) {
         req.status = 'expired';
+        req.resolvedAt = new Date();
+        record(req, { decision: 'expired', by: 'system' });
         await persistApproval(req);
       }
       approvals.set(req.id, req);
+      if (req.status === 'pending') scheduleExpiry(req);
     } catch { /* skip corrupted */ }
   }
 
   const pending = Array.from(approvals.values()).filter(a => a.status === 'pending');
-  log.info(`Approval queue loaded: ${approvals.size} total, ${pending.length} pending`);
+  const resumable = pending.filter(a => a.continuation).length;
+  log.info(`Approval queue loaded: ${approvals.size} total, ${pending.length} pending (${resumable} resumable)`);
+}
+
+/** Register how to continue paused work of one kind (chat turn, sub-agent) */
+export function registerApprovalResumer(kind: ApprovalContinuation['kind'], resumer: ApprovalResumer): void {
+  resumers.set(kind, resumer);
+}
+
+/**
+ * Resume work whose approval was decided (or expired) while nothing was
+ * running to pick it up. Call once channels and providers are ready.
+ */
+export async function resumeDecidedApprovals(): Promise<void> {
+  for (const req of approvals.values()) {
+    if (req.status !== 'pending' && req.continuation) await resumeContinuation(req);
+  }
 }
 
 // ---- Request approval (called by agent loop) -----------------
@@ -57,10 +92,12 @@ export async function initApprovalQueue(): Promise<void> {
 /**
  * Request user approval for a proposed action.
  * Returns a promise that resolves to true (approved) or false (rejected/expired).
- * The agent loop should await this before proceeding.
+ * The agent loop should await this before proceeding. A matching
+ * auto-approve rule settles the request at once, without asking.
  */
 export async function requestApproval(params: {
-  taskId: Id;
+  taskId?: Id;
+  threadId?: string;
   stepDescription: string;
   tool: string;
   input: Record<string, unknown>;
@@ -69,10 +106,16 @@ export async function requestApproval(params: {
   riskExplanation: string;
   channel: ChannelType;
   userId: string;
+  /** Saved with the request so the work can resume after a restart */
+  continuation?: ApprovalContinuation;
+  /** Called once the request is stored, before waiting on it */
+  onRequested?: (req: ApprovalRequest) => Promise<void> | void;
 }): Promise<boolean> {
+  const level = levelPolicy(params.riskLevel);
   const req: ApprovalRequest = {
     id: uuid(),
     taskId: params.taskId,
+    threadId: params.threadId,
     stepDescription: params.stepDescription,
     proposedAction: {
       tool: params.tool,
@@ -85,9 +128,26 @@ export async function requestApproval(params: {
     channel: params.channel,
     userId: params.userId,
     createdAt: new Date(),
-    expiresAt: new Date(Date.now() + EXPIRY_MS),
+    expiresAt: new Date(Date.now() + level.expiryMinutes * 60_000),
+    quorum: level.quorum,
+    decisions: [],
+    continuation: params.continuation,
   };
 
+  const rule = matchAutoApprove(req);
+  if (rule) {
+    req.status = 'approved';
+    req.resolvedAt = new Date();
+    req.resolvedBy = `auto:${rule.id}`;
+    req.continuation = undefined;
+    record(req, { decision: 'approved', by: req.resolvedBy, note: rule.description });
+    approvals.set(req.id, req);
+    await persistApproval(req);
+    eventBus.emit({ type: 'approval_resolved', approval: req });
+    log.info(`Auto-approved ${req.proposedAction.tool} (rule ${rule.id})`);
+    return true;
+  }
+
   approvals.set(req.id, req);
   await persistApproval(req);
   eventBus.emit({ type: 'approval_requested', approval: req });
@@ -95,50 +155,148 @@ export async function requestApproval(params: {
   log.info(`Approval requested: [${req.riskLevel}] ${req.proposedAction.tool} — ${req.stepDescription}`);
 
   // Return a promise that waits for resolution
-  return new Promise<boolean>((resolve) => {
-    const timer = setTimeout(async () => {
-      // Auto-expire
-      if (req.status === 'pending') {
-        req.status = 'expired';
-        req.resolvedAt = new Date();
-        await persistApproval(req);
-        eventBus.emit({ type: 'approval_resolved', approval: req });
-        log.warn(`Approval ${req.id.slice(0, 8)} expired`);
-        resolve(false);
-      }
-      waiters.delete(req.id);
-    }, EXPIRY_MS);
-
-    waiters.set(req.id, { resolve, timer });
+  const decision = new Promise<boolean>((resolve) => {
+    waiters.set(req.id, resolve);
+    scheduleExpiry(req);
   });
+
+  try {
+    await params.onRequested?.(req);
+  } catch (err) {
+    log.warn(`Approval ${req.id.slice(0, 8)} notification failed: ${err}`);
+  }
+  return decision;
+}
+
+function scheduleExpiry(req: ApprovalRequest): void {
+  const timer = setTimeout(async () => {
+    expiryTimers.delete(req.id);
+    if (req.status !== 'pending') return;
+    req.status = 'expired';
+    req.resolvedAt = new Date();
+    record(req, { decision: 'expired', by: 'system' });
+    log.warn(`Approval ${req.id.slice(0, 8)} expired`);
+    await settle(req, false);
+  }, Math.max(0, req.expiresAt.getTime() - Date.now()));
+  expiryTimers.set(req.id, timer);
 }
 
 // ---- Resolve (called by user via chat or dashboard) ----------
 
+/**
+ * Record one approver's vote. A rejection settles the request; an
+ * approval settles it once `quorum` distinct approvers agree, and
+ * until then the request stays pending. Returns null when there is
+ * no such pending request; throws ApprovalError when `approver` may
+ * not vote on it or already has.
+ */
 export async function resolveApproval(
   approvalId: Id,
   decision: 'approved' | 'rejected',
-  resolvedBy?: string,
+  approver: string,
+  note?: string,
 ): Promise<ApprovalRequest | null> {
   const req = approvals.get(approvalId);
   if (!req || req.status !== 'pending') return null;
 
+  const authority = authorityFor(req, approver);
+  if (!authority) throw new ApprovalError(`${approver} is not an approver for ${approvalId.slice(0, 8)}`);
+  if (req.decisions?.some(d => d.by === approver || (d.onBehalfOf ?? d.by) === authority)) {
+    throw new ApprovalError(`${authority} has already voted on ${approvalId.slice(0, 8)}`);
+  }
+  record(req, { decision, by: approver, onBehalfOf: authority !== approver ? authority : undefined, note });
+
+  if (decision === 'approved' && approvalCount(req) < (req.quorum ?? 1)) {
+    await persistApproval(req);
+    log.info(`Approval ${approvalId.slice(0, 8)}: ${approvalCount(req)}/${req.quorum} approvals (latest ${approver})`);
+    return req;
+  }
+
   req.status = decision;
   req.resolvedAt = new Date();
-  req.resolvedBy = resolvedBy;
+  req.resolvedBy = authority;
+  clearTimeout(expiryTimers.get(approvalId));
+  expiryTimers.delete(approvalId);
+
+  await settle(req, decision === 'approved');
+  log.info(`Approval ${approvalId.slice(0, 8)} ${decision} by ${approver}`);
+  return req;
+}
+
+/** Distinct approvers who have approved so far */
+export function approvalCount(req: ApprovalRequest): number {
+  const approvers = (req.decisions ?? [])
+    .filter(d => d.decision === 'approved')
+    .map(d => d.onBehalfOf ?? d.by);
+  return new Set(approvers).size;
+}
+
+function record(req: ApprovalRequest, decision: Omit<ApprovalDecision, 'at'>): void {
+  (req.decisions ??= []).push({ ...decision, at: new Date() });
+}
+
+/**
+ * Withdraw a pending approval without resuming anything — used when
+ * the work it guarded is being redone another way.
+ */
+export async function withdrawApproval(approvalId: Id, reason: string): Promise<void> {
+  const req = approvals.get(approvalId);
+  if (!req || req.status !== 'pending') return;
+
+  req.status = 'expired';
+  req.resolvedAt = new Date();
+  req.resolvedBy = 'system';
+  req.continuation = undefined;
+  record(req, { decision: 'withdrawn', by: 'system', note: reason });
+  clearTimeout(expiryTimers.get(approvalId));
+  expiryTimers.delete(approvalId);
+  waiters.get(approvalId)?.(false);
+  waiters.delete(approvalId);
+
   await persistApproval(req);
+  eventBus.emit({ type: 'approval_resolved', approval: req });
+  log.info(`Approval ${approvalId.slice(0, 8)} withdrawn: ${reason}`);
+}
 
-  // Wake up the waiting agent
-  const waiter = waiters.get(approvalId);
-  if (waiter) {
-    clearTimeout(waiter.timer);
-    waiter.resolve(decision === 'approved');
-    waiters.delete(approvalId);
-  }
+/** Wake the waiting caller, or hand the continuation to its resumer */
+async function settle(req: ApprovalRequest, approved: boolean): Promise<void> {
+  const waiter = waiters.get(req.id);
+  waiters.delete(req.id);
+  if (waiter) req.continuation = undefined;
 
+  await persistApproval(req);
   eventBus.emit({ type: 'approval_resolved', approval: req });
-  log.info(`Approval ${approvalId.slice(0, 8)} ${decision} by ${resolvedBy || 'user'}`);
-  return req;
+
+  if (waiter) waiter(approved);
+  else await resumeContinuation(req);
+}
+
+async function resumeContinuation(req: ApprovalRequest): Promise<void> {
+  const continuation = req.continuation;
+  if (!continuation) return;
+  const resumer = resumers.get(continuation.kind);
+  if (!resumer) {
+    log.warn(`No resumer for ${continuation.kind} approvals — ${req.id.slice(0, 8)} left as is`);
+    return;
+  }
+
+  // Cleared first so a crash mid-resume can't replay the tool call
+  req.continuation = undefined;
+  await persistApproval(req);
+  log.info(`Resuming ${continuation.kind} work after approval ${req.id.slice(0, 8)} (${req.status})`);
+
+  // Runs in the background: the caller may be an HTTP request or a chat command
+  resumer({ ...req, continuation }).catch(err => {
+    log.error(`Resuming after approval ${req.id.slice(0, 8)} failed: ${err?.message ?? err}`);
+  });
+}
+
+/** Remember a chat message that asked, so it can be edited once decided */
+export async function addApprovalPrompt(approvalId: Id, prompt: SentMessageRef): Promise<void> {
+  const req = approvals.get(approvalId);
+  if (!req) return;
+  (req.prompts ??= []).push(prompt);
+  await persistApproval(req);
 }
 
 // ---- Queries -------------------------------------------------
@@ -149,6 +307,14 @@ export function getPendingApprovals(userId?: string): ApprovalRequest[] {
     .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 }
 
+/** Pending approvals `approver` may vote on (and has not yet) */
+export function getDecidableApprovals(approver: string): ApprovalRequest[] {
+  return getPendingApprovals().filter(a => {
+    const authority = authorityFor(a, approver);
+    return authority && !a.decisions?.some(d => d.by === approver || (d.onBehalfOf ?? d.by) === authority);
+  });
+}
+
 export function getApproval(id: Id): ApprovalRequest | undefined {
   return approvals.get(id);
 }
@@ -160,12 +326,13 @@ export function getAllApprovals(): ApprovalRequest[] {
 
 // ---- Format approval for chat display ------------------------
 
-export function formatApprovalForChat(req: ApprovalRequest): string {
-  const riskEmoji: Record<string, string> = {
-    low: '🟢', medium: '🟡', high: '🟠', critical: '🔴',
-  };
+const riskEmoji: Record<string, string> = {
+  low: '🟢', medium: '🟡', high: '🟠', critical: '🔴',
+};
 
-  return [
+/** `buttons`: the channel shows approve/reject buttons, so skip the command hints */
+export function formatApprovalForChat(req: ApprovalRequest, opts: { buttons?: boolean } = {}): string {
+  const details = [
     `${riskEmoji[req.riskLevel] || '⚪'} **Approval Required** [${req.id.slice(0, 8)}]`,
     ``,
     `**Action:** \`${req.proposedAction.tool}\``,
@@ -173,12 +340,37 @@ export function formatApprovalForChat(req: ApprovalRequest): string {
     `**Risk:** ${req.riskLevel.toUpperCase()} — ${req.riskExplanation}`,
     ``,
     `**Details:** ${req.stepDescription}`,
+    ...((req.quorum ?? 1) > 1 ? [`**Needs:** ${req.quorum} approvers (${approvalCount(req)} so far)`] : []),
+  ];
+  const expires = `⏰ Expires: ${req.expiresAt.toISOString().slice(0, 16)}`;
+  if (opts.buttons) return [...details, ``, expires].join('\n');
+
+  return [
+    ...details,
     ``,
     `Reply with:`,
     `  \`/approve ${req.id.slice(0, 8)}\` — proceed`,
+    ...(allowsAutoApprove(req) ? [`  \`/approve ${req.id.slice(0, 8)} always\` — proceed, and don't ask again for this exact action`] : []),
     `  \`/reject ${req.id.slice(0, 8)}\` — cancel`,
     ``,
-    `⏰ Expires: ${req.expiresAt.toISOString().slice(0, 16)}`,
+    expires,
+  ].join('\n');
+}
+
+/** What a decided prompt is edited to read */
+export function formatApprovalOutcome(req: ApprovalRequest): string {
+  const outcome: Record<string, string> = {
+    approved: '✅ Approved', rejected: '❌ Rejected', expired: '⌛ Expired', pending: '⏳ Pending',
+  };
+  const votes = (req.decisions ?? [])
+    .filter(d => d.decision === 'approved' || d.decision === 'rejected')
+    .map(d => `${d.decision} by ${d.by}${d.onBehalfOf ? ` for ${d.onBehalfOf}` : ''}`);
+
+  return [
+    `${outcome[req.status]}: \`${req.proposedAction.tool}\` [${req.id.slice(0, 8)}]`,
+    `**Details:** ${req.stepDescription}`,
+    ...(votes.length ? [`**Votes:** ${votes.join(', ')}`] : []),
+    ...(req.resolvedBy === 'system' ? [`(${req.decisions?.at(-1)?.note ?? 'withdrawn'})`] : []),
   ].join('\n');
 }
 
@@ -0,0 +1,187 @@
+// ============================================================
+// Task Artifacts — Reports, screenshots, written files and
+// structured outputs a task produced, copied into
+// workspace/tasks/<task id>/artifacts/ next to an index of their
+// metadata. A subtask's outputs belong to its top-level task,
+// tagged with the subtask that made them. Sent as attachments
+// with the completion message; downloadable from the dashboard.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuid } from 'uuid';
+import { agentConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import { getTask } from './queue.js';
+import type { Attachment, Id, TaskArtifact } from '../types.js';
+
+const log = createLogger('Artifacts');
+
+/** Discord's upload cap; Telegram allows 50 MB */
+const MAX_ARTIFACT_BYTES = 25 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif',
+  '.webp': 'image/webp', '.svg': 'image/svg+xml', '.pdf': 'application/pdf',
+  '.json': 'application/json', '.csv': 'text/csv', '.md': 'text/markdown', '.txt': 'text/plain',
+  '.html': 'text/html', '.xml': 'application/xml', '.yaml': 'application/yaml', '.yml': 'application/yaml',
+  '.zip': 'application/zip', '.mp3': 'audio/mpeg', '.mp4': 'video/mp4',
+};
+
+const artifactsDir = (taskId: Id) => path.join(agentConfig.workspace, 'tasks', taskId, 'artifacts');
+const indexFile = (taskId: Id) => path.join(artifactsDir(taskId), 'index.json');
+
+// Index updates per task, one at a time — parallel sub-agents share one index
+const indexLocks = new Map<Id, Promise<unknown>>();
+
+/** Thrown when an artifact can't be stored */
+export class ArtifactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactError';
+  }
+}
+
+// ---- Save ----------------------------------------------------
+
+/**
+ * Store content as an artifact of `taskId` (or of its top-level
+ * task, when `taskId` is a subtask). An artifact with the same
+ * `source` is replaced.
+ */
+export async function saveArtifact(taskId: Id, params: {
+  name: string;
+  data: Buffer | string;
+  mimeType?: string;
+  description?: string;
+  tool?: string;
+  source?: string;
+}): Promise<TaskArtifact> {
+  const data = typeof params.data === 'string' ? Buffer.from(params.data) : params.data;
+  if (data.length > MAX_ARTIFACT_BYTES) {
+    throw new ArtifactError(`"${params.name}" is ${formatBytes(data.length)}; artifacts are capped at ${formatBytes(MAX_ARTIFACT_BYTES)}`);
+  }
+
+  const rootId = rootTaskId(taskId);
+  const artifact: TaskArtifact = {
+    id: uuid(),
+    taskId: rootId,
+    name: path.basename(params.name),
+    mimeType: params.mimeType || guessMimeType(params.name),
+    size: data.length,
+    subtaskId: rootId !== taskId ? taskId : undefined,
+    tool: params.tool,
+    source: params.source,
+    description: params.description,
+    createdAt: new Date(),
+  };
+
+  await withIndex(rootId, async (index) => {
+    await fs.mkdir(artifactsDir(rootId), { recursive: true });
+    await fs.writeFile(storedPath(artifact), data);
+
+    const replaced = params.source ? index.findIndex(a => a.source === params.source) : -1;
+    if (replaced >= 0) {
+      await fs.rm(storedPath(index[replaced]), { force: true });
+      index.splice(replaced, 1);
+    }
+    index.push(artifact);
+  });
+
+  log.info(`Task ${rootId.slice(0, 8)}: artifact "${artifact.name}" (${artifact.mimeType}, ${formatBytes(artifact.size)})${artifact.tool ? ` from ${artifact.tool}` : ''}`);
+  return artifact;
+}
+
+/** Copy a file (already sandbox-checked by the caller) in as an artifact */
+export async function saveArtifactFile(taskId: Id, filePath: string, params: {
+  name?: string;
+  mimeType?: string;
+  description?: string;
+  tool?: string;
+} = {}): Promise<TaskArtifact> {
+  const stat = await fs.stat(filePath);
+  if (stat.size > MAX_ARTIFACT_BYTES) {
+    throw new ArtifactError(`${path.basename(filePath)} is ${formatBytes(stat.size)}; artifacts are capped at ${formatBytes(MAX_ARTIFACT_BYTES)}`);
+  }
+  return saveArtifact(taskId, {
+    ...params,
+    name: params.name || path.basename(filePath),
+    data: await fs.readFile(filePath),
+    source: path.relative(agentConfig.workspace, filePath),
+  });
+}
+
+// ---- Read ----------------------------------------------------
+
+/** A task's artifacts, oldest first (a subtask's are listed under its top-level task) */
+export async function listArtifacts(taskId: Id): Promise<TaskArtifact[]> {
+  return readIndex(rootTaskId(taskId));
+}
+
+/** An artifact and where its content is on disk */
+export async function getArtifactFile(taskId: Id, artifactId: Id): Promise<{ artifact: TaskArtifact; path: string } | null> {
+  const artifact = (await listArtifacts(taskId)).find(a => a.id === artifactId);
+  return artifact ? { artifact, path: storedPath(artifact) } : null;
+}
+
+/** Artifacts as message attachments */
+export async function artifactAttachments(taskId: Id): Promise<Attachment[]> {
+  return (await listArtifacts(taskId)).map(a => ({
+    type: a.mimeType.startsWith('image/') ? 'image' : a.mimeType.startsWith('audio/') ? 'audio'
+      : a.mimeType.startsWith('video/') ? 'video' : 'file',
+    path: storedPath(a),
+    mimeType: a.mimeType,
+    name: a.name,
+  }));
+}
+
+export function guessMimeType(name: string): string {
+  return MIME_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// ---- Helpers -------------------------------------------------
+
+function rootTaskId(taskId: Id): Id {
+  let task = getTask(taskId);
+  while (task?.parentId) {
+    const parent = getTask(task.parentId);
+    if (!parent) break;
+    task = parent;
+  }
+  return task?.id ?? taskId;
+}
+
+function storedPath(artifact: TaskArtifact): string {
+  const safeName = artifact.name.replace(/[^\w.-]+/g, '_');
+  return path.join(artifactsDir(artifact.taskId), `${artifact.id.slice(0, 8)}-${safeName}`);
+}
+
+async function readIndex(taskId: Id): Promise<TaskArtifact[]> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexFile(taskId), 'utf-8')) as TaskArtifact[];
+    return index.map(a => ({ ...a, createdAt: new Date(a.createdAt) }));
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') log.warn(`Artifact index for ${taskId.slice(0, 8)} unreadable: ${err.message}`);
+    return [];
+  }
+}
+
+async function withIndex(taskId: Id, update: (index: TaskArtifact[]) => Promise<void>): Promise<void> {
+  const run = (indexLocks.get(taskId) ?? Promise.resolve()).catch(() => {}).then(async () => {
+    const index = await readIndex(taskId);
+    await update(index);
+    await fs.writeFile(indexFile(taskId), JSON.stringify(index, null, 2));
+  });
+  indexLocks.set(taskId, run);
+  try {
+    await run;
+  } finally {
+    if (indexLocks.get(taskId) === run) indexLocks.delete(taskId);
+  }
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
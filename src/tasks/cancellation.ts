@@ -0,0 +1,44 @@
+// ============================================================
+// Task Cancellation — One AbortController per running task.
+// Its signal is threaded through LLM calls, tool calls, shell
+// child processes and the browser, so cancelling a task stops
+// the work itself, not just its status. Pausing doesn't abort:
+// loops stop at their next safe point (see throwIfTaskStopped).
+// ============================================================
+
+import type { Id } from '../types.js';
+
+/** Thrown where a task's work stops because it was cancelled, paused or failed from outside */
+export class TaskStoppedError extends Error {
+  constructor(
+    public readonly taskId: Id,
+    public readonly status: 'cancelled' | 'paused' | 'failed',
+  ) {
+    super(`Task ${taskId.slice(0, 8)} stopped: ${status}`);
+    this.name = 'TaskStoppedError';
+  }
+}
+
+const controllers = new Map<Id, AbortController>();
+
+/** The signal that fires when this task is cancelled (or failed, e.g. past its deadline) */
+export function taskSignal(taskId: Id): AbortSignal {
+  let controller = controllers.get(taskId);
+  if (!controller) {
+    controller = new AbortController();
+    controllers.set(taskId, controller);
+  }
+  return controller.signal;
+}
+
+/** Abort whatever the task is doing; a later run gets a fresh signal */
+export function abortTask(taskId: Id, status: 'cancelled' | 'failed' = 'cancelled'): void {
+  const controller = controllers.get(taskId);
+  controllers.delete(taskId);
+  controller?.abort(new TaskStoppedError(taskId, status));
+}
+
+/** Drop a finished task's controller */
+export function releaseTaskSignal(taskId: Id): void {
+  controllers.delete(taskId);
+}
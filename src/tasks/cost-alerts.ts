@@ -0,0 +1,100 @@
+// ============================================================
+// Cost Alerts — Pushes spend alerts (budget levels, forecasts
+// past a budget, unusual hours) to the owner's chat, with
+// snooze buttons on channels that render them. A snooze mutes
+// the chat messages only: alerts are still raised as events
+// and listed on the dashboard.
+// ============================================================
+
+import fs from 'fs/promises';
+import path from 'path';
+import { agentConfig, heartbeatConfig } from '../config.js';
+import { eventBus } from '../events.js';
+import { createLogger } from '../utils/logger.js';
+import { getChannel, sendMessage, registerActionHandler } from '../channels/adapters.js';
+import type { ChannelType, CostAlert, MessageAction } from '../types.js';
+
+const log = createLogger('CostAlerts');
+
+/** Callback ids: cst:snooze:<minutes> */
+const PREFIX = 'cst';
+const SNOOZE_OPTIONS = [60, 24 * 60];
+
+let snoozedUntil: Date | null = null;
+
+const snoozeFile = () => path.join(agentConfig.workspace, 'cost-alerts.json');
+
+// ---- Init ----------------------------------------------------
+
+/** Start pushing spend alerts to the owner. Call once channels are up. */
+export async function initCostAlertNotifier(): Promise<void> {
+  try {
+    const saved = JSON.parse(await fs.readFile(snoozeFile(), 'utf-8'));
+    if (saved.snoozedUntil) snoozedUntil = new Date(saved.snoozedUntil);
+  } catch { /* not snoozed */ }
+
+  eventBus.on('cost_alert', (event) => {
+    if (event.type !== 'cost_alert') return;
+    sendCostAlert(event.alert).catch(err => log.error(`Spend alert notification failed: ${err}`));
+  });
+}
+
+// ---- Send ----------------------------------------------------
+
+async function sendCostAlert(alert: CostAlert): Promise<void> {
+  const until = getCostAlertSnooze();
+  if (until) {
+    log.info(`Spend alert muted until ${until.toISOString()}: ${alert.message}`);
+    return;
+  }
+
+  // The owner: the heartbeat channel and the first allowed user
+  const channel = heartbeatConfig.channel as ChannelType;
+  const buttons = !!getChannel(channel)?.actions;
+  const title = alert.kind === 'anomaly' ? 'Unusual spend' : alert.kind === 'forecast' ? 'Spend forecast' : 'Budget';
+  await sendMessage({
+    channel,
+    userId: agentConfig.allowedUserIds[0] || 'owner',
+    text: `💸 *${title}*\n\n${alert.message}${buttons ? '' : '\n\nReply `/cost snooze 1h` to mute spend alerts.'}`,
+    actions: buttons ? snoozeActions() : undefined,
+  });
+}
+
+function snoozeActions(): MessageAction[] {
+  return SNOOZE_OPTIONS.map(minutes => ({
+    id: `${PREFIX}:snooze:${minutes}`,
+    label: `😴 Snooze ${formatMinutes(minutes)}`,
+    style: 'secondary' as const,
+  }));
+}
+
+// ---- Snooze --------------------------------------------------
+
+/** When spend alerts are muted until, or null */
+export function getCostAlertSnooze(): Date | null {
+  return snoozedUntil && snoozedUntil.getTime() > Date.now() ? snoozedUntil : null;
+}
+
+/** Mute spend alerts in chat for `minutes`; 0 unmutes. Returns the end of the snooze. */
+export async function snoozeCostAlerts(minutes: number): Promise<Date | null> {
+  snoozedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60_000) : null;
+  await fs.writeFile(snoozeFile(), JSON.stringify({ snoozedUntil }, null, 2));
+  log.info(snoozedUntil ? `Spend alerts snoozed until ${snoozedUntil.toISOString()}` : 'Spend alerts unsnoozed');
+  return snoozedUntil;
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+// ---- Clicks --------------------------------------------------
+
+registerActionHandler(PREFIX, async (event) => {
+  const minutes = parseInt(event.actionId.split(':')[2], 10);
+  if (!(minutes > 0)) return 'This button is no longer active.';
+  const until = await snoozeCostAlerts(minutes);
+  log.info(`${event.userName} snoozed spend alerts for ${formatMinutes(minutes)}`);
+  return `😴 Spend alerts muted until ${until!.toLocaleString()}.`;
+});
@@ -1,6 +1,12 @@
 // ============================================================
 // Cost Tracker — Token counting, spend tracking, budget limits
-// Persisted daily, with configurable alerts and hard caps.
+// Persisted daily, with configurable alerts and hard caps:
+// daily, rolling weekly and monthly totals, per-task ceilings,
+// and per-user / per-channel daily allowances. Every call is
+// tagged with where it came from, for attribution reports.
+// Projects end-of-day / end-of-month spend from the burn rate
+// and raises alerts (as events) for budget levels, forecasts
+// past a budget, and hours far above the usual spend.
 // ============================================================
 
 import fs from 'fs/promises';
@@ -9,6 +15,9 @@ import { agentConfig } from '../config.js';
 import { eventBus } from '../events.js';
 import { createLogger } from '../utils/logger.js';
 import { registerTool } from '../tools/registry.js';
+import { getTask } from './queue.js';
+import { costOf, getPricingVersion } from '../llm/pricing.js';
+import type { CostAlert, Id, TokenUsage } from '../types.js';
 
 const log = createLogger('Costs');
 
@@ -16,27 +25,146 @@ interface DailyUsage {
   date: string;
   inputTokens: number;
   outputTokens: number;
+  /** Input read from / written to a prompt cache (absent before cache tracking) */
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   estimatedCost: number;
   callCount: number;
   byModel: Record<string, { input: number; output: number; cost: number; calls: number }>;
+  /** Provider failovers (absent on days recorded before failover tracking) */
+  failovers?: FailoverRecord[];
+  /** Pricing catalogue version the day's calls were priced with */
+  pricingVersion?: string;
+  /** Spend by "channel/userId" and by channel (absent on days recorded before allowances) */
+  byUser?: Record<string, SpendTally>;
+  byChannel?: Record<string, SpendTally>;
+  /** Spend by origin tags and model (absent on days recorded before attribution) */
+  attribution?: AttributionRow[];
+  /** $ per UTC hour (absent on days recorded before forecasting) */
+  byHour?: number[];
+  /** Alerts raised this day */
+  alerts?: CostAlert[];
 }
 
+interface SpendTally {
+  cost: number;
+  calls: number;
+}
+
+/** One combination of tags and model, summed over the day */
+interface AttributionRow extends UsageTags {
+  model: string;            // provider/model that answered
+  input: number;            // cache reads/writes included, as in byModel
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  cost: number;
+  calls: number;
+}
+
+interface FailoverRecord {
+  at: string;
+  from: string;             // provider/model that failed
+  to: string;               // provider/model tried next
+  reason: string;
+}
+
+const MAX_FAILOVERS_PER_DAY = 200;
+
+/** Hours the burn rate is averaged over, the current one included */
+const BURN_WINDOW_HOURS = 3;
+/** Hours with spend needed before an hour can count as unusual */
+const MIN_BASELINE_HOURS = 6;
+
+const TAG_FIELDS = ['source', 'channel', 'userId', 'taskId', 'triggerId', 'role', 'skill'] as const;
+
 interface CostConfig {
   dailyBudget: number;      // $ per day, 0 = no limit
-  weeklyBudget: number;     // $ per week, 0 = no limit
+  weeklyBudget: number;     // $ per rolling 7 days, 0 = no limit
+  monthlyBudget: number;    // $ per rolling 30 days, 0 = no limit
   warnAtPercent: number;    // warn when this % of budget is used (default 80)
   hardStop: boolean;        // block LLM calls when budget exceeded
+  taskBudget: number;       // $ ceiling per task unless the task sets its own, 0 = no limit
+  /** $ per day by "channel/userId", userId, or "*" for everyone else — always enforced */
+  userDailyBudgets: Record<string, number>;
+  /** $ per day by channel — always enforced */
+  channelDailyBudgets: Record<string, number>;
+  anomalyMultiplier: number; // alert when an hour costs this many times the 7-day median hour, 0 = off
+  anomalyMinSpend: number;   // ...and at least this many $
+}
+
+/** Where spend is heading, from the recent burn rate */
+export interface SpendForecast {
+  /** $ per hour over the last few hours */
+  burnRate: number;
+  spentToday: number;
+  projectedToday: number;
+  /** Rolling 30 days, today included — the window monthlyBudget caps */
+  spent30Days: number;
+  /** Highest the rolling 30-day total gets over the next 30 days at the recent daily rate */
+  projected30Days: number;
+  thisHour: number;
+  /** Median $ of the hours with spend in the past 7 days; null until there are enough */
+  hourlyMedian: number | null;
+}
+
+/** Who or what a call is on behalf of — selects the allowances that apply */
+export interface BudgetScope {
+  channel?: string;
+  userId?: string;
+  /** The task whose ceiling applies (the top-level task for sub-agents) */
+  taskId?: Id;
+}
+
+/** What started a call */
+export type UsageSource = 'message' | 'heartbeat' | 'trigger' | 'task' | 'subagent' | 'memory';
+
+/** Where a call came from; the budget scope plus the tags spend is attributed by */
+export interface UsageTags extends BudgetScope {
+  source?: UsageSource;
+  triggerId?: Id;
+  /** Sub-agent role */
+  role?: string;
+  /** Skill the call was made for */
+  skill?: string;
+}
+
+export type BudgetCap = 'daily' | 'weekly' | 'monthly' | 'channel' | 'user' | 'task';
+
+/** A cap that blocks further calls */
+export interface BudgetBlock {
+  cap: BudgetCap;
+  spent: number;
+  limit: number;
+  /** Names the cap, for the user */
+  message: string;
+}
+
+/** Thrown where a loop stops because a cap was hit */
+export class BudgetExceededError extends Error {
+  constructor(public readonly block: BudgetBlock) {
+    super(block.message);
+    this.name = 'BudgetExceededError';
+  }
 }
 
 const costFile = () => path.join(agentConfig.workspace, 'costs.json');
 const configFile = () => path.join(agentConfig.workspace, 'cost-config.json');
 
 let todayUsage: DailyUsage = emptyDay();
+// Earlier days, for the rolling weekly and monthly totals
+let pastDays: DailyUsage[] = [];
 let costConfig: CostConfig = {
   dailyBudget: 0,
   weeklyBudget: 0,
+  monthlyBudget: 0,
   warnAtPercent: 80,
   hardStop: false,
+  taskBudget: 0,
+  userDailyBudgets: {},
+  channelDailyBudgets: {},
+  anomalyMultiplier: 5,
+  anomalyMinSpend: 0.5,
 };
 
 function emptyDay(): DailyUsage {
@@ -44,9 +172,24 @@ function emptyDay(): DailyUsage {
     date: new Date().toISOString().slice(0, 10),
     inputTokens: 0, outputTokens: 0, estimatedCost: 0, callCount: 0,
     byModel: {},
+    failovers: [],
+    byUser: {},
+    byChannel: {},
+    byHour: new Array(24).fill(0),
+    alerts: [],
   };
 }
 
+/** Persist and reset the in-memory day once the date changes */
+async function rollDay(): Promise<void> {
+  const today = new Date().toISOString().slice(0, 10);
+  if (todayUsage.date !== today) {
+    await saveUsage();
+    pastDays = [...pastDays, todayUsage].slice(-90);
+    todayUsage = emptyDay();
+  }
+}
+
 // ---- Init ----------------------------------------------------
 
 export async function initCostTracker(): Promise<void> {
@@ -62,32 +205,34 @@ export async function initCostTracker(): Promise<void> {
     const all = JSON.parse(raw) as DailyUsage[];
     const today = new Date().toISOString().slice(0, 10);
     todayUsage = all.find(d => d.date === today) || emptyDay();
+    pastDays = all.filter(d => d.date < today);
   } catch { /* fresh start */ }
 
-  log.info(`Cost tracker initialized. Today: $${todayUsage.estimatedCost.toFixed(4)} (${todayUsage.callCount} calls). Budget: $${costConfig.dailyBudget || '∞'}/day`);
+  log.info(`Cost tracker initialized. Today: $${todayUsage.estimatedCost.toFixed(4)} (${todayUsage.callCount} calls). Budget: $${costConfig.dailyBudget || '∞'}/day, $${costConfig.weeklyBudget || '∞'}/week, $${costConfig.monthlyBudget || '∞'}/month`);
 }
 
 // ---- Track a call --------------------------------------------
 
+/** Record one call, priced from the catalogue for the model that answered and attributed by `tags` */
 export async function trackUsage(
+  provider: string,
   model: string,
-  inputTokens: number,
-  outputTokens: number,
-  costPer1kIn = 0.003,
-  costPer1kOut = 0.015,
+  usage: TokenUsage,
+  tags: UsageTags = {},
 ): Promise<{ allowed: boolean; warning?: string }> {
-  const today = new Date().toISOString().slice(0, 10);
-  if (todayUsage.date !== today) {
-    await saveUsage();
-    todayUsage = emptyDay();
-  }
+  await rollDay();
 
-  const callCost = (inputTokens / 1000) * costPer1kIn + (outputTokens / 1000) * costPer1kOut;
+  const callCost = costOf(provider, model, usage);
+  const inputTokens = usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+  const outputTokens = usage.outputTokens;
 
   todayUsage.inputTokens += inputTokens;
   todayUsage.outputTokens += outputTokens;
+  if (usage.cacheReadTokens) todayUsage.cacheReadTokens = (todayUsage.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+  if (usage.cacheWriteTokens) todayUsage.cacheWriteTokens = (todayUsage.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
   todayUsage.estimatedCost += callCost;
   todayUsage.callCount++;
+  todayUsage.pricingVersion = getPricingVersion();
 
   // Per-model tracking
   if (!todayUsage.byModel[model]) {
@@ -98,37 +243,255 @@ export async function trackUsage(
   todayUsage.byModel[model].cost += callCost;
   todayUsage.byModel[model].calls++;
 
+  // Per-user / per-channel tracking, for the daily allowances
+  if (tags.channel) {
+    tally(todayUsage.byChannel ??= {}, tags.channel, callCost);
+    if (tags.userId) tally(todayUsage.byUser ??= {}, `${tags.channel}/${tags.userId}`, callCost);
+  }
+
+  attribute(todayUsage.attribution ??= [], tags, `${provider}/${model}`, usage, callCost);
+  (todayUsage.byHour ??= new Array(24).fill(0))[new Date().getUTCHours()] += callCost;
+
+  checkSpendAlerts();
   await saveUsage();
 
-  // Budget checks
+  // Budget checks — the tightest global cap decides the warning
   let warning: string | undefined;
   let allowed = true;
 
-  if (costConfig.dailyBudget > 0) {
-    const pct = (todayUsage.estimatedCost / costConfig.dailyBudget) * 100;
+  for (const { cap, limit, spent } of globalCaps()) {
+    const pct = (spent / limit) * 100;
     if (pct >= 100) {
       if (costConfig.hardStop) {
         allowed = false;
-        warning = `BUDGET EXCEEDED: $${todayUsage.estimatedCost.toFixed(2)} / $${costConfig.dailyBudget} daily limit. LLM calls blocked.`;
+        warning = `BUDGET EXCEEDED: $${spent.toFixed(2)} / $${limit} ${cap} limit. LLM calls blocked.`;
         log.error(warning);
       } else {
-        warning = `BUDGET WARNING: $${todayUsage.estimatedCost.toFixed(2)} exceeds $${costConfig.dailyBudget} daily limit.`;
+        warning = `BUDGET WARNING: $${spent.toFixed(2)} exceeds $${limit} ${cap} limit.`;
         log.warn(warning);
       }
-    } else if (pct >= costConfig.warnAtPercent) {
-      warning = `Budget ${pct.toFixed(0)}% used: $${todayUsage.estimatedCost.toFixed(2)} / $${costConfig.dailyBudget}`;
+      break;
+    } else if (pct >= costConfig.warnAtPercent && !warning) {
+      warning = `Budget ${pct.toFixed(0)}% used: $${spent.toFixed(2)} / $${limit} ${cap}`;
       log.warn(warning);
     }
   }
 
+  const block = checkBudget(tags);
+  if (block) {
+    allowed = false;
+    warning ??= block.message;
+  }
+
   return { allowed, warning };
 }
 
+function tally(into: Record<string, SpendTally>, key: string, cost: number): void {
+  const t = into[key] ??= { cost: 0, calls: 0 };
+  t.cost += cost;
+  t.calls++;
+}
+
+/** Add a call to the day's row for its exact tags and model */
+function attribute(rows: AttributionRow[], tags: UsageTags, model: string, usage: TokenUsage, cost: number): void {
+  const clean: UsageTags = Object.fromEntries(TAG_FIELDS.filter(tag => tags[tag]).map(tag => [tag, tags[tag]]));
+  let row = rows.find(r => r.model === model && TAG_FIELDS.every(tag => r[tag] === clean[tag]));
+  if (!row) {
+    row = { ...clean, model, input: 0, output: 0, cost: 0, calls: 0 };
+    rows.push(row);
+  }
+  row.input += usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+  row.output += usage.outputTokens;
+  if (usage.cacheReadTokens) row.cacheRead = (row.cacheRead ?? 0) + usage.cacheReadTokens;
+  if (usage.cacheWriteTokens) row.cacheWrite = (row.cacheWrite ?? 0) + usage.cacheWriteTokens;
+  row.cost += cost;
+  row.calls++;
+}
+
+// ---- Forecast & alerts --------------------------------------
+
+/** Project today's and the rolling 30 days' spend from the last few hours' burn rate */
+export function getSpendForecast(): SpendForecast {
+  const now = new Date();
+  const hourFraction = now.getUTCMinutes() / 60 + now.getUTCSeconds() / 3600;
+
+  let recent = 0;
+  for (let i = 0; i < BURN_WINDOW_HOURS; i++) recent += hourSpend(now, i);
+  const burnRate = recent / (BURN_WINDOW_HOURS - 1 + Math.max(hourFraction, 1 / 60));
+
+  const spentToday = todayUsage.estimatedCost;
+  const projectedToday = spentToday + burnRate * (24 - now.getUTCHours() - hourFraction);
+
+  // Future days at the average day of the past week (today as projected).
+  // The rolling window drops a known day and gains a projected one each day
+  const weekCutoff = new Date(now.getTime() - 6 * 86_400_000).toISOString().slice(0, 10);
+  const week = pastDays.filter(d => d.date >= weekCutoff);
+  const dailyRate = week.reduce((sum, d) => sum + d.estimatedCost, projectedToday) / (week.length + 1);
+  const spent30Days = spentOver(30);
+  let projected30Days = 0;
+  for (let ahead = 0; ahead < 30; ahead++) {
+    const cutoff = new Date(now.getTime() - (29 - ahead) * 86_400_000).toISOString().slice(0, 10);
+    const known = pastDays.filter(d => d.date >= cutoff).reduce((sum, d) => sum + d.estimatedCost, 0);
+    projected30Days = Math.max(projected30Days, known + projectedToday + dailyRate * ahead);
+  }
+
+  const baseline: number[] = [];
+  for (let i = 1; i <= 7 * 24; i++) {
+    const spent = hourSpend(now, i);
+    if (spent > 0) baseline.push(spent);
+  }
+
+  return {
+    burnRate, spentToday, projectedToday, spent30Days, projected30Days,
+    thisHour: hourSpend(now, 0),
+    hourlyMedian: baseline.length >= MIN_BASELINE_HOURS ? median(baseline) : null,
+  };
+}
+
+/** Today's alerts, oldest first */
+export function getTodayAlerts(): CostAlert[] {
+  return [...(todayUsage.alerts ?? [])];
+}
+
+/** Raise whichever alerts the spend so far calls for; each once per day (anomalies once per hour) */
+function checkSpendAlerts(): void {
+  for (const { cap, limit, spent } of globalCaps()) {
+    const pct = (spent / limit) * 100;
+    if (pct >= 100) {
+      raiseAlert('budget', `budget-${cap}-over`, `The ${cap} budget is used up: $${spent.toFixed(2)} of $${limit}.${costConfig.hardStop ? ' LLM calls are blocked.' : ''}`);
+    } else if (pct >= costConfig.warnAtPercent) {
+      raiseAlert('budget', `budget-${cap}-warn`, `${pct.toFixed(0)}% of the ${cap} budget is used: $${spent.toFixed(2)} of $${limit}.`);
+    }
+  }
+
+  const f = getSpendForecast();
+  const rate = `$${f.burnRate.toFixed(2)}/hour`;
+  if (costConfig.dailyBudget > 0 && f.spentToday < costConfig.dailyBudget && f.projectedToday > costConfig.dailyBudget) {
+    raiseAlert('forecast', 'forecast-daily', `At the current burn rate (${rate}) today's spend will reach about $${f.projectedToday.toFixed(2)}, over the $${costConfig.dailyBudget} daily budget.`);
+  }
+  if (costConfig.monthlyBudget > 0 && f.spent30Days < costConfig.monthlyBudget && f.projected30Days > costConfig.monthlyBudget) {
+    raiseAlert('forecast', 'forecast-monthly', `At the current burn rate (${rate}) the rolling 30-day spend is heading for about $${f.projected30Days.toFixed(2)}, over the $${costConfig.monthlyBudget} monthly budget.`);
+  }
+
+  const { anomalyMultiplier: multiplier, anomalyMinSpend: minSpend } = costConfig;
+  if (multiplier > 0 && f.hourlyMedian !== null && f.thisHour >= minSpend && f.thisHour >= multiplier * f.hourlyMedian) {
+    raiseAlert('anomaly', `anomaly-${new Date().getUTCHours()}`, `This hour's spend is $${f.thisHour.toFixed(2)} — ${(f.thisHour / f.hourlyMedian).toFixed(1)}x the 7-day median of $${f.hourlyMedian.toFixed(2)}/hour. Projected today: $${f.projectedToday.toFixed(2)}.`);
+  }
+}
+
+function raiseAlert(kind: CostAlert['kind'], key: string, message: string): void {
+  const alerts = todayUsage.alerts ??= [];
+  if (alerts.some(a => a.key === key)) return;
+  const alert: CostAlert = { kind, key, message, at: new Date() };
+  alerts.push(alert);
+  log.warn(`Spend alert: ${message}`);
+  eventBus.emit({ type: 'cost_alert', alert });
+}
+
+/** $ spent in the UTC hour `hoursAgo` before `now` */
+function hourSpend(now: Date, hoursAgo: number): number {
+  const at = new Date(now.getTime() - hoursAgo * 3_600_000);
+  const date = at.toISOString().slice(0, 10);
+  const day = date === todayUsage.date ? todayUsage : pastDays.find(d => d.date === date);
+  return day?.byHour?.[at.getUTCHours()] ?? 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// ---- Track a provider failover -------------------------------
+
+export async function recordFailover(from: string, to: string, reason: string): Promise<void> {
+  await rollDay();
+  const failovers = todayUsage.failovers ??= [];
+  failovers.push({ at: new Date().toISOString(), from, to, reason });
+  if (failovers.length > MAX_FAILOVERS_PER_DAY) failovers.splice(0, failovers.length - MAX_FAILOVERS_PER_DAY);
+  await saveUsage();
+}
+
 // ---- Check if budget allows a call ---------------------------
 
-export function canMakeCall(): boolean {
-  if (!costConfig.hardStop || costConfig.dailyBudget <= 0) return true;
-  return todayUsage.estimatedCost < costConfig.dailyBudget;
+/**
+ * The first cap that blocks a call for `scope`, or null. The global
+ * caps only block with `hardStop` on; allowances and task ceilings
+ * always do.
+ */
+export function checkBudget(scope: BudgetScope = {}): BudgetBlock | null {
+  if (costConfig.hardStop) {
+    for (const { cap, limit, spent } of globalCaps()) {
+      if (spent >= limit) {
+        const period = cap === 'daily' ? 'today' : cap === 'weekly' ? 'in the last 7 days' : 'in the last 30 days';
+        return { cap, limit, spent, message: `The ${cap} budget is used up: $${spent.toFixed(2)} of $${limit} spent ${period}.` };
+      }
+    }
+  }
+
+  if (scope.channel) {
+    const limit = costConfig.channelDailyBudgets[scope.channel];
+    const spent = todayUsage.byChannel?.[scope.channel]?.cost ?? 0;
+    if (limit > 0 && spent >= limit) {
+      return { cap: 'channel', limit, spent, message: `The daily allowance for ${scope.channel} is used up: $${spent.toFixed(2)} of $${limit} spent today.` };
+    }
+  }
+
+  if (scope.channel && scope.userId) {
+    const limit = userAllowance(scope.channel, scope.userId);
+    const spent = todayUsage.byUser?.[`${scope.channel}/${scope.userId}`]?.cost ?? 0;
+    if (limit > 0 && spent >= limit) {
+      return { cap: 'user', limit, spent, message: `Your daily allowance is used up: $${spent.toFixed(2)} of $${limit} spent today.` };
+    }
+  }
+
+  if (scope.taskId) {
+    const ceiling = getTaskBudget(scope.taskId);
+    if (ceiling && ceiling.spent >= ceiling.limit) {
+      const title = getTask(scope.taskId)?.title ?? scope.taskId.slice(0, 8);
+      return { cap: 'task', ...ceiling, message: `The budget for task "${title}" is used up: $${ceiling.spent.toFixed(2)} of $${ceiling.limit}.` };
+    }
+  }
+
+  return null;
+}
+
+export function canMakeCall(scope: BudgetScope = {}): boolean {
+  return checkBudget(scope) === null;
+}
+
+/** Throw BudgetExceededError when a cap blocks `scope` */
+export function assertBudget(scope: BudgetScope): void {
+  const block = checkBudget(scope);
+  if (block) throw new BudgetExceededError(block);
+}
+
+/** A task's ceiling (its own, else the default) and its spend so far */
+export function getTaskBudget(taskId: Id): { limit: number; spent: number } | null {
+  const task = getTask(taskId);
+  const limit = task?.budget ?? costConfig.taskBudget;
+  if (!task || !(limit > 0)) return null;
+  return { limit, spent: task.usage.estimatedCost };
+}
+
+/** Spend so far over the last `days` days, today included */
+function spentOver(days: number): number {
+  const cutoff = new Date(Date.now() - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+  return pastDays
+    .filter(d => d.date >= cutoff)
+    .reduce((sum, d) => sum + d.estimatedCost, todayUsage.estimatedCost);
+}
+
+/** Configured global caps, shortest period first */
+function globalCaps(): { cap: 'daily' | 'weekly' | 'monthly'; limit: number; spent: number }[] {
+  return ([['daily', costConfig.dailyBudget, 1], ['weekly', costConfig.weeklyBudget, 7], ['monthly', costConfig.monthlyBudget, 30]] as const)
+    .filter(([, limit]) => limit > 0)
+    .map(([cap, limit, days]) => ({ cap, limit, spent: spentOver(days) }));
+}
+
+function userAllowance(channel: string, userId: string): number {
+  const budgets = costConfig.userDailyBudgets;
+  return budgets[`${channel}/${userId}`] ?? budgets[userId] ?? budgets['*'] ?? 0;
 }
 
 // ---- Queries -------------------------------------------------
@@ -137,6 +500,11 @@ export function getTodayUsage(): DailyUsage {
   return { ...todayUsage };
 }
 
+/** Spend against each configured global cap */
+export function getBudgetStatus(): { cap: 'daily' | 'weekly' | 'monthly'; limit: number; spent: number }[] {
+  return globalCaps();
+}
+
 export async function getHistoricalUsage(days = 30): Promise<DailyUsage[]> {
   try {
     const raw = await fs.readFile(costFile(), 'utf-8');
@@ -148,13 +516,129 @@ export async function getHistoricalUsage(days = 30): Promise<DailyUsage[]> {
 }
 
 export function getCostConfig(): CostConfig {
-  return { ...costConfig };
+  return {
+    ...costConfig,
+    userDailyBudgets: { ...costConfig.userDailyBudgets },
+    channelDailyBudgets: { ...costConfig.channelDailyBudgets },
+  };
 }
 
 export async function setCostConfig(update: Partial<CostConfig>): Promise<void> {
   costConfig = { ...costConfig, ...update };
+  // A 0 allowance removes it
+  for (const budgets of [costConfig.userDailyBudgets, costConfig.channelDailyBudgets]) {
+    for (const [key, limit] of Object.entries(budgets)) {
+      if (!(limit > 0)) delete budgets[key];
+    }
+  }
   await fs.writeFile(configFile(), JSON.stringify(costConfig, null, 2));
-  log.info(`Cost config updated: daily=$${costConfig.dailyBudget}, weekly=$${costConfig.weeklyBudget}, hardStop=${costConfig.hardStop}`);
+  log.info(`Cost config updated: daily=$${costConfig.dailyBudget}, weekly=$${costConfig.weeklyBudget}, monthly=$${costConfig.monthlyBudget}, task=$${costConfig.taskBudget}, hardStop=${costConfig.hardStop}`);
+}
+
+// ---- Attribution ---------------------------------------------
+
+/** What attributed spend can be grouped by */
+export const USAGE_DIMENSIONS = ['date', 'source', 'channel', 'user', 'task', 'trigger', 'role', 'skill', 'provider', 'model'] as const;
+export type UsageDimension = typeof USAGE_DIMENSIONS[number];
+
+export interface UsageQuery {
+  /** First and last day (YYYY-MM-DD), inclusive; omitted = unbounded */
+  from?: string;
+  to?: string;
+  groupBy?: UsageDimension[];
+}
+
+/** Spend for one combination of the grouped dimensions ('' = untagged) */
+export interface UsageGroup {
+  key: Partial<Record<UsageDimension, string>>;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  calls: number;
+}
+
+/** Thrown for a query with an unknown dimension or a malformed date */
+export class UsageQueryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid usage query: ${problems.join('; ')}`);
+    this.name = 'UsageQueryError';
+  }
+}
+
+/**
+ * Attributed spend over a date range, summed per combination of
+ * `groupBy` dimensions and sorted by cost. Days recorded before
+ * attribution count per model, with no tags.
+ */
+export async function queryUsage(query: UsageQuery = {}): Promise<UsageGroup[]> {
+  const groupBy = query.groupBy ?? ['source'];
+  const problems: string[] = [];
+  for (const dim of groupBy) {
+    if (!USAGE_DIMENSIONS.includes(dim)) problems.push(`unknown dimension "${dim}" (use ${USAGE_DIMENSIONS.join(', ')})`);
+  }
+  for (const bound of ['from', 'to'] as const) {
+    const date = query[bound];
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) problems.push(`${bound} must be a YYYY-MM-DD date`);
+  }
+  if (problems.length > 0) throw new UsageQueryError(problems);
+
+  const days = (await getHistoricalUsage(90))
+    .filter(d => (!query.from || d.date >= query.from) && (!query.to || d.date <= query.to));
+
+  const groups = new Map<string, UsageGroup>();
+  for (const day of days) {
+    for (const row of attributionRows(day)) {
+      const key = Object.fromEntries(groupBy.map(dim => [dim, dimensionValue(day, row, dim)]));
+      const id = JSON.stringify(groupBy.map(dim => key[dim]));
+      let group = groups.get(id);
+      if (!group) {
+        group = { key, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0, calls: 0 };
+        groups.set(id, group);
+      }
+      group.inputTokens += row.input;
+      group.outputTokens += row.output;
+      group.cacheReadTokens += row.cacheRead ?? 0;
+      group.cacheWriteTokens += row.cacheWrite ?? 0;
+      group.cost += row.cost;
+      group.calls += row.calls;
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/** Query results as CSV: one column per grouped dimension, then the totals */
+export function usageToCsv(groups: UsageGroup[], groupBy: UsageDimension[]): string {
+  const header = [...groupBy, 'calls', 'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'cost_usd'];
+  const rows = groups.map(g => [
+    ...groupBy.map(dim => g.key[dim] ?? ''),
+    g.calls, g.inputTokens, g.outputTokens, g.cacheReadTokens, g.cacheWriteTokens, g.cost.toFixed(6),
+  ]);
+  return [header, ...rows].map(cells => cells.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function attributionRows(day: DailyUsage): AttributionRow[] {
+  if (day.attribution) return day.attribution;
+  return Object.entries(day.byModel).map(([model, u]) => ({ model, ...u }));
+}
+
+function dimensionValue(day: DailyUsage, row: AttributionRow, dim: UsageDimension): string {
+  switch (dim) {
+    case 'date': return day.date;
+    case 'user': return row.channel && row.userId ? `${row.channel}/${row.userId}` : '';
+    case 'task': return row.taskId ?? '';
+    case 'trigger': return row.triggerId ?? '';
+    // Rows from before attribution name the model alone
+    case 'provider': return row.model.includes('/') ? row.model.slice(0, row.model.indexOf('/')) : '';
+    case 'model': return row.model.includes('/') ? row.model.slice(row.model.indexOf('/') + 1) : row.model;
+    default: return row[dim] ?? '';
+  }
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
 // ---- Persistence ---------------------------------------------
@@ -182,11 +666,14 @@ async function saveUsage(): Promise<void> {
 registerTool(
   {
     name: 'cost_report',
-    description: 'Show token usage and cost tracking for today and recent history.',
+    description: 'Show token usage and cost tracking for today and recent history, optionally broken down by where the spend came from (message, heartbeat, trigger, task, sub-agent role, skill, user, model).',
     parameters: {
       type: 'object',
       properties: {
         days: { type: 'number', description: 'Number of days to show (default: 7)' },
+        group_by: { type: 'string', description: `Comma-separated dimensions to break spend down by: ${USAGE_DIMENSIONS.join(', ')}` },
+        from: { type: 'string', description: 'First day of the breakdown, YYYY-MM-DD (default: start of the report)' },
+        to: { type: 'string', description: 'Last day of the breakdown, YYYY-MM-DD (default: today)' },
       },
     },
   },
@@ -195,11 +682,22 @@ registerTool(
     const history = await getHistoricalUsage(days);
     const config = getCostConfig();
 
+    const caps = getBudgetStatus().map(c => `${c.cap} $${c.spent.toFixed(2)} / $${c.limit}`);
     const lines = [
       `=== Cost Report (last ${days} days) ===`,
-      `Daily budget: ${config.dailyBudget ? `$${config.dailyBudget}` : 'unlimited'} | Hard stop: ${config.hardStop ? 'YES' : 'no'}`,
-      ``,
+      `Budgets: ${caps.length ? caps.join(' | ') : 'unlimited'} | Hard stop: ${config.hardStop ? 'YES' : 'no'}`,
     ];
+    if (config.taskBudget) lines.push(`Per-task ceiling: $${config.taskBudget}`);
+    lines.push(`Priced with catalogue ${getPricingVersion()}`);
+    const allowances = [
+      ...Object.entries(config.channelDailyBudgets).map(([k, v]) => `${k} $${v}/day`),
+      ...Object.entries(config.userDailyBudgets).map(([k, v]) => `${k === '*' ? 'each user' : k} $${v}/day`),
+    ];
+    if (allowances.length) lines.push(`Allowances: ${allowances.join(' | ')}`);
+    const f = getSpendForecast();
+    lines.push(`Forecast: $${f.projectedToday.toFixed(2)} by end of day, up to $${f.projected30Days.toFixed(2)} per rolling 30 days (burn rate $${f.burnRate.toFixed(2)}/hour)`);
+    for (const alert of getTodayAlerts()) lines.push(`⚠️ ${alert.message}`);
+    lines.push(``);
 
     let totalCost = 0;
     for (const day of history) {
@@ -207,8 +705,9 @@ registerTool(
       const models = Object.entries(day.byModel)
         .map(([m, u]) => `${m}: ${u.calls} calls, $${u.cost.toFixed(4)}`)
         .join(' | ');
+      const failovers = day.failovers?.length ? ` | ${day.failovers.length} failovers` : '';
       lines.push(
-        `${day.date}: ${day.callCount} calls, ${day.inputTokens + day.outputTokens} tokens, $${day.estimatedCost.toFixed(4)}${models ? `\n  ${models}` : ''}`
+        `${day.date}: ${day.callCount} calls, ${day.inputTokens + day.outputTokens} tokens, $${day.estimatedCost.toFixed(4)}${failovers}${models ? `\n  ${models}` : ''}`
       );
     }
 
@@ -217,6 +716,19 @@ registerTool(
       lines.push(`Average: $${(totalCost / history.length).toFixed(4)}/day`);
     }
 
+    if (input.group_by) {
+      const groupBy = String(input.group_by).split(',').map(d => d.trim()).filter(Boolean) as UsageDimension[];
+      const from = (input.from as string) || history[0]?.date;
+      const to = input.to as string | undefined;
+      const groups = await queryUsage({ from, to, groupBy });
+      lines.push(``, `=== Spend by ${groupBy.join(' / ')} (${from ?? 'start'} to ${to ?? 'today'}) ===`);
+      for (const g of groups.slice(0, 50)) {
+        const label = groupBy.map(dim => g.key[dim] || '(untagged)').join(' / ');
+        lines.push(`${label}: ${g.calls} calls, ${g.inputTokens + g.outputTokens} tokens, $${g.cost.toFixed(4)}`);
+      }
+      if (groups.length > 50) lines.push(`…and ${groups.length - 50} more`);
+    }
+
     return lines.join('\n');
   },
 );
@@ -224,24 +736,38 @@ registerTool(
 registerTool(
   {
     name: 'set_budget',
-    description: 'Set daily/weekly cost budget limits.',
+    description: 'Set cost budget limits: daily, rolling weekly/monthly, a per-task ceiling, per-user or per-channel daily allowances, and the unusual-spend alert threshold.',
     parameters: {
       type: 'object',
       properties: {
         dailyBudget: { type: 'number', description: 'Max $ per day (0 = unlimited)' },
-        weeklyBudget: { type: 'number', description: 'Max $ per week (0 = unlimited)' },
-        hardStop: { type: 'boolean', description: 'Block LLM calls when exceeded (default: false)' },
+        weeklyBudget: { type: 'number', description: 'Max $ per rolling 7 days (0 = unlimited)' },
+        monthlyBudget: { type: 'number', description: 'Max $ per rolling 30 days (0 = unlimited)' },
+        hardStop: { type: 'boolean', description: 'Block LLM calls when the daily/weekly/monthly budget is exceeded (default: false)' },
+        taskBudget: { type: 'number', description: 'Default max $ per task (0 = unlimited); tasks can set their own' },
+        userDailyBudgets: { type: 'object', description: 'Max $ per day by "channel/userId", userId, or "*" for everyone else, e.g. {"telegram/123": 2}. 0 removes one.' },
+        channelDailyBudgets: { type: 'object', description: 'Max $ per day by channel, e.g. {"discord": 5}. 0 removes one.' },
+        anomalyMultiplier: { type: 'number', description: 'Alert when an hour costs this many times the 7-day median hour (default 5, 0 = off)' },
+        anomalyMinSpend: { type: 'number', description: 'Minimum $ in an hour before it can count as unusual (default 0.5)' },
       },
     },
   },
   async (input) => {
+    const c = getCostConfig();
     await setCostConfig({
       ...(input.dailyBudget !== undefined ? { dailyBudget: input.dailyBudget as number } : {}),
       ...(input.weeklyBudget !== undefined ? { weeklyBudget: input.weeklyBudget as number } : {}),
+      ...(input.monthlyBudget !== undefined ? { monthlyBudget: input.monthlyBudget as number } : {}),
       ...(input.hardStop !== undefined ? { hardStop: input.hardStop as boolean } : {}),
+      ...(input.taskBudget !== undefined ? { taskBudget: input.taskBudget as number } : {}),
+      ...(input.userDailyBudgets ? { userDailyBudgets: { ...c.userDailyBudgets, ...(input.userDailyBudgets as Record<string, number>) } } : {}),
+      ...(input.channelDailyBudgets ? { channelDailyBudgets: { ...c.channelDailyBudgets, ...(input.channelDailyBudgets as Record<string, number>) } } : {}),
+      ...(input.anomalyMultiplier !== undefined ? { anomalyMultiplier: input.anomalyMultiplier as number } : {}),
+      ...(input.anomalyMinSpend !== undefined ? { anomalyMinSpend: input.anomalyMinSpend as number } : {}),
     });
-    const c = getCostConfig();
-    return `Budget set: $${c.dailyBudget}/day, $${c.weeklyBudget}/week, hard stop: ${c.hardStop}`;
+    const u = getCostConfig();
+    const allowances = Object.keys(u.userDailyBudgets).length + Object.keys(u.channelDailyBudgets).length;
+    return `Budget set: $${u.dailyBudget}/day, $${u.weeklyBudget}/week, $${u.monthlyBudget}/month, $${u.taskBudget}/task, hard stop: ${u.hardStop}, ${allowances} allowance(s)`;
   },
 );
 
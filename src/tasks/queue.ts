@@ -1,7 +1,8 @@
 // ============================================================
 // Task Queue — Persistent, crash-recoverable task management
-// Tasks survive restarts. State machine: pending → running →
-// waiting_approval → completed/failed. Stored as JSON in workspace.
+// Tasks survive restarts. State machine: (scheduled →) pending →
+// running → waiting_approval → completed/failed. Stored as JSON
+// in workspace.
 // ============================================================
 
 import fs from 'fs/promises';
@@ -10,7 +11,9 @@ import { v4 as uuid } from 'uuid';
 import { agentConfig } from '../config.js';
 import { eventBus } from '../events.js';
 import { createLogger } from '../utils/logger.js';
-import type { Task, TaskStep, TaskStatus, TaskPriority, ChannelType, Id } from '../types.js';
+import { abortTask, releaseTaskSignal, TaskStoppedError } from './cancellation.js';
+import { costOf } from '../llm/pricing.js';
+import type { Task, TaskStep, TaskStatus, TaskPriority, TaskRecurrence, ChannelType, Id, TokenUsage } from '../types.js';
 
 const log = createLogger('TaskQ');
 
@@ -32,6 +35,9 @@ export async function initTaskQueue(): Promise<void> {
       const task = JSON.parse(raw) as Task;
       task.createdAt = new Date(task.createdAt);
       task.updatedAt = new Date(task.updatedAt);
+      if (task.runAt) task.runAt = new Date(task.runAt);
+      if (task.deadline) task.deadline = new Date(task.deadline);
+      if (task.recurrence?.until) task.recurrence.until = new Date(task.recurrence.until);
       tasks.set(task.id, task);
     } catch { /* skip corrupted */ }
   }
@@ -58,13 +64,21 @@ export async function createTask(params: {
   model?: string;
   provider?: string;
   tags?: string[];
+  orchestrate?: boolean;
+  runAt?: Date;
+  recurrence?: TaskRecurrence;
+  deadline?: Date;
+  recurringId?: Id;
+  budget?: number;
 }): Promise<Task> {
+  // Recurring tasks never run themselves; they spawn runs when due
+  const scheduled = !!params.recurrence || (params.runAt !== undefined && params.runAt.getTime() > Date.now());
   const task: Task = {
     id: uuid(),
     parentId: params.parentId,
     title: params.title,
     description: params.description,
-    status: 'pending',
+    status: scheduled ? 'scheduled' : 'pending',
     priority: params.priority || 'normal',
     progress: 0,
     steps: [],
@@ -75,6 +89,13 @@ export async function createTask(params: {
     usage: { inputTokens: 0, outputTokens: 0, estimatedCost: 0 },
     scratchpad: '',
     tags: params.tags || [],
+    orchestrate: params.orchestrate,
+    runAt: params.runAt,
+    recurrence: params.recurrence,
+    deadline: params.deadline,
+    recurringId: params.recurringId,
+    budget: params.budget,
+    runCount: params.recurrence ? 0 : undefined,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -106,6 +127,8 @@ export function getSubtasks(parentId: Id): Task[] {
 
 // ---- State transitions ---------------------------------------
 
+const ACTIVE: TaskStatus[] = ['pending', 'running', 'waiting_approval'];
+
 export async function updateTaskStatus(
   id: Id,
   status: TaskStatus,
@@ -133,6 +156,45 @@ export async function updateTaskStatus(
   }
 
   log.info(`Task ${id.slice(0, 8)} "${task.title}": ${prevStatus} → ${status} (${task.progress}%)`);
+
+  // Cancelling (or failing from outside) stops the work now; pausing
+  // lets it reach a safe point. Either way the subtasks follow.
+  if (status === 'cancelled' || status === 'failed') abortTask(id, status);
+  if (status === 'completed') releaseTaskSignal(id);
+  if (status === 'cancelled' || status === 'paused' || status === 'failed') {
+    for (const child of getSubtasks(id)) {
+      if (ACTIVE.includes(child.status)) await updateTaskStatus(child.id, status === 'failed' ? 'cancelled' : status);
+    }
+  }
+  return task;
+}
+
+/**
+ * A safe point in a task's loop: throws TaskStoppedError when the
+ * task has been cancelled, paused, failed (or deleted) since it started.
+ */
+export function throwIfTaskStopped(id: Id): void {
+  const status = tasks.get(id)?.status ?? 'cancelled';
+  if (status === 'cancelled' || status === 'paused' || status === 'failed') throw new TaskStoppedError(id, status);
+}
+
+/** Re-queue a paused task: back to its schedule if it has one, else pending */
+export async function resumeTask(id: Id): Promise<Task | null> {
+  const task = tasks.get(id);
+  if (!task) return null;
+  const scheduled = !!task.recurrence || (task.runAt !== undefined && task.runAt.getTime() > Date.now());
+  return updateTaskStatus(id, scheduled ? 'scheduled' : 'pending');
+}
+
+/** Move a scheduled task's next run */
+export async function updateTaskSchedule(id: Id, update: Partial<Pick<Task, 'runAt' | 'runCount'>>): Promise<Task | null> {
+  const task = tasks.get(id);
+  if (!task) return null;
+  if ('runAt' in update) task.runAt = update.runAt;
+  if (update.runCount !== undefined) task.runCount = update.runCount;
+  task.updatedAt = new Date();
+  await persistTask(task);
+  eventBus.emit({ type: 'task_updated', task });
   return task;
 }
 
@@ -179,19 +241,14 @@ export async function updateTaskStep(
   eventBus.emit({ type: 'task_updated', task });
 }
 
-export async function addUsage(
-  taskId: Id,
-  inputTokens: number,
-  outputTokens: number,
-  costPer1kIn = 0.003,
-  costPer1kOut = 0.015,
-): Promise<void> {
+/** Add a call's tokens to a task, priced for the model that answered */
+export async function addUsage(taskId: Id, provider: string, model: string, usage: TokenUsage): Promise<void> {
   const task = tasks.get(taskId);
   if (!task) return;
 
-  task.usage.inputTokens += inputTokens;
-  task.usage.outputTokens += outputTokens;
-  task.usage.estimatedCost += (inputTokens / 1000) * costPer1kIn + (outputTokens / 1000) * costPer1kOut;
+  task.usage.inputTokens += usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+  task.usage.outputTokens += usage.outputTokens;
+  task.usage.estimatedCost += costOf(provider, model, usage);
   await persistTask(task);
 }
 
@@ -221,19 +278,28 @@ export async function deleteTask(id: Id): Promise<boolean> {
   if (!task) return false;
 
   tasks.delete(id);
+  abortTask(id);
   try {
     await fs.unlink(path.join(tasksDir(), `${id}.json`));
   } catch { /* ok if already gone */ }
+  // Plan checkpoints and artifacts
+  await fs.rm(path.join(tasksDir(), id), { recursive: true, force: true });
   return true;
 }
 
 // ---- Queue processing: get next ready task -------------------
 
-export function getNextPendingTask(): Task | undefined {
-  const pending = getTasksByStatus('pending');
+/**
+ * Highest-priority pending top-level task, oldest first within a
+ * priority. Subtasks are run by their orchestrator, never picked here.
+ */
+export function getNextPendingTask(exclude: ReadonlySet<Id> = new Set()): Task | undefined {
+  const pending = getTasksByStatus('pending').filter(t => !t.parentId && !exclude.has(t.id));
   // Priority ordering: critical > high > normal > low
   const priorityOrder: Record<string, number> = { critical: 0, high: 1, normal: 2, low: 3 };
-  pending.sort((a, b) => (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2));
+  pending.sort((a, b) =>
+    (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2)
+    || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   return pending[0];
 }
 
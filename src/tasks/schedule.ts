@@ -0,0 +1,312 @@
+// ============================================================
+// Task Schedule — Run-at times, recurrence and deadlines for
+// queued tasks. Due one-off tasks move to pending; a recurring
+// task spawns a tracked run of itself each time it is due (own
+// result, usage and history) and moves on to its next time.
+// Anything unfinished past its deadline is aborted and failed.
+// ============================================================
+
+import cron from 'node-cron';
+import { createLogger } from '../utils/logger.js';
+import {
+  createTask, getAllTasks, getTasksByStatus, updateTaskStatus, updateTaskSchedule, appendScratchpad,
+} from './queue.js';
+import type { Id, Task, TaskRecurrence } from '../types.js';
+
+const log = createLogger('Schedule');
+
+const TICK_MS = 15_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+let tickTimer: NodeJS.Timeout | null = null;
+
+/** Thrown when a run time, recurrence or deadline is unusable */
+export class TaskScheduleError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid schedule: ${problems.join('; ')}`);
+    this.name = 'TaskScheduleError';
+  }
+}
+
+// ---- Start / Stop --------------------------------------------
+
+/** Start the schedule clock; runs missed while stopped are caught up once */
+export function startTaskScheduler(): void {
+  tickTimer = setInterval(() => {
+    tick().catch(err => log.error(`Schedule tick failed: ${err}`));
+  }, TICK_MS);
+  const scheduled = getTasksByStatus('scheduled');
+  log.info(`Task scheduler started (${scheduled.length} scheduled, ${scheduled.filter(t => t.recurrence).length} recurring)`);
+  tick().catch(err => log.error(`Schedule tick failed: ${err}`));
+}
+
+export function stopTaskScheduler(): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+}
+
+// ---- Tick ----------------------------------------------------
+
+const UNFINISHED: Task['status'][] = ['scheduled', 'pending', 'running', 'waiting_approval', 'paused'];
+
+async function tick(now = new Date()): Promise<void> {
+  for (const task of getTasksByStatus('scheduled')) {
+    if (task.deadline && task.deadline <= now) continue; // failed below
+    if (!task.runAt || task.runAt > now) continue;
+    if (task.recurrence) await spawnRun(task, now);
+    else await updateTaskStatus(task.id, 'pending');
+  }
+
+  for (const task of getAllTasks()) {
+    if (!task.deadline || task.deadline > now || !UNFINISHED.includes(task.status)) continue;
+    log.warn(`Task "${task.title}" (${task.id.slice(0, 8)}) missed its deadline`);
+    await updateTaskStatus(task.id, 'failed', { error: `Missed its deadline (${task.deadline.toISOString()})` });
+  }
+}
+
+/** Spawn the due run of a recurring task, then move it to its next time */
+async function spawnRun(task: Task, now: Date): Promise<void> {
+  const rec = task.recurrence!;
+  const dueAt = task.runAt!;
+  const previous = getAllTasks().find(t => t.recurringId === task.id && ['pending', 'running', 'waiting_approval'].includes(t.status));
+
+  if (previous) {
+    // Never stack runs: a slow run swallows the ones due meanwhile
+    await appendScratchpad(task.id, `Skipped the run due ${dueAt.toISOString()}: ${previous.id.slice(0, 8)} is still ${previous.status}`);
+  } else {
+    const run = await createTask({
+      title: task.title,
+      description: task.description,
+      source: task.source,
+      priority: task.priority,
+      model: task.model,
+      provider: task.provider,
+      tags: task.tags,
+      orchestrate: task.orchestrate,
+      recurringId: task.id,
+      budget: task.budget,
+      // From now, so a run caught up after downtime still gets its full time
+      deadline: rec.deadlineMinutes ? new Date(now.getTime() + rec.deadlineMinutes * 60_000) : undefined,
+    });
+    log.info(`Recurring task "${task.title}" due — spawned run ${run.id.slice(0, 8)}`);
+  }
+
+  const runCount = (task.runCount ?? 0) + (previous ? 0 : 1);
+  const next = followingRun(rec, dueAt, now);
+  const ended = !next || (rec.maxRuns !== undefined && runCount >= rec.maxRuns);
+  await updateTaskSchedule(task.id, { runAt: ended ? undefined : next, runCount });
+  if (ended) {
+    await updateTaskStatus(task.id, 'completed', { result: `Recurrence ended after ${runCount} run(s)`, progress: 100 });
+  }
+}
+
+// ---- Recurrence ----------------------------------------------
+
+export function validateRecurrence(rec: TaskRecurrence): string[] {
+  const problems: string[] = [];
+  if (!rec.cron === !rec.everyMinutes) problems.push('give exactly one of "cron" or "everyMinutes"');
+  if (rec.cron) {
+    try {
+      parseCron(rec.cron);
+    } catch (err: any) {
+      problems.push(err.message);
+    }
+  }
+  if (rec.everyMinutes !== undefined && !(rec.everyMinutes >= 1)) problems.push('"everyMinutes" must be at least 1');
+  if (rec.until && isNaN(rec.until.getTime())) problems.push('"until" is not a date');
+  if (rec.maxRuns !== undefined && !(Number.isInteger(rec.maxRuns) && rec.maxRuns >= 1)) problems.push('"maxRuns" must be a whole number ≥ 1');
+  if (rec.deadlineMinutes !== undefined && !(rec.deadlineMinutes > 0)) problems.push('"deadlineMinutes" must be positive');
+  return problems;
+}
+
+/**
+ * Check a task's schedule and fill in the first run of a recurrence.
+ * Throws TaskScheduleError when it can never run.
+ */
+export function resolveSchedule(params: { runAt?: Date; recurrence?: TaskRecurrence; deadline?: Date }): {
+  runAt?: Date; recurrence?: TaskRecurrence; deadline?: Date;
+} {
+  const problems: string[] = [];
+  if (params.runAt && isNaN(params.runAt.getTime())) problems.push('"runAt" is not a date');
+  if (params.deadline && isNaN(params.deadline.getTime())) problems.push('"deadline" is not a date');
+  if (params.recurrence) problems.push(...validateRecurrence(params.recurrence));
+  if (params.recurrence && params.deadline) problems.push('a recurring task sets "deadlineMinutes" per run instead of "deadline"');
+  if (problems.length > 0) throw new TaskScheduleError(problems);
+
+  let runAt = params.runAt;
+  if (params.recurrence && !runAt) {
+    runAt = nextRun(params.recurrence, new Date()) ?? undefined;
+    if (!runAt) throw new TaskScheduleError(['the recurrence has no future runs']);
+  }
+  if (params.deadline && params.deadline <= (runAt ?? new Date())) {
+    throw new TaskScheduleError(['"deadline" must be after the run time']);
+  }
+  return { ...params, runAt };
+}
+
+/** The first run strictly after `after`, or null once the recurrence has ended */
+export function nextRun(rec: TaskRecurrence, after: Date): Date | null {
+  const next = rec.cron
+    ? nextCronRun(rec.cron, after)
+    : new Date(after.getTime() + (rec.everyMinutes ?? 60) * 60_000);
+  if (!next || (rec.until && next > rec.until)) return null;
+  return next;
+}
+
+/** The run after `dueAt` still ahead of `now` — runs missed meanwhile are skipped */
+function followingRun(rec: TaskRecurrence, dueAt: Date, now: Date): Date | null {
+  if (!rec.everyMinutes) return nextRun(rec, now);
+  // Intervals keep their phase instead of drifting with the tick
+  const every = rec.everyMinutes * 60_000;
+  const next = new Date(dueAt.getTime() + (Math.floor((now.getTime() - dueAt.getTime()) / every) + 1) * every);
+  return rec.until && next > rec.until ? null : next;
+}
+
+/** Upcoming run times for the calendar, soonest first */
+export function getUpcomingRuns(days = 7, limitPerTask = 50): Array<{
+  taskId: Id; title: string; at: Date; priority: Task['priority']; recurring: boolean; deadline?: Date;
+}> {
+  const end = new Date(Date.now() + days * DAY_MS);
+  const runs: ReturnType<typeof getUpcomingRuns> = [];
+
+  for (const task of getTasksByStatus('scheduled')) {
+    const rec = task.recurrence;
+    let at: Date | null = task.runAt ?? null;
+    let count = task.runCount ?? 0;
+    for (let shown = 0; at && at <= end && shown < limitPerTask; shown++) {
+      if (rec?.maxRuns !== undefined && count >= rec.maxRuns) break;
+      runs.push({
+        taskId: task.id, title: task.title, at, priority: task.priority, recurring: !!rec,
+        deadline: rec?.deadlineMinutes ? new Date(at.getTime() + rec.deadlineMinutes * 60_000) : task.deadline,
+      });
+      if (!rec) break;
+      count++;
+      at = nextRun(rec, at);
+    }
+  }
+  return runs.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/** Describe a recurrence for chat and the dashboard */
+export function describeRecurrence(rec: TaskRecurrence): string {
+  const every = rec.cron ? `cron "${rec.cron}"` : `every ${rec.everyMinutes} min`;
+  return [
+    every,
+    rec.until ? `until ${rec.until.toISOString()}` : '',
+    rec.maxRuns ? `at most ${rec.maxRuns} runs` : '',
+    rec.deadlineMinutes ? `each run due within ${rec.deadlineMinutes} min` : '',
+  ].filter(Boolean).join(', ');
+}
+
+// ---- Cron ----------------------------------------------------
+
+interface CronFields {
+  second: Set<number>;
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number>;
+  month: Set<number>;
+  dayOfWeek: Set<number>;
+  /** Cron ORs the two day fields when both are restricted */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Accepts what node-cron (used by triggers) accepts: 5 fields, or 6 with leading seconds */
+function parseCron(expression: string): CronFields {
+  if (!cron.validate(expression)) {
+    throw new Error(`cron "${expression}" is not valid ([second] minute hour day month weekday)`);
+  }
+  const parts = expression.trim().split(/\s+/);
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = parts.length === 5 ? ['0', ...parts] : parts;
+  const weekdays = parseCronField(dayOfWeek, 0, 7, WEEKDAYS);
+  // 7 is another Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    second: parseCronField(second, 0, 59),
+    minute: parseCronField(minute, 0, 59),
+    hour: parseCronField(hour, 0, 23),
+    dayOfMonth: parseCronField(dayOfMonth, 1, 31),
+    month: parseCronField(month, 1, 12, MONTHS, 1),
+    dayOfWeek: weekdays,
+    // As in Vixie cron, `*/2` is still unrestricted for this rule
+    anyDayOfMonth: dayOfMonth.startsWith('*'),
+    anyDayOfWeek: dayOfWeek.startsWith('*'),
+  };
+}
+
+/** One field: `*`, `5`, `1-5`, `*\/15`, `10-40/10`, `mon,wednesday`, ... */
+function parseCronField(field: string, min: number, max: number, names: string[] = [], nameBase = 0): Set<number> {
+  const values = new Set<number>();
+  const value = (token: string) => {
+    const lower = token.toLowerCase();
+    const named = names.findIndex(name => lower === name || lower === name.slice(0, 3));
+    const n = named >= 0 ? named + nameBase : Number(token);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`cron value "${token}" is outside ${min}-${max}`);
+    return n;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`cron step "${stepText}" must be a positive whole number`);
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-');
+      from = value(a);
+      to = b === undefined ? (stepText === undefined ? from : max) : value(b);
+    }
+    if (from > to) throw new Error(`cron range "${range}" is backwards`);
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+function cronDayMatches(f: CronFields, d: Date): boolean {
+  const dom = f.dayOfMonth.has(d.getDate());
+  const dow = f.dayOfWeek.has(d.getDay());
+  if (f.anyDayOfMonth || f.anyDayOfWeek) return dom && dow;
+  return dom || dow;
+}
+
+/** The next second (local time) strictly after `after` that matches, within five years */
+function nextCronRun(expression: string, after: Date): Date | null {
+  const f = parseCron(expression);
+  const d = new Date(after);
+  d.setMilliseconds(0);
+  d.setSeconds(d.getSeconds() + 1);
+  const limit = after.getTime() + 5 * 366 * DAY_MS;
+
+  while (d.getTime() <= limit) {
+    if (!f.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!cronDayMatches(f, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!f.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+    } else if (!f.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+    } else if (!f.second.has(d.getSeconds())) {
+      d.setSeconds(d.getSeconds() + 1, 0);
+    } else {
+      return d;
+    }
+  }
+  return null;
+}
+
+// ---- Run history ---------------------------------------------
+
+/** Runs spawned by a recurring task, newest first */
+export function getRecurringRuns(recurringId: Id): Task[] {
+  return getAllTasks()
+    .filter(t => t.recurringId === recurringId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
@@ -0,0 +1,121 @@
+// ============================================================
+// Task Workers — Drain the pending queue. Pulls top-level tasks
+// by priority, runs up to `maxConcurrentTasks` at once through
+// the runner (agent loop or orchestrator), and sends each result
+// back to the channel that asked for it.
+// ============================================================
+
+import { eventBus } from '../events.js';
+import { createLogger } from '../utils/logger.js';
+import { getSettings } from '../security/settings.js';
+import { sendMessage } from '../channels/adapters.js';
+import { getNextPendingTask, getTask, updateTaskStatus } from './queue.js';
+import { TaskStoppedError } from './cancellation.js';
+import { artifactAttachments } from './artifacts.js';
+import type { Attachment, Id, Task } from '../types.js';
+
+const log = createLogger('Worker');
+
+/** Runs one task to its result; the runner settles the task's status */
+export type TaskRunner = (task: Task) => Promise<string>;
+
+// Catch-all poll, in case an event was missed
+const POLL_MS = 5_000;
+
+// Artifacts sent with the completion message; the rest stay on the dashboard
+const MAX_ATTACHMENTS = 10;
+
+const active = new Map<Id, Promise<void>>();
+let runner: TaskRunner | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+
+// ---- Start / Stop --------------------------------------------
+
+export function startTaskWorkers(run: TaskRunner): void {
+  runner = run;
+  eventBus.on('task_created', wake);
+  eventBus.on('task_updated', wake);
+  pollTimer = setInterval(fill, POLL_MS);
+  log.info(`Task workers started (max ${maxWorkers()} concurrent)`);
+  fill();
+}
+
+export function stopTaskWorkers(): void {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+  runner = null;
+  eventBus.off('task_created', wake);
+  eventBus.off('task_updated', wake);
+}
+
+export function getWorkerStats(): { active: Id[]; maxConcurrent: number } {
+  return { active: Array.from(active.keys()), maxConcurrent: maxWorkers() };
+}
+
+// ---- Scheduling ----------------------------------------------
+
+function maxWorkers(): number {
+  return Math.max(1, getSettings().maxConcurrentTasks || 1);
+}
+
+/** A task became pending (created or resumed) or a slot may have freed */
+function wake(event: { type: string; task?: Task }): void {
+  if (event.task?.status === 'pending' && !event.task.parentId) fill();
+}
+
+/** Start pending tasks until every slot is taken */
+function fill(): void {
+  if (!runner) return;
+  while (active.size < maxWorkers()) {
+    const task = getNextPendingTask(new Set(active.keys()));
+    if (!task) return;
+    const run = work(task).finally(() => {
+      active.delete(task.id);
+      fill();
+    });
+    active.set(task.id, run);
+  }
+}
+
+async function work(task: Task): Promise<void> {
+  log.info(`Picked up "${task.title}" (${task.id.slice(0, 8)}) [${task.priority}] — ${active.size + 1}/${maxWorkers()} workers busy`);
+
+  let result: string;
+  try {
+    result = await runner!(task);
+  } catch (err: any) {
+    if (err instanceof TaskStoppedError && err.status !== 'failed') {
+      log.info(`Task "${task.title}" stopped: ${err.status}`);
+      return;
+    }
+    log.error(`Task "${task.title}" failed: ${err.message}`);
+    if (getTask(task.id)?.status === 'running') {
+      await updateTaskStatus(task.id, 'failed', { error: err.message });
+    }
+    // Failed from outside (a missed deadline) carries its own reason
+    const error = getTask(task.id)?.error ?? err.message;
+    await report(task, `❌ Task failed: **${task.title}** [${task.id.slice(0, 8)}]\n\n${error}`);
+    return;
+  }
+
+  const status = getTask(task.id)?.status;
+  if (status !== 'completed') {
+    // Cancelled or paused while it ran — nothing to report
+    log.info(`Task "${task.title}" ended as ${status}`);
+    return;
+  }
+
+  let text = `✅ Task done: **${task.title}** [${task.id.slice(0, 8)}]\n\n${result}`;
+  const attachments = await artifactAttachments(task.id).catch((err): Attachment[] => {
+    log.warn(`Artifacts of "${task.title}" unavailable: ${err.message}`);
+    return [];
+  });
+  if (attachments.length > MAX_ATTACHMENTS) {
+    text += `\n\n📎 ${attachments.length} artifacts — the first ${MAX_ATTACHMENTS} are attached, all are on the dashboard.`;
+  }
+  await report(task, text, attachments.slice(0, MAX_ATTACHMENTS));
+}
+
+async function report(task: Task, text: string, attachments?: Attachment[]): Promise<void> {
+  await sendMessage({ channel: task.source.channel, userId: task.source.userId, text, attachments });
+}
@@ -19,6 +19,8 @@ import {
   audit,
   SecurityError,
 } from '../security/guard.js';
+import { authorizeToolCall, type ToolCallContext } from '../security/policy.js';
+import { saveArtifactFile } from '../tasks/artifacts.js';
 import type { ToolDefinition, ToolResult, ToolCall } from '../types.js';
 
 const log = createLogger('Tools');
@@ -26,7 +28,10 @@ const execAsync = promisify(exec);
 
 // ---- Tool Registry -------------------------------------------
 
-type ToolHandler = (input: Record<string, unknown>) => Promise<string>;
+/** What a handler may know about its caller; `signal` fires when the task is cancelled */
+export type ToolHandlerContext = Pick<ToolCallContext, 'channel' | 'userId' | 'taskId' | 'signal'>;
+
+type ToolHandler = (input: Record<string, unknown>, ctx: ToolHandlerContext) => Promise<string>;
 
 const registry = new Map<string, { definition: ToolDefinition; handler: ToolHandler }>();
 
@@ -39,17 +44,43 @@ export function getToolDefinitions(): ToolDefinition[] {
   return Array.from(registry.values()).map(t => t.definition);
 }
 
-export async function executeTool(call: ToolCall): Promise<ToolResult> {
+/**
+ * Run a tool call once the tool policy allows it. Calls that need
+ * approval wait here until the approval is resolved. When `ctx.signal`
+ * fires the call stops and its abort reason is thrown, not returned.
+ */
+export async function executeTool(call: ToolCall, ctx: ToolCallContext): Promise<ToolResult> {
   const tool = registry.get(call.name);
   if (!tool) {
     return { toolCallId: call.id, content: `Unknown tool: ${call.name}`, isError: true };
   }
+  ctx.signal?.throwIfAborted();
+
+  const { allowed, decision, approval } = await authorizeToolCall(call, ctx);
+  if (!allowed) {
+    const reason = approval
+      ? `approval ${approval.status === 'expired' ? 'expired without a decision' : 'was rejected by the user'}`
+      : `blocked by tool policy: ${decision.reason}`;
+    await audit({
+      action: 'tool_exec', tool: call.name, input: call.input,
+      userId: ctx.userId, channel: ctx.channel, blocked: true, reason,
+    });
+    eventBus.emit({ type: 'tool_result', tool: call.name, result: reason, isError: true });
+    return {
+      toolCallId: call.id,
+      content: `${call.name} was not run — ${reason}. Do not retry it; find an alternative or tell the user what you could not do.`,
+      isError: true,
+    };
+  }
 
   log.info(`Executing tool: ${call.name}`, call.input);
   eventBus.emit({ type: 'tool_called', tool: call.name, input: call.input });
 
   try {
-    const result = await tool.handler(call.input);
+    const result = await tool.handler(call.input, {
+      channel: ctx.channel, userId: ctx.userId, taskId: ctx.taskId, signal: ctx.signal,
+    });
+    ctx.signal?.throwIfAborted();
 
     // Cap output size to prevent context window flooding
     const capped = result.slice(0, securityConfig.maxToolOutputChars);
@@ -58,6 +89,11 @@ export async function executeTool(call: ToolCall): Promise<ToolResult> {
     eventBus.emit({ type: 'tool_result', tool: call.name, result: capped, isError: false });
     return { toolCallId: call.id, content: capped };
   } catch (err: any) {
+    if (ctx.signal?.aborted) {
+      await audit({ action: 'tool_exec', tool: call.name, input: call.input, reason: 'stopped: task cancelled' });
+      eventBus.emit({ type: 'tool_result', tool: call.name, result: 'cancelled', isError: true });
+      throw ctx.signal.reason;
+    }
     const errMsg = err.message ?? String(err);
     const isSecurityBlock = err instanceof SecurityError;
 
@@ -80,6 +116,17 @@ export async function executeTool(call: ToolCall): Promise<ToolResult> {
   }
 }
 
+/** Record a file a task produced; a failure is reported, never fatal to the tool */
+async function linkArtifact(taskId: string, filePath: string, tool: string, description?: string): Promise<string> {
+  try {
+    const artifact = await saveArtifactFile(taskId, filePath, { tool, description });
+    return ` (artifact ${artifact.id.slice(0, 8)})`;
+  } catch (err: any) {
+    log.warn(`Could not keep ${filePath} as an artifact: ${err.message}`);
+    return ` (not kept as an artifact: ${err.message})`;
+  }
+}
+
 // ---- Built-in: Shell -----------------------------------------
 
 registerTool(
@@ -96,7 +143,7 @@ registerTool(
       required: ['command'],
     },
   },
-  async (input) => {
+  async (input, { signal }) => {
     const cmd = input.command as string;
 
     // Security: validate command against blocklist patterns
@@ -116,6 +163,8 @@ registerTool(
       const { stdout, stderr } = await execAsync(cmd, {
         cwd,
         timeout,
+        // Cancelling the task kills the child process
+        signal,
         // Security: limit output buffer to prevent memory exhaustion
         maxBuffer: 5 * 1024 * 1024, // 5 MB
         // Security: inherit minimal environment
@@ -134,6 +183,7 @@ registerTool(
         stderr ? `STDERR:\n${stderr.slice(0, 5_000)}` : '',
       ].filter(Boolean).join('\n') || '(no output)';
     } catch (err: any) {
+      if (signal?.aborted) throw signal.reason;
       return `Exit code ${err.code ?? 'unknown'}:\n${err.stderr || err.message}`.slice(0, 10_000);
     }
   },
@@ -175,7 +225,7 @@ registerTool(
       required: ['path', 'content'],
     },
   },
-  async (input) => {
+  async (input, { taskId }) => {
     // Security: path sandboxed to workspace
     const filePath = safePath(input.path as string);
 
@@ -192,7 +242,8 @@ registerTool(
     } else {
       await fs.writeFile(filePath, input.content as string);
     }
-    return `Written ${(input.content as string).length} chars to ${filePath}`;
+    const written = `Written ${(input.content as string).length} chars to ${filePath}`;
+    return taskId ? `${written}${await linkArtifact(taskId, filePath, 'write_file')}` : written;
   },
 );
 
@@ -237,7 +288,7 @@ registerTool(
       required: ['url'],
     },
   },
-  async (input) => {
+  async (input, { signal }) => {
     // Security: SSRF validation (blocks private IPs, metadata endpoints, file://)
     const validatedUrl = await validateURL(input.url as string);
 
@@ -245,7 +296,9 @@ registerTool(
       method: (input.method as string) || 'GET',
       headers: (input.headers as Record<string, string>) || {},
       body: input.body as string | undefined,
-      signal: AbortSignal.timeout(15_000), // 15s timeout
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(15_000)])
+        : AbortSignal.timeout(15_000), // 15s timeout
     });
 
     let text = await res.text();
@@ -281,7 +334,8 @@ registerTool(
       required: ['action'],
     },
   },
-  async (input) => {
+  async (input, { signal, taskId }) => {
+    signal?.throwIfAborted();
     const puppeteer = await import('puppeteer');
     const browser = await puppeteer.launch({
       headless: true,
@@ -295,6 +349,9 @@ registerTool(
         '--disable-background-networking',
       ],
     });
+    // Cancelling the task closes the browser; the pending page call then rejects
+    const closeOnAbort = () => { browser.close().catch(() => {}); };
+    signal?.addEventListener('abort', closeOnAbort, { once: true });
     const page = await browser.newPage();
 
     // Security: block requests to internal networks
@@ -325,7 +382,8 @@ registerTool(
           const buf = await page.screenshot({ encoding: 'base64' });
           const ssPath = safePath(`screenshot-${Date.now()}.png`);
           await fs.writeFile(ssPath, Buffer.from(buf as string, 'base64'));
-          return `Screenshot saved to ${ssPath}`;
+          const saved = `Screenshot saved to ${ssPath}`;
+          return taskId ? `${saved}${await linkArtifact(taskId, ssPath, 'browser_action', `Screenshot of ${page.url()}`)}` : saved;
         }
 
         case 'click':
@@ -354,6 +412,7 @@ registerTool(
           return `Unknown browser action: ${action}`;
       }
     } finally {
+      signal?.removeEventListener('abort', closeOnAbort);
       await browser.close();
     }
   },
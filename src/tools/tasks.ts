@@ -7,13 +7,21 @@ import { registerTool } from './registry.js';
 import {
   createTask, getTask, getAllTasks, getTasksByStatus,
   updateTaskStatus, getSubtasks, deleteTask,
-  appendScratchpad, getNextPendingTask,
+  appendScratchpad, getNextPendingTask, resumeTask,
 } from '../tasks/queue.js';
+import {
+  resolveSchedule, describeRecurrence, getRecurringRuns, TaskScheduleError,
+} from '../tasks/schedule.js';
 import {
   getPendingApprovals, resolveApproval,
-  formatApprovalForChat, getAllApprovals,
+  formatApprovalForChat, getAllApprovals, ApprovalError,
 } from '../tasks/approvals.js';
-import { orchestrate, shouldOrchestrate, getActiveAgents } from '../orchestrator/planner.js';
+import { AGENT_APPROVER } from '../tasks/approval-policy.js';
+import { saveArtifact, saveArtifactFile, listArtifacts, ArtifactError } from '../tasks/artifacts.js';
+import { safePath } from '../security/guard.js';
+import { getTaskBudget } from '../tasks/costs.js';
+import { getModelPrice } from '../llm/pricing.js';
+import { shouldOrchestrate, getActiveAgents } from '../orchestrator/planner.js';
 import { getRoutes } from '../orchestrator/router.js';
 import { createLogger } from '../utils/logger.js';
 import type { ChannelType } from '../types.js';
@@ -25,7 +33,7 @@ const log = createLogger('TaskTools');
 registerTool(
   {
     name: 'create_task',
-    description: `Create a tracked task. For complex multi-step work, the orchestrator will automatically decompose it into subtasks and run them in parallel across different models. Use this for anything that requires multiple steps, research+synthesis, or long-running work.`,
+    description: `Create a tracked task. For complex multi-step work, the orchestrator will automatically decompose it into subtasks and run them in parallel across different models. Use this for anything that requires multiple steps, research+synthesis, or long-running work. It can also start later (run_at), repeat (cron or every_minutes — each run is tracked with its own result and cost) and have a deadline.`,
     parameters: {
       type: 'object',
       properties: {
@@ -36,11 +44,41 @@ registerTool(
         userId: { type: 'string', description: 'Requesting user ID' },
         orchestrate: { type: 'boolean', description: 'Force multi-agent orchestration (auto-detected if not specified)' },
         tags: { type: 'string', description: 'Comma-separated tags' },
+        run_at: { type: 'string', description: 'ISO time to start at (default: now). For a recurring task, its first run' },
+        cron: { type: 'string', description: 'Repeat on a cron expression (5 fields, or 6 with leading seconds), server local time (e.g. "0 9 * * 1-5")' },
+        every_minutes: { type: 'number', description: 'Repeat every N minutes (instead of cron)' },
+        until: { type: 'string', description: 'ISO time after which a recurring task stops' },
+        max_runs: { type: 'number', description: 'Stop a recurring task after this many runs' },
+        deadline: { type: 'string', description: 'ISO time by which a one-off task must be finished, or it is aborted and failed' },
+        deadline_minutes: { type: 'number', description: 'For a recurring task: minutes each run has to finish' },
+        budget: { type: 'number', description: 'Max $ this task (each run, if recurring) may spend; past it the task stops' },
       },
       required: ['title', 'description'],
     },
   },
   async (input) => {
+    const orchestrate = typeof input.orchestrate === 'boolean' ? input.orchestrate : undefined;
+    const date = (value: unknown) => value ? new Date(value as string) : undefined;
+    const recurring = input.cron || input.every_minutes;
+
+    let schedule: ReturnType<typeof resolveSchedule>;
+    try {
+      schedule = resolveSchedule({
+        runAt: date(input.run_at),
+        deadline: date(input.deadline),
+        recurrence: recurring ? {
+          cron: input.cron as string | undefined,
+          everyMinutes: input.every_minutes as number | undefined,
+          until: date(input.until),
+          maxRuns: input.max_runs as number | undefined,
+          deadlineMinutes: input.deadline_minutes as number | undefined,
+        } : undefined,
+      });
+    } catch (err) {
+      if (err instanceof TaskScheduleError) return `Task not created — ${err.message}`;
+      throw err;
+    }
+
     const task = await createTask({
       title: input.title as string,
       description: input.description as string,
@@ -50,26 +88,35 @@ registerTool(
         userId: (input.userId as string) || 'agent',
       },
       tags: (input.tags as string)?.split(',').map(s => s.trim()) || [],
+      orchestrate,
+      budget: typeof input.budget === 'number' && input.budget > 0 ? input.budget : undefined,
+      ...schedule,
     });
 
-    // Determine if orchestration is needed
-    const useOrchestration = input.orchestrate === true ||
-      (input.orchestrate !== false && shouldOrchestrate(input.description as string));
-
-    if (useOrchestration) {
-      log.info(`Task "${task.title}" queued for multi-agent orchestration`);
-
-      // Run orchestration in background (don't block the tool call)
-      orchestrate(task).then(result => {
-        log.info(`Task "${task.title}" completed: ${result.slice(0, 200)}...`);
-      }).catch(err => {
-        log.error(`Task "${task.title}" failed: ${err.message}`);
-      });
-
-      return `Task created and sent to orchestrator: "${task.title}" [${task.id.slice(0, 8)}]\nThe orchestrator will decompose this into subtasks and run them in parallel.\nUse \`task_status ${task.id.slice(0, 8)}\` to check progress.`;
+    if (task.status === 'scheduled') {
+      log.info(`Task "${task.title}" scheduled for ${task.runAt!.toISOString()}`);
+      return [
+        task.recurrence
+          ? `Recurring task scheduled: "${task.title}" [${task.id.slice(0, 8)}] — ${describeRecurrence(task.recurrence)}`
+          : `Task scheduled: "${task.title}" [${task.id.slice(0, 8)}]`,
+        `${task.recurrence ? 'First run' : 'Runs'} at ${task.runAt!.toISOString()}${task.deadline ? `, deadline ${task.deadline.toISOString()}` : ''}.`,
+        task.recurrence
+          ? `Each run is tracked as its own task and its result is sent to ${task.source.channel}. Cancel the task to stop the recurrence.`
+          : `The result is sent to ${task.source.channel} when done.`,
+      ].join('\n');
     }
 
-    return `Task created: "${task.title}" [${task.id.slice(0, 8)}] (status: pending)\nThis is a simple task — execute it directly with available tools.`;
+    // The worker pool picks it up; it decides orchestration the same way
+    const useOrchestration = orchestrate ?? shouldOrchestrate(task.description);
+    log.info(`Task "${task.title}" queued${useOrchestration ? ' for multi-agent orchestration' : ''}`);
+
+    return [
+      `Task queued: "${task.title}" [${task.id.slice(0, 8)}] (priority: ${task.priority})`,
+      useOrchestration
+        ? 'A worker will send it to the orchestrator, which decomposes it into subtasks and runs them in parallel.'
+        : 'A worker will run it in the background.',
+      `The result is sent to ${task.source.channel} when done. Use \`task_status ${task.id.slice(0, 8)}\` to check progress.`,
+    ].join('\n');
   },
 );
 
@@ -83,7 +130,7 @@ registerTool(
       type: 'object',
       properties: {
         id: { type: 'string', description: 'Task ID (or first 8 chars). Omit to list all tasks.' },
-        status_filter: { type: 'string', enum: ['pending', 'running', 'completed', 'failed', 'paused', 'waiting_approval'] },
+        status_filter: { type: 'string', enum: ['scheduled', 'pending', 'running', 'completed', 'failed', 'paused', 'waiting_approval'] },
       },
     },
   },
@@ -112,15 +159,20 @@ registerTool(
     if (!task) return `No task found matching: ${prefix}`;
 
     const subtasks = getSubtasks(task.id);
+    const ceiling = getTaskBudget(task.id);
     const lines = [
       `=== Task: ${task.title} ===`,
       `ID: ${task.id}`,
       `Status: ${task.status} | Priority: ${task.priority}`,
       `Progress: ${progressBar(task.progress)} ${task.progress}%`,
       `Created: ${new Date(task.createdAt).toISOString().slice(0, 16)}`,
+      task.recurrence ? `Repeats: ${describeRecurrence(task.recurrence)} — ${task.runCount ?? 0} run(s) so far` : '',
+      task.runAt ? `${task.recurrence ? 'Next run' : 'Runs at'}: ${task.runAt.toISOString().slice(0, 16)}` : '',
+      task.deadline ? `Deadline: ${task.deadline.toISOString().slice(0, 16)}` : '',
+      task.recurringId ? `Run of recurring task ${task.recurringId.slice(0, 8)}` : '',
       task.startedAt ? `Started: ${new Date(task.startedAt).toISOString().slice(0, 16)}` : '',
       task.completedAt ? `Completed: ${new Date(task.completedAt).toISOString().slice(0, 16)}` : '',
-      `Cost: $${task.usage.estimatedCost.toFixed(4)} (${task.usage.inputTokens + task.usage.outputTokens} tokens)`,
+      `Cost: $${task.usage.estimatedCost.toFixed(4)} (${task.usage.inputTokens + task.usage.outputTokens} tokens)${ceiling ? ` of a $${ceiling.limit} budget` : ''}`,
       ``,
     ];
 
@@ -133,6 +185,15 @@ registerTool(
       lines.push('');
     }
 
+    const runs = task.recurrence ? getRecurringRuns(task.id) : [];
+    if (runs.length > 0) {
+      lines.push(`Recent runs (${runs.length}):`);
+      for (const run of runs.slice(0, 10)) {
+        lines.push(`  [${run.id.slice(0, 8)}] ${new Date(run.createdAt).toISOString().slice(0, 16)} ${run.status} $${run.usage.estimatedCost.toFixed(4)}`);
+      }
+      lines.push('');
+    }
+
     if (subtasks.length > 0) {
       lines.push(`Subtasks (${subtasks.length}):`);
       for (const st of subtasks) {
@@ -142,6 +203,15 @@ registerTool(
       lines.push('');
     }
 
+    const artifacts = await listArtifacts(task.id);
+    if (artifacts.length > 0) {
+      lines.push(`Artifacts (${artifacts.length}):`);
+      for (const a of artifacts) {
+        lines.push(`  📎 ${a.name} — ${a.mimeType}, ${a.size} bytes${a.subtaskId ? ` (subtask ${a.subtaskId.slice(0, 8)})` : ''}`);
+      }
+      lines.push('');
+    }
+
     if (task.scratchpad) {
       lines.push('Scratchpad (last 1000 chars):');
       lines.push(task.scratchpad.slice(-1000));
@@ -182,13 +252,14 @@ registerTool(
     switch (input.action) {
       case 'pause':
         await updateTaskStatus(task.id, 'paused');
-        return `Task "${task.title}" paused.`;
-      case 'resume':
-        await updateTaskStatus(task.id, 'pending');
-        return `Task "${task.title}" resumed (re-queued as pending).`;
+        return `Task "${task.title}" paused — it stops after its current step.`;
+      case 'resume': {
+        const resumed = await resumeTask(task.id);
+        return `Task "${task.title}" resumed (${resumed?.status === 'scheduled' ? 'back on its schedule' : 're-queued as pending'}).`;
+      }
       case 'cancel':
         await updateTaskStatus(task.id, 'cancelled');
-        return `Task "${task.title}" cancelled.`;
+        return `Task "${task.title}" cancelled — its running work and subtasks were stopped.`;
       case 'note':
         await appendScratchpad(task.id, input.note as string || '');
         return `Note added to task "${task.title}".`;
@@ -198,6 +269,48 @@ registerTool(
   },
 );
 
+// ---- Artifacts -----------------------------------------------
+
+registerTool(
+  {
+    name: 'save_artifact',
+    description: 'Attach an output to the current task: a workspace file, text, or structured data (stored as JSON). Artifacts are sent with the task\'s completion message and can be downloaded from the dashboard. Files written with write_file are attached automatically.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'File name, e.g. "report.md" or "results.json"' },
+        path: { type: 'string', description: 'Workspace file to attach (instead of content/data)' },
+        content: { type: 'string', description: 'Text content to attach' },
+        data: { type: 'object', description: 'Structured output, stored as JSON' },
+        mime_type: { type: 'string', description: 'MIME type (guessed from the name when omitted)' },
+        description: { type: 'string', description: 'What this artifact is' },
+      },
+      required: ['name'],
+    },
+  },
+  async (input, { taskId }) => {
+    if (!taskId) return 'save_artifact only works while running a task.';
+    const meta = {
+      name: input.name as string,
+      mimeType: input.mime_type as string | undefined,
+      description: input.description as string | undefined,
+      tool: 'save_artifact',
+    };
+
+    try {
+      const artifact = input.path
+        ? await saveArtifactFile(taskId, safePath(input.path as string), meta)
+        : input.data !== undefined
+          ? await saveArtifact(taskId, { ...meta, mimeType: meta.mimeType || 'application/json', data: JSON.stringify(input.data, null, 2) })
+          : await saveArtifact(taskId, { ...meta, data: (input.content as string) ?? '' });
+      return `Artifact saved: ${artifact.name} [${artifact.id.slice(0, 8)}] (${artifact.mimeType}, ${artifact.size} bytes)`;
+    } catch (err) {
+      if (err instanceof ArtifactError) return `Artifact not saved: ${err.message}`;
+      throw err;
+    }
+  },
+);
+
 // ---- Approval management -------------------------------------
 
 registerTool(
@@ -233,7 +346,12 @@ registerTool(
     if (!match) return `No pending approval found: ${prefix}`;
 
     const decision = (input.decision as string) === 'approve' ? 'approved' : 'rejected';
-    await resolveApproval(match.id, decision as any, 'agent');
+    try {
+      await resolveApproval(match.id, decision, AGENT_APPROVER);
+    } catch (err) {
+      if (err instanceof ApprovalError) return `Cannot decide ${match.id.slice(0, 8)}: ${err.message}`;
+      throw err;
+    }
     return `Approval ${match.id.slice(0, 8)} ${decision}: ${match.proposedAction.tool}`;
   },
 );
@@ -264,7 +382,8 @@ registerTool(
     const routes = getRoutes();
     lines.push('', '=== Available Model Routes ===');
     for (const r of routes) {
-      lines.push(`  ${r.tier}: ${r.provider}/${r.model} — $${r.costPer1kInput}/$${r.costPer1kOutput} per 1K tokens`);
+      const price = getModelPrice(r.provider, r.model);
+      lines.push(`  ${r.tier}: ${r.provider}/${r.model} — $${price.input}/$${price.output} per 1K tokens`);
     }
 
     return lines.join('\n');
@@ -11,8 +11,44 @@ export type ChannelType = 'telegram' | 'discord' | 'webchat' | 'cli';
 /** How much the agent can do on its own */
 export type AutonomyLevel = 'low' | 'medium' | 'high';
 
-/** LLM provider backends */
-export type LLMProvider = 'anthropic' | 'openai' | 'ollama';
+/** Name of an endpoint in the provider registry (built-ins: anthropic, openai, ollama) */
+export type LLMProvider = string;
+
+/** How an endpoint expects its API key */
+export type LLMAuthStyle = 'bearer' | 'x-api-key' | 'api-key' | 'none';
+
+/** A named LLM endpoint — built in, or declared in workspace/providers.json */
+export interface LLMEndpoint {
+  name: string;
+  /** Wire protocol adapter: 'anthropic' or 'openai' (chat completions) */
+  kind: string;
+  baseUrl: string;
+  /** Literal key; prefer apiKeyEnv so secrets stay out of the workspace */
+  apiKey?: string;
+  /** Environment variable holding the key */
+  apiKeyEnv?: string;
+  auth?: LLMAuthStyle;
+  /** Chat path appended to baseUrl (openai kind, default /v1/chat/completions) */
+  chatPath?: string;
+  /** Extra query parameters, e.g. { "api-version": "2024-06-01" } for Azure */
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  defaultModel: string;
+  /** Models this endpoint serves; when set, routes, fallbacks and LLM_MODEL must name one of them */
+  models?: string[];
+  /** $ per 1K tokens by model; '*' applies to unlisted models */
+  pricing?: Record<string, ModelPrice>;
+  /** Runs on this machine or network, so privacy-sensitive prompts may go here (built-in ollama: true) */
+  local?: boolean;
+  /** Context window in tokens for this endpoint's models */
+  contextWindow?: number;
+  /** anthropic kind: send prompt cache breakpoints (default true); false for proxies that reject them */
+  promptCaching?: boolean;
+  /** Calls/min for the whole endpoint (default: llmRateLimitPerMin setting) */
+  rateLimitPerMin?: number;
+  /** Calls/min for individual models, on top of the endpoint limit */
+  modelRateLimits?: Record<string, number>;
+}
 
 // ---- Messages ------------------------------------------------
 
@@ -34,6 +70,26 @@ export interface OutboundMessage {
   text: string;
   attachments?: Attachment[];
   replyToMessageId?: string;
+  /** Set for streamed replies: partial sends edit one live message, `done` finalizes it */
+  stream?: { id: Id; done: boolean };
+  /** Buttons under the message, on channels that render them (see ChannelAdapter.actions) */
+  actions?: MessageAction[];
+}
+
+/** A button on an outbound message; clicking it dispatches `id` to the action handler for its prefix */
+export interface MessageAction {
+  /** "<prefix>:<payload>", at most 64 bytes (Telegram's callback limit) */
+  id: string;
+  label: string;
+  style?: 'primary' | 'success' | 'danger' | 'secondary';
+}
+
+/** Where a delivered message lives, so it can be edited later */
+export interface SentMessageRef {
+  channel: ChannelType;
+  userId: string;
+  /** Unset on channels without message ids (CLI) */
+  messageId?: string;
 }
 
 export interface Attachment {
@@ -66,8 +122,30 @@ export interface LLMContentBlock {
 export interface LLMResponse {
   content: string;
   toolCalls?: ToolCall[];
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
   stopReason?: string;
+  /** Endpoint and model that produced this response (may be a fallback) */
+  provider?: LLMProvider;
+  model?: string;
+}
+
+/** Tokens one LLM call used */
+export interface TokenUsage {
+  /** Input tokens billed at the full rate (not read from or written to a cache) */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/** $ per 1K tokens for one model; cache and batch rates default to the plain ones */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  batchInput?: number;
+  batchOutput?: number;
 }
 
 export interface ToolCall {
@@ -76,6 +154,12 @@ export interface ToolCall {
   input: Record<string, unknown>;
 }
 
+/** Incremental output of a streamed LLM call; the final chunk carries the full response */
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argsDelta: string }
+  | { type: 'done'; response: LLMResponse };
+
 // ---- Tools ---------------------------------------------------
 
 export interface ToolDefinition {
@@ -123,7 +207,19 @@ export interface ConversationThread {
   messages: LLMMessage[];
   createdAt: Date;
   updatedAt: Date;
+  /** Rolling summary of compacted messages (chained across compactions) */
   summary?: string;
+  summaryDetails?: ThreadSummary;
+}
+
+/** Structured result of summarizing compacted thread messages */
+export interface ThreadSummary {
+  summary: string;
+  decisions: string[];
+  openQuestions: string[];
+  /** How many compactions have been folded into this summary */
+  compactions: number;
+  updatedAt: Date;
 }
 
 // ---- Heartbeat -----------------------------------------------
@@ -165,7 +261,7 @@ export interface AgentConfig {
 
 // ---- Task Queue ----------------------------------------------
 
-export type TaskStatus = 'pending' | 'running' | 'waiting_approval' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type TaskStatus = 'scheduled' | 'pending' | 'running' | 'waiting_approval' | 'paused' | 'completed' | 'failed' | 'cancelled';
 export type TaskPriority = 'low' | 'normal' | 'high' | 'critical';
 
 export interface Task {
@@ -195,6 +291,50 @@ export interface Task {
   scratchpad: string;
   /** Tags for filtering */
   tags: string[];
+  /** Run through the orchestrator (true) or the agent loop (false); auto-detected when unset */
+  orchestrate?: boolean;
+  /** Not started before this; the task waits as `scheduled`. For a recurring task, its next run */
+  runAt?: Date;
+  /** Repeats: the task stays `scheduled` and each due run is spawned as a task of its own */
+  recurrence?: TaskRecurrence;
+  /** Still unfinished at this time: aborted and failed */
+  deadline?: Date;
+  /** $ ceiling for this task and its subtasks; the cost config's taskBudget when unset */
+  budget?: number;
+  /** On a spawned run: the recurring task it belongs to */
+  recurringId?: Id;
+  /** On a recurring task: runs spawned so far */
+  runCount?: number;
+}
+
+/** Either a cron expression or a fixed interval */
+export interface TaskRecurrence {
+  /** Server local time: [second] minute hour day-of-month month day-of-week — five fields, or six with leading seconds (as node-cron accepts) */
+  cron?: string;
+  everyMinutes?: number;
+  /** No runs after this */
+  until?: Date;
+  maxRuns?: number;
+  /** Each run's deadline, counted from when it is spawned */
+  deadlineMinutes?: number;
+}
+
+/** A file or structured output a task produced, stored under workspace/tasks/<task id>/artifacts/ */
+export interface TaskArtifact {
+  id: Id;
+  /** The top-level task it belongs to */
+  taskId: Id;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** The subtask (child task) that produced it, for orchestrated tasks */
+  subtaskId?: Id;
+  /** The tool that registered it */
+  tool?: string;
+  /** Workspace path it was copied from; writing that file again replaces it */
+  source?: string;
+  description?: string;
+  createdAt: Date;
 }
 
 export interface TaskStep {
@@ -214,7 +354,10 @@ export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
 
 export interface ApprovalRequest {
   id: Id;
-  taskId: Id;
+  /** Set when a task (or orchestrator sub-agent) asked */
+  taskId?: Id;
+  /** Set when the chat loop asked — the conversation waits on it */
+  threadId?: string;
   stepDescription: string;
   /** What the agent wants to do */
   proposedAction: {
@@ -231,8 +374,52 @@ export interface ApprovalRequest {
   userId: string;
   createdAt: Date;
   resolvedAt?: Date;
+  /** Who settled it; the full record is in `decisions` */
   resolvedBy?: string;
   expiresAt: Date;
+  /** Distinct approvers needed, from the approval policy */
+  quorum?: number;
+  /** Every vote and outcome, oldest first */
+  decisions?: ApprovalDecision[];
+  /** Chat messages that asked (prompt, reminders), edited once the request is decided */
+  prompts?: SentMessageRef[];
+  /** Enough state to pick the blocked work back up after a restart */
+  continuation?: ApprovalContinuation;
+}
+
+export interface ApprovalDecision {
+  decision: 'approved' | 'rejected' | 'expired' | 'withdrawn';
+  /** "telegram:12345", "dashboard:admin", "agent", "auto:<rule id>" or "system" */
+  by: string;
+  /** Set when a delegate voted with someone else's authority */
+  onBehalfOf?: string;
+  at: Date;
+  note?: string;
+}
+
+/**
+ * Snapshot of a loop paused on an approval. Cleared once the work has
+ * been picked up again — by the live waiter, or by a resumer after a
+ * restart.
+ */
+export interface ApprovalContinuation {
+  kind: 'chat' | 'subtask';
+  /** The call waiting on the decision */
+  toolCall: ToolCall;
+  /** History up to and including the assistant turn that made the call */
+  messages: LLMMessage[];
+  /** Calls from the same assistant turn that come after this one */
+  pendingCalls: ToolCall[];
+  /** Results of earlier calls in that turn not yet in `messages` */
+  completedResults?: ToolResult[];
+  /** Loop iterations already used */
+  iteration: number;
+  /** chat: the user message that started the turn */
+  text?: string;
+  /** subtask: the orchestration the sub-agent belongs to */
+  parentTaskId?: Id;
+  subtaskId?: Id;
+  plan?: OrchestratorPlan;
 }
 
 // ---- Multi-Agent Orchestrator --------------------------------
@@ -281,6 +468,8 @@ export interface PlannedSubtask {
   status: TaskStatus;
   result?: string;
   assignedAgentId?: Id;
+  /** Child task tracking the latest run */
+  taskId?: Id;
 }
 
 /** Model routing configuration */
@@ -289,8 +478,12 @@ export interface ModelRoute {
   provider: LLMProvider;
   model: string;
   maxTokens: number;
-  costPer1kInput: number;
-  costPer1kOutput: number;
+  /** Tried in order when this route's provider keeps failing */
+  fallbacks?: Array<{ provider: LLMProvider; model: string }>;
+  /** Local routes only: allow cloud endpoints in `fallbacks` (off, so private prompts stay local) */
+  allowCloudFallback?: boolean;
+  /** Context window in tokens (default: the endpoint's contextWindow) */
+  contextWindow?: number;
 }
 
 // ---- Event Triggers ------------------------------------------
@@ -314,11 +507,24 @@ export interface TriggerDefinition {
   triggerCount: number;
 }
 
+// ---- Cost Alerts ---------------------------------------------
+
+/** A spend warning for the owner: a budget level, a forecast past a budget, or an unusual hour */
+export interface CostAlert {
+  kind: 'budget' | 'forecast' | 'anomaly';
+  /** Identifies the condition; each fires at most once per day (anomalies once per hour) */
+  key: string;
+  message: string;
+  at: Date;
+}
+
 // ---- Events --------------------------------------------------
 
 export type AgentEvent =
   | { type: 'message_received'; message: InboundMessage }
   | { type: 'message_sent'; message: OutboundMessage }
+  | { type: 'message_delta'; channel: ChannelType; userId: string; streamId: Id; delta: string }
+  | { type: 'tool_call_delta'; streamId: Id; index: number; toolCallId?: string; tool?: string; argsDelta: string }
   | { type: 'tool_called'; tool: string; input: Record<string, unknown> }
   | { type: 'tool_result'; tool: string; result: string; isError: boolean }
   | { type: 'heartbeat_tick'; tasks: HeartbeatTask[] }
@@ -330,4 +536,5 @@ export type AgentEvent =
   | { type: 'approval_requested'; approval: ApprovalRequest }
   | { type: 'approval_resolved'; approval: ApprovalRequest }
   | { type: 'subtask_spawned'; parentId: Id; subtask: PlannedSubtask; agentId: Id }
-  | { type: 'trigger_fired'; trigger: TriggerDefinition; payload?: unknown };
+  | { type: 'trigger_fired'; trigger: TriggerDefinition; payload?: unknown }
+  | { type: 'cost_alert'; alert: CostAlert };
@@ -0,0 +1,26 @@
+// ============================================================
+// Tokens — Cheap token estimates for prompt budgeting
+// ~4 characters per token for English text and JSON; close
+// enough to budget against without a tokenizer per provider.
+// ============================================================
+
+import type { LLMMessage } from '../types.js';
+
+const CHARS_PER_TOKEN = 4;
+/** Role markers, separators and other per-message framing */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: LLMMessage): number {
+  const content = typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content);
+  return estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function estimateMessagesTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+}